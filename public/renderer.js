@@ -0,0 +1,360 @@
+// Team dashboard: instances with live status, a chat panel per instance, approval requests, and settings.
+// Talks to the main process only through the electronAPI bridge exposed by the preload script.
+
+const api = window.electronAPI;
+
+const state = {
+  instances: new Map(),
+  personas: [],
+  // Actions outside the permission policy, waiting for an answer
+  approvals: new Map(),
+  selectedId: undefined,
+  // Removes the stream subscription of the selected instance
+  unsubscribeStream: undefined,
+};
+
+const elements = {
+  status: document.getElementById('app-status'),
+  instanceList: document.getElementById('instance-list'),
+  approvalList: document.getElementById('approval-list'),
+  createForm: document.getElementById('create-form'),
+  newName: document.getElementById('new-instance-name'),
+  newPersona: document.getElementById('new-instance-persona'),
+  newDirectory: document.getElementById('new-instance-directory'),
+  chatTitle: document.getElementById('chat-title'),
+  chatStatus: document.getElementById('chat-status'),
+  stopButton: document.getElementById('stop-instance'),
+  messages: document.getElementById('chat-messages'),
+  chatForm: document.getElementById('chat-form'),
+  chatInput: document.getElementById('chat-input'),
+  sendButton: document.querySelector('[data-testid="send-message"]'),
+  settingsForm: document.getElementById('settings-form'),
+  claudePath: document.getElementById('settings-claude-path'),
+  defaultModel: document.getElementById('settings-default-model'),
+  maxInstances: document.getElementById('settings-max-instances'),
+  settingsSaved: document.getElementById('settings-saved'),
+};
+
+function setStatus(text, isError = false) {
+  elements.status.textContent = text;
+  elements.status.classList.toggle('error', isError);
+}
+
+function showError(error) {
+  setStatus(error instanceof Error ? error.message : String(error), true);
+}
+
+function element(tag, className, text) {
+  const node = document.createElement(tag);
+  if (className) {
+    node.className = className;
+  }
+  if (text !== undefined) {
+    node.textContent = text;
+  }
+  return node;
+}
+
+// Unwrap a { success, data, error } response
+function unwrap(response) {
+  if (!response?.success) {
+    throw new Error(response?.error || 'Request failed');
+  }
+  return response.data;
+}
+
+function personaName(instance) {
+  return instance.personaName || state.personas.find((persona) => persona.id === instance.personaId)?.name;
+}
+
+function renderSummary() {
+  const busy = Array.from(state.instances.values()).filter((instance) => instance.status === 'busy').length;
+  setStatus(`Connected · ${state.instances.size} instance${state.instances.size === 1 ? '' : 's'}, ${busy} busy`);
+}
+
+function renderInstances() {
+  elements.instanceList.replaceChildren();
+  if (state.instances.size === 0) {
+    elements.instanceList.append(element('li', 'empty', 'No instances yet'));
+  }
+  for (const instance of state.instances.values()) {
+    const item = element('li');
+    item.dataset.testid = `instance-${instance.id}`;
+    item.classList.toggle('selected', instance.id === state.selectedId);
+
+    const badge = element('span', `badge ${instance.status}`, instance.status);
+    badge.dataset.testid = `instance-status-${instance.id}`;
+    item.append(element('strong', '', instance.name), badge);
+    item.append(element('div', 'persona', personaName(instance) || 'No persona'));
+    item.addEventListener('click', () => selectInstance(instance.id));
+    elements.instanceList.append(item);
+  }
+  renderSummary();
+}
+
+function renderChatHeader() {
+  const instance = state.instances.get(state.selectedId);
+  elements.chatTitle.textContent = instance
+    ? `${instance.name}${personaName(instance) ? ` · ${personaName(instance)}` : ''}`
+    : 'No instance selected';
+  elements.chatStatus.hidden = !instance;
+  if (instance) {
+    elements.chatStatus.textContent = instance.status;
+    elements.chatStatus.className = `badge ${instance.status}`;
+    elements.chatStatus.title = instance.statusReason || '';
+  }
+  elements.stopButton.disabled = !instance;
+  elements.chatInput.disabled = !instance;
+  elements.sendButton.disabled = !instance || instance.status !== 'ready';
+}
+
+function appendMessage(event) {
+  let text;
+  switch (event.type) {
+    case 'prompt':
+    case 'text':
+      text = event.text;
+      break;
+    case 'tool-use':
+      text = `🔧 ${event.name}`;
+      break;
+    case 'tool-result':
+      text = event.content.length > 500 ? `${event.content.slice(0, 500)}…` : event.content;
+      break;
+    case 'error':
+      text = event.message;
+      break;
+    default:
+      // The result repeats the last text message
+      return;
+  }
+  elements.messages.querySelector('.placeholder')?.remove();
+  const message = element('div', `message ${event.type}`, text);
+  message.dataset.testid = `message-${event.type}`;
+  elements.messages.append(message);
+  elements.messages.scrollTop = elements.messages.scrollHeight;
+}
+
+// The command or file an approval request is about, or its whole input
+function describeAction(request) {
+  const input = request.input || {};
+  return input.command || input.file_path || input.notebook_path || input.path || JSON.stringify(input);
+}
+
+function renderApprovals() {
+  elements.approvalList.replaceChildren();
+  for (const request of state.approvals.values()) {
+    const item = element('li', 'approval');
+    item.dataset.testid = `approval-${request.id}`;
+    const instance = state.instances.get(request.instanceId);
+    item.append(
+      element('strong', '', `${instance?.name || request.instanceId} wants to use ${request.toolName}`),
+      element('code', '', describeAction(request)),
+      element('span', 'reason', request.reason),
+    );
+
+    const actions = element('div', 'actions');
+    for (const [response, label, className] of [
+      ['approve', 'Approve', 'primary'],
+      ['always-allow', 'Always allow', ''],
+      ['deny', 'Deny', 'danger'],
+    ]) {
+      const button = element('button', className, label);
+      button.type = 'button';
+      button.dataset.testid = `${response}-${request.id}`;
+      button.addEventListener('click', async () => {
+        try {
+          unwrap(await api.permissions.respond(request.id, response));
+        } catch (error) {
+          showError(error);
+        }
+      });
+      actions.append(button);
+    }
+    item.append(actions);
+    elements.approvalList.append(item);
+  }
+  elements.approvalList.hidden = state.approvals.size === 0;
+}
+
+async function selectInstance(instanceId) {
+  state.unsubscribeStream?.();
+  state.unsubscribeStream = undefined;
+  state.selectedId = instanceId;
+  renderInstances();
+  renderChatHeader();
+  elements.messages.replaceChildren();
+
+  if (!instanceId) {
+    elements.messages.append(element('p', 'placeholder', 'Create or select an instance to start chatting.'));
+    return;
+  }
+
+  state.unsubscribeStream = api.claude.onStream(instanceId, appendMessage);
+  try {
+    const transcript = unwrap(await api.claude.getTranscript(instanceId));
+    if (state.selectedId === instanceId) {
+      for (const entry of transcript.entries) {
+        appendMessage(entry);
+      }
+    }
+  } catch (error) {
+    showError(error);
+  }
+}
+
+async function loadInstances() {
+  const instances = unwrap(await api.claude.getInstances());
+  state.instances = new Map(instances.map((instance) => [instance.id, instance]));
+  renderInstances();
+}
+
+async function loadPersonas() {
+  state.personas = unwrap(await api.claude.getPersonas());
+  for (const persona of state.personas) {
+    const option = element('option', '', persona.name);
+    option.value = persona.id;
+    elements.newPersona.append(option);
+  }
+}
+
+async function loadSettings() {
+  const config = unwrap(await api.claude.getConfig());
+  elements.claudePath.value = config.claudeExecutablePath || '';
+  elements.defaultModel.value = config.defaultModel;
+  elements.maxInstances.value = String(config.maxConcurrentInstances);
+}
+
+function showView(view) {
+  for (const button of document.querySelectorAll('nav button')) {
+    button.classList.toggle('active', button.dataset.view === view);
+  }
+  document.getElementById('dashboard-view').hidden = view !== 'dashboard';
+  document.getElementById('settings-view').hidden = view !== 'settings';
+  if (view === 'settings') {
+    elements.settingsSaved.hidden = true;
+    loadSettings().catch(showError);
+  }
+}
+
+elements.createForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const options = {};
+  if (elements.newPersona.value) {
+    options.personaId = elements.newPersona.value;
+  }
+  if (elements.newDirectory.value.trim()) {
+    options.workingDirectory = elements.newDirectory.value.trim();
+  }
+  try {
+    const instance = unwrap(await api.claude.createInstance(elements.newName.value.trim(), options));
+    state.instances.set(instance.id, instance);
+    elements.createForm.reset();
+    await selectInstance(instance.id);
+  } catch (error) {
+    showError(error);
+  }
+});
+
+elements.chatForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const instanceId = state.selectedId;
+  const message = elements.chatInput.value.trim();
+  if (!instanceId || !message) {
+    return;
+  }
+  elements.chatInput.value = '';
+  // The prompt and the reply arrive on the stream
+  const response = await api.claude.sendMessage(instanceId, message);
+  if (!response.success) {
+    showError(response.error);
+  }
+});
+
+elements.chatInput.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter' && !event.shiftKey) {
+    event.preventDefault();
+    elements.chatForm.requestSubmit();
+  }
+});
+
+elements.stopButton.addEventListener('click', async () => {
+  if (!state.selectedId) {
+    return;
+  }
+  try {
+    unwrap(await api.claude.stopInstance(state.selectedId));
+  } catch (error) {
+    showError(error);
+  }
+});
+
+elements.settingsForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  try {
+    const claudePath = elements.claudePath.value.trim();
+    if (claudePath) {
+      unwrap(await api.claude.setClaudePath(claudePath));
+    }
+    unwrap(await api.claude.setConfig('defaultModel', elements.defaultModel.value.trim()));
+    unwrap(await api.claude.setConfig('maxConcurrentInstances', Number(elements.maxInstances.value)));
+    elements.settingsSaved.hidden = false;
+    renderSummary();
+  } catch (error) {
+    showError(error);
+  }
+});
+
+for (const button of document.querySelectorAll('nav button')) {
+  button.addEventListener('click', () => showView(button.dataset.view));
+}
+
+async function start() {
+  console.log('Coding Team renderer loaded');
+  if (!api) {
+    setStatus('Electron API bridge is not available', true);
+    return;
+  }
+
+  // Live updates: status changes, and instances created or stopped elsewhere
+  api.claude.onInstanceChange(({ instance, to }) => {
+    if (to === 'stopped') {
+      state.instances.delete(instance.id);
+      if (state.selectedId === instance.id) {
+        selectInstance(undefined);
+      }
+    } else {
+      state.instances.set(instance.id, instance);
+    }
+    renderInstances();
+    if (instance.id === state.selectedId) {
+      renderChatHeader();
+    }
+  });
+  api.permissions.onApprovalRequested((request) => {
+    state.approvals.set(request.id, request);
+    renderApprovals();
+  });
+  api.permissions.onApprovalResolved(({ id }) => {
+    state.approvals.delete(id);
+    renderApprovals();
+  });
+  api.claude.onConfigChange(() => {
+    if (!document.getElementById('settings-view').hidden) {
+      loadSettings().catch(showError);
+    }
+  });
+
+  try {
+    await loadPersonas();
+    await loadInstances();
+    for (const request of unwrap(await api.permissions.listPending())) {
+      state.approvals.set(request.id, request);
+    }
+    renderApprovals();
+  } catch (error) {
+    showError(error);
+  }
+}
+
+start();
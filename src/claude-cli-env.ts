@@ -0,0 +1,14 @@
+// Starts the Claude Code CLI with the environment of one query, which the Claude Code SDK cannot pass itself.
+// Run by the SDK as `node claude-cli-env.js <env file> <cli.js> ...args`, see ClaudeCodeBackend. The env file holds
+// the variables as JSON and is deleted before the CLI loads, so secrets stay out of command lines and other processes.
+import fs from 'node:fs';
+import { pathToFileURL } from 'node:url';
+
+const [, , envFile, cliPath] = process.argv;
+const env = JSON.parse(fs.readFileSync(envFile, 'utf-8')) as Record<string, string>;
+fs.rmSync(envFile, { force: true });
+Object.assign(process.env, env);
+
+// The CLI reads its arguments as if it had been started directly
+process.argv.splice(1, 2);
+await import(pathToFileURL(cliPath).href);
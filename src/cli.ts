@@ -0,0 +1,491 @@
+#!/usr/bin/env node
+import fs from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { SessionMode } from './services/cassette-backend.js';
+import type { ClaudeStreamEvent } from './services/claude-stream.js';
+import { ControlClient, ControlServer, defaultSocketPath } from './services/control-socket.js';
+import type { IpcResult, ManagerEvent } from './services/ipc-contract.js';
+import { Orchestrator } from './services/orchestrator.js';
+
+const USAGE = `Usage: coding-team <command> [options]
+
+Commands:
+  daemon                     Run the team headless and serve the control socket
+  list                       List instances
+  create <name>              Create an instance
+                               --persona <id>  --dir <path>  --repository <path>  --issue <id>
+                               --session-mode live|record|replay  --mcp <server,...>  --secrets <name,...>
+  send <instance> <message>  Send a message and stream the reply to stdout
+                               --schema <file>  ask for JSON matching a JSON Schema and print it
+                               --retries <n>  corrections asked for before giving up (default 2)
+  stop <instance>            Stop an instance
+                               --worktree keep|remove|archive
+  enqueue <prompt>           Queue a task for the dispatcher
+                               --persona <id>  --dir <path>  --priority <n>
+  tasks                      List queued tasks
+  message <to> <text>        Message an instance, or an instance of a role (persona id)
+                               --handoff  hand work over without waiting for an answer  --thread <id>
+  messages                   List messages between instances
+                               --thread <id>  --instance <id>
+  workflows                  List the workflows that can be run
+  run <workflow>             Start a run of a workflow
+                               --set <input>=<value> (repeatable)  --dir <path> (default: current directory)
+                               --issue <id>
+  runs                       List workflow runs and the stage each one is in
+  cancel-run <run>           Cancel a workflow run
+  secrets                    List stored secrets, without their values
+  secret-set <name>          Store a secret, read from stdin so it stays out of the shell history
+  secret-rotate <name>       Replace the value of a secret, read from stdin
+  secret-delete <name>       Delete a secret
+  mcp                        List the configured MCP servers, their health and tools
+  approvals                  List actions waiting for approval
+  approve <approval>         Allow a waiting action
+                               --always  also allow it from now on
+  deny <approval>            Deny a waiting action
+
+Options:
+  --socket <path>            Control socket of the daemon (default: ${defaultSocketPath()})
+  --json                     Print results as JSON
+  -h, --help                 Show this help
+`;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    socket: { type: 'string' },
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+    persona: { type: 'string' },
+    dir: { type: 'string' },
+    repository: { type: 'string' },
+    issue: { type: 'string' },
+    worktree: { type: 'string' },
+    priority: { type: 'string' },
+    'session-mode': { type: 'string' },
+    always: { type: 'boolean' },
+    mcp: { type: 'string' },
+    secrets: { type: 'string' },
+    schema: { type: 'string' },
+    retries: { type: 'string' },
+    handoff: { type: 'boolean' },
+    thread: { type: 'string' },
+    instance: { type: 'string' },
+    set: { type: 'string', multiple: true },
+  },
+});
+
+const socketPath = options.socket || defaultSocketPath();
+
+function unwrap<T>(result: IpcResult<T>): T {
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+}
+
+function print(data: unknown, format: () => string): void {
+  console.log(options.json ? JSON.stringify(data, null, 2) : format());
+}
+
+// Run the orchestrator in this process until it is interrupted
+async function runDaemon(): Promise<void> {
+  const orchestrator = new Orchestrator();
+  await orchestrator.initialize();
+  const server = new ControlServer(orchestrator, socketPath);
+  await server.listen();
+
+  orchestrator.on('event', (channel: string, payload: unknown) => {
+    if (channel === 'claude:manager-event') {
+      const { type, instance, ...rest } = payload as ManagerEvent;
+      const error = 'error' in rest ? `: ${rest.error}` : '';
+      console.log(`${new Date().toISOString()} ${instance.name} (${instance.id}) ${type}${error}`);
+    }
+  });
+  console.log(`Coding Team daemon listening on ${socketPath}`);
+
+  let stopping = false;
+  const shutdown = async () => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    console.log('Shutting down');
+    await server.close();
+    await orchestrator.cleanup();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+function formatStreamEvent(event: ClaudeStreamEvent): string | undefined {
+  switch (event.type) {
+    case 'text':
+      return event.text;
+    case 'tool-use':
+      return `[${event.name}] ${JSON.stringify(event.input)}`;
+    case 'tool-result':
+      return event.isError ? `[tool error] ${event.content}` : undefined;
+    case 'error':
+      return `[error] ${event.message}`;
+    default:
+      return undefined;
+  }
+}
+
+// The value of a secret, piped in: `printf %s "$TOKEN" | coding-team secret-set GITHUB_TOKEN`
+async function readSecret(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new Error('Pipe the value of the secret to stdin');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks)
+    .toString('utf-8')
+    .replace(/\r?\n$/, '');
+}
+
+async function runCommand(client: ControlClient, command: string, args: string[]): Promise<void> {
+  switch (command) {
+    case 'list': {
+      const instances = unwrap(await client.invoke('claude:get-instances'));
+      print(instances, () =>
+        instances.length === 0
+          ? 'No instances'
+          : table([
+              ['ID', 'NAME', 'STATUS', 'PERSONA', 'DIRECTORY'],
+              ...instances.map((instance) => [
+                instance.id,
+                instance.name,
+                instance.status,
+                instance.personaName ?? '-',
+                instance.workingDirectory,
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'create': {
+      const [name] = args;
+      const instance = unwrap(
+        await client.invoke('claude:create-instance', name, {
+          personaId: options.persona,
+          workingDirectory: options.dir,
+          repository: options.repository,
+          issueId: options.issue,
+          sessionMode: options['session-mode'] as SessionMode | undefined,
+          mcpServers: options.mcp?.split(',').map((name) => name.trim()),
+          secrets: options.secrets?.split(',').map((name) => name.trim()),
+        }),
+      );
+      print(instance, () => `Created ${instance.id} in ${instance.workingDirectory}`);
+      return;
+    }
+    case 'send': {
+      const [instanceId, ...words] = args;
+      if (options.schema) {
+        const schema = JSON.parse(await fs.readFile(options.schema, 'utf-8'));
+        const maxRetries = options.retries === undefined ? undefined : Number(options.retries);
+        if (maxRetries !== undefined && !Number.isInteger(maxRetries)) {
+          throw new Error(`--retries must be an integer, got ${options.retries}`);
+        }
+        const answer = unwrap(
+          await client.invoke('claude:send-structured', instanceId, words.join(' '), schema, { maxRetries }),
+        );
+        process.stdout.write(`${JSON.stringify(answer, null, 2)}\n`);
+        return;
+      }
+      // Stream the instance's progress while the message is being answered
+      await client.subscribe();
+      client.on('event', (channel: string, payload: unknown) => {
+        const line = channel === `claude:stream:${instanceId}` && formatStreamEvent(payload as ClaudeStreamEvent);
+        if (line) {
+          process.stdout.write(`${line}\n`);
+        }
+      });
+      unwrap(await client.invoke('claude:send-message', instanceId, words.join(' ')));
+      return;
+    }
+    case 'stop': {
+      const [instanceId] = args;
+      const worktree = options.worktree as 'keep' | 'remove' | 'archive' | undefined;
+      unwrap(await client.invoke('claude:stop-instance', instanceId, { worktree }));
+      print({ id: instanceId }, () => `Stopped ${instanceId}`);
+      return;
+    }
+    case 'enqueue': {
+      const priority = options.priority === undefined ? undefined : Number(options.priority);
+      if (priority !== undefined && !Number.isInteger(priority)) {
+        throw new Error(`--priority must be an integer, got ${options.priority}`);
+      }
+      const task = unwrap(
+        await client.invoke('tasks:enqueue', {
+          prompt: args.join(' '),
+          personaId: options.persona,
+          workingDirectory: options.dir,
+          priority,
+        }),
+      );
+      print(task, () => `Queued ${task.id}`);
+      return;
+    }
+    case 'tasks': {
+      const tasks = unwrap(await client.invoke('tasks:list'));
+      print(tasks, () =>
+        tasks.length === 0
+          ? 'No tasks'
+          : table([
+              ['ID', 'STATUS', 'PRIORITY', 'INSTANCE', 'PROMPT'],
+              ...tasks.map((task) => [
+                task.id,
+                task.status,
+                String(task.priority),
+                task.instanceId ?? '-',
+                task.prompt.split('\n')[0].slice(0, 60),
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'message': {
+      const [to, ...words] = args;
+      const message = unwrap(
+        await client.invoke('messages:send', {
+          to,
+          body: words.join(' '),
+          kind: options.handoff ? 'handoff' : 'message',
+          threadId: options.thread,
+        }),
+      );
+      print(message, () => `Queued ${message.id} to ${message.to} in ${message.threadId}`);
+      return;
+    }
+    case 'messages': {
+      const messages = unwrap(
+        await client.invoke('messages:list', { threadId: options.thread, instanceId: options.instance }),
+      );
+      print(messages, () =>
+        messages.length === 0
+          ? 'No messages'
+          : table([
+              ['ID', 'THREAD', 'FROM', 'TO', 'KIND', 'STATUS', 'BODY'],
+              ...messages.map((message) => [
+                message.id,
+                message.threadId,
+                message.from,
+                message.to,
+                message.kind,
+                message.status,
+                message.body.split('\n')[0].slice(0, 60),
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'workflows': {
+      const workflows = unwrap(await client.invoke('workflows:list'));
+      print(workflows, () =>
+        table([
+          ['ID', 'INPUTS', 'STAGES', 'DESCRIPTION'],
+          ...workflows.map((workflow) => [
+            workflow.id,
+            workflow.inputs.join(', ') || '-',
+            Object.keys(workflow.stages).join(' > '),
+            workflow.description,
+          ]),
+        ]),
+      );
+      return;
+    }
+    case 'run': {
+      const [workflowId] = args;
+      const input: Record<string, string> = {};
+      for (const assignment of options.set ?? []) {
+        const separator = assignment.indexOf('=');
+        if (separator <= 0) {
+          throw new Error(`--set takes <input>=<value>, got "${assignment}"`);
+        }
+        input[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+      }
+      const run = unwrap(
+        await client.invoke('workflows:start', {
+          workflowId,
+          input,
+          workingDirectory: options.dir ?? process.cwd(),
+          issueId: options.issue,
+        }),
+      );
+      print(run, () => `Started ${run.id} of ${run.workflowId} at stage ${run.currentStage}`);
+      return;
+    }
+    case 'runs': {
+      const runs = unwrap(await client.invoke('workflows:list-runs'));
+      print(runs, () =>
+        runs.length === 0
+          ? 'No workflow runs'
+          : table([
+              ['ID', 'WORKFLOW', 'STATUS', 'STAGE', 'STEPS', 'ERROR'],
+              ...runs.map((run) => [
+                run.id,
+                run.workflowId,
+                run.status,
+                run.currentStage ?? '-',
+                run.history.map((step) => `${step.stage}:${step.outcome}`).join(' > ') || '-',
+                run.error ?? '',
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'cancel-run': {
+      const [runId] = args;
+      const run = unwrap(await client.invoke('workflows:cancel-run', runId));
+      print(run, () => `Cancelled ${run.id}`);
+      return;
+    }
+    case 'secrets': {
+      const secrets = unwrap(await client.invoke('secrets:list'));
+      print(secrets, () =>
+        secrets.length === 0
+          ? 'No secrets stored'
+          : table([
+              ['NAME', 'STORAGE', 'CREATED', 'ROTATED'],
+              ...secrets.map((secret) => [
+                secret.name,
+                secret.locked ? `${secret.storage} (locked)` : secret.storage,
+                secret.createdAt,
+                secret.rotatedAt ?? '-',
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'secret-set':
+    case 'secret-rotate': {
+      const [name] = args;
+      const value = await readSecret();
+      const channel = command === 'secret-set' ? 'secrets:set' : 'secrets:rotate';
+      const secret = unwrap(await client.invoke(channel, name, value));
+      print(secret, () => `${command === 'secret-set' ? 'Stored' : 'Rotated'} ${secret.name} in ${secret.storage}`);
+      return;
+    }
+    case 'secret-delete': {
+      const [name] = args;
+      unwrap(await client.invoke('secrets:delete', name));
+      print({ name }, () => `Deleted ${name}`);
+      return;
+    }
+    case 'mcp': {
+      const servers = unwrap(await client.invoke('mcp:list-servers'));
+      print(servers, () =>
+        servers.length === 0
+          ? 'No MCP servers configured'
+          : table([
+              ['NAME', 'TYPE', 'HEALTH', 'TOOLS'],
+              ...servers.map((server) => [
+                server.name,
+                server.type,
+                server.error ? `${server.health}: ${server.error}` : server.health,
+                server.tools?.map((tool) => tool.name).join(', ') || '-',
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'approvals': {
+      const approvals = unwrap(await client.invoke('permissions:list-pending'));
+      print(approvals, () =>
+        approvals.length === 0
+          ? 'No approvals waiting'
+          : table([
+              ['ID', 'INSTANCE', 'TOOL', 'ACTION', 'REASON'],
+              ...approvals.map((approval) => [
+                approval.id,
+                approval.instanceId,
+                approval.toolName,
+                String(approval.input.command ?? approval.input.file_path ?? approval.input.path ?? '-').slice(0, 60),
+                approval.reason,
+              ]),
+            ]),
+      );
+      return;
+    }
+    case 'approve':
+    case 'deny': {
+      const [approvalId] = args;
+      const response = command === 'deny' ? 'deny' : options.always ? 'always-allow' : 'approve';
+      unwrap(await client.invoke('permissions:respond', approvalId, response));
+      print({ id: approvalId, response }, () => `${command === 'deny' ? 'Denied' : 'Approved'} ${approvalId}`);
+      return;
+    }
+  }
+}
+
+// Positional arguments each command needs
+const ARITY: Record<string, number> = {
+  list: 0,
+  create: 1,
+  send: 2,
+  stop: 1,
+  enqueue: 1,
+  tasks: 0,
+  message: 2,
+  messages: 0,
+  workflows: 0,
+  run: 1,
+  runs: 0,
+  'cancel-run': 1,
+  secrets: 0,
+  'secret-set': 1,
+  'secret-rotate': 1,
+  'secret-delete': 1,
+  mcp: 0,
+  approvals: 0,
+  approve: 1,
+  deny: 1,
+};
+
+async function main(): Promise<void> {
+  const [command, ...args] = positionals;
+  if (options.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command === 'daemon') {
+    await runDaemon();
+    return;
+  }
+  if (!Object.hasOwn(ARITY, command)) {
+    throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+  if (args.length < ARITY[command]) {
+    throw new Error(`${command} needs ${ARITY[command]} argument${ARITY[command] === 1 ? '' : 's'}\n\n${USAGE}`);
+  }
+
+  const client = new ControlClient(socketPath);
+  await client.connect();
+  try {
+    await runCommand(client, command, args);
+  } finally {
+    client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
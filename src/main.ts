@@ -44,8 +44,9 @@ const createWindow = (): void => {
 
 app.whenReady().then(async () => {
   // Initialize Claude service if available
+  // The window still opens when the services fail to start, so the error can be seen and fixed
   if (claudeService) {
-    await claudeService.initialize();
+    await claudeService.initialize().catch((error) => console.error('Failed to initialize the services:', error));
   }
 
   createWindow();
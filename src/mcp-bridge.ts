@@ -0,0 +1,129 @@
+// MCP server through which the agent of a query uses the tools of Coding Team: asking for permission,
+// messaging other instances. Speaks MCP over stdio and forwards every tool call to the agent bridge of the app or daemon.
+// Started with CODING_TEAM_BRIDGE_SOCKET, CODING_TEAM_BRIDGE_TOOLS and CODING_TEAM_INSTANCE_ID, see AgentBridge.serverConfig.
+import net from 'node:net';
+import readline from 'node:readline';
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+type ToolResult = { text: string } | { error: string };
+
+const socketPath = process.env.CODING_TEAM_BRIDGE_SOCKET ?? '';
+const instanceId = process.env.CODING_TEAM_INSTANCE_ID ?? '';
+const tools = JSON.parse(process.env.CODING_TEAM_BRIDGE_TOOLS ?? '[]') as ToolDefinition[];
+
+let bridge: net.Socket | undefined;
+let requestCounter = 0;
+const pending: Map<number, (result: ToolResult) => void> = new Map();
+
+function failAll(error: string): void {
+  for (const resolve of pending.values()) {
+    resolve({ error });
+  }
+  pending.clear();
+}
+
+function connect(): net.Socket {
+  if (bridge && !bridge.destroyed) {
+    return bridge;
+  }
+  const socket = net.connect(socketPath);
+  socket.on('error', () => socket.destroy());
+  socket.on('close', () => failAll('Coding Team is not reachable'));
+  readline.createInterface({ input: socket, crlfDelay: Number.POSITIVE_INFINITY }).on('line', (line) => {
+    const { id, ...result } = JSON.parse(line) as ToolResult & { id: number };
+    pending.get(id)?.(result as ToolResult);
+    pending.delete(id);
+  });
+  bridge = socket;
+  return socket;
+}
+
+function callTool(tool: string, args: Record<string, unknown>): Promise<ToolResult> {
+  const id = ++requestCounter;
+  return new Promise((resolve) => {
+    pending.set(id, resolve);
+    connect().write(`${JSON.stringify({ id, instanceId, tool, arguments: args })}\n`);
+  });
+}
+
+function reply(id: number | string, result: unknown): void {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', id, result })}\n`);
+}
+
+function fail(id: number | string, code: number, message: string): void {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', id, error: { code, message } })}\n`);
+}
+
+async function handle(request: JsonRpcRequest): Promise<void> {
+  // Notifications need no answer
+  if (request.id === undefined) {
+    return;
+  }
+  switch (request.method) {
+    case 'initialize':
+      reply(request.id, {
+        protocolVersion: request.params?.protocolVersion ?? '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'coding-team', version: '1.0.0' },
+      });
+      return;
+    case 'ping':
+      reply(request.id, {});
+      return;
+    case 'tools/list':
+      reply(request.id, { tools });
+      return;
+    case 'tools/call': {
+      const name = request.params?.name;
+      if (!tools.some((tool) => tool.name === name)) {
+        fail(request.id, -32602, `Unknown tool ${String(name)}`);
+        return;
+      }
+      const args = request.params?.arguments;
+      const result = await callTool(
+        name as string,
+        typeof args === 'object' && args !== null ? (args as Record<string, unknown>) : {},
+      );
+      reply(
+        request.id,
+        'error' in result
+          ? { content: [{ type: 'text', text: result.error }], isError: true }
+          : { content: [{ type: 'text', text: result.text }] },
+      );
+      return;
+    }
+    default:
+      fail(request.id, -32601, `Method not found: ${request.method}`);
+  }
+}
+
+readline.createInterface({ input: process.stdin, crlfDelay: Number.POSITIVE_INFINITY }).on('line', (line) => {
+  if (line.trim() === '') {
+    return;
+  }
+  let request: JsonRpcRequest;
+  try {
+    request = JSON.parse(line) as JsonRpcRequest;
+  } catch {
+    fail(0, -32700, 'Parse error');
+    return;
+  }
+  handle(request).catch((error) => fail(request.id ?? 0, -32603, String(error)));
+});
+
+process.stdin.on('end', () => {
+  bridge?.destroy();
+  process.exit(0);
+});
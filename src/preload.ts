@@ -1,4 +1,44 @@
 import { type IpcRendererEvent, contextBridge, ipcRenderer } from 'electron';
+import type { CreateInstanceOptions, StopInstanceOptions, StructuredOptions } from './services/claude-manager.js';
+import type { ClaudeStreamEvent } from './services/claude-stream.js';
+import type { AppConfig, ConfigChange } from './services/config.js';
+import type {
+  InstanceChange,
+  IpcArgs,
+  IpcChannel,
+  IpcData,
+  IpcEvents,
+  IpcResult,
+  ManagerEvent,
+} from './services/ipc-contract.js';
+import type { IssueFilter } from './services/issue-tracker.js';
+import type { JsonSchema } from './services/json-schema.js';
+import type { EnqueueMergeInput } from './services/merge-queue.js';
+import type { AgentMessage, MessageQuery, SendAgentMessageInput } from './services/message-bus.js';
+import type {
+  ApprovalRequest,
+  ApprovalResolution,
+  ApprovalResponse,
+  AuditQuery,
+} from './services/permission-broker.js';
+import type { ReviewRequest } from './services/review-service.js';
+import type { EnqueueTaskInput } from './services/task-queue.js';
+import type { TranscriptFormat, TranscriptQuery } from './services/transcript-store.js';
+import type { StartWorkflowInput, WorkflowRun } from './services/workflow-engine.js';
+
+// Channels and payloads come from the IPC contract; the main process validates the arguments
+function invoke<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResult<IpcData<C>>> {
+  return ipcRenderer.invoke(channel, ...args);
+}
+
+// Subscribe to an event pushed by the main process. Returns a function that removes this subscription.
+function subscribe<E extends keyof IpcEvents>(channel: E, callback: (payload: IpcEvents[E]) => void): () => void {
+  const listener = (_event: IpcRendererEvent, payload: IpcEvents[E]) => callback(payload);
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+}
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -11,18 +51,171 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // Claude Code API
   claude: {
-    createInstance: (name: string, workingDirectory?: string) =>
-      ipcRenderer.invoke('claude:create-instance', name, workingDirectory),
+    createInstance: (name: string, options?: CreateInstanceOptions) => invoke('claude:create-instance', name, options),
+
+    sendMessage: (instanceId: string, message: string) => invoke('claude:send-message', instanceId, message),
+
+    // Ask for an answer as JSON matching `schema`; answers that do not match are sent back for correction
+    sendStructured: (instanceId: string, prompt: string, schema: JsonSchema, options?: StructuredOptions) =>
+      invoke('claude:send-structured', instanceId, prompt, schema, options),
+
+    stopInstance: (instanceId: string, options?: StopInstanceOptions) =>
+      invoke('claude:stop-instance', instanceId, options),
+
+    // Subscribe to live progress of an instance. Returns a function that removes this subscription.
+    onStream: (instanceId: string, callback: (event: ClaudeStreamEvent) => void) =>
+      subscribe(`claude:stream:${instanceId}`, callback),
+
+    // Subscribe to status changes of every instance. Returns a function that removes this subscription.
+    onInstanceChange: (callback: (change: InstanceChange) => void) => subscribe('claude:instance-changed', callback),
+
+    // Subscribe to instances being created, becoming busy or ready, failing and stopping
+    onManagerEvent: (callback: (event: ManagerEvent) => void) => subscribe('claude:manager-event', callback),
+
+    offStream: (instanceId: string) => ipcRenderer.removeAllListeners(`claude:stream:${instanceId}`),
+
+    getInstances: () => invoke('claude:get-instances'),
+
+    getPersonas: () => invoke('claude:get-personas'),
+
+    assignIssue: (instanceId: string, issueId: string) => invoke('claude:assign-issue', instanceId, issueId),
+
+    getTranscript: (instanceId: string, query?: TranscriptQuery) => invoke('claude:get-transcript', instanceId, query),
+
+    exportTranscript: (instanceId: string, format: TranscriptFormat) =>
+      invoke('claude:export-transcript', instanceId, format),
+
+    setClaudePath: (path: string) => invoke('config:set-claude-path', path),
+
+    getConfig: () => invoke('config:get'),
+
+    getResolvedConfig: () => invoke('config:get-resolved'),
+
+    setConfig: <K extends keyof AppConfig>(key: K, value: AppConfig[K]) => invoke('config:set', key, value),
+
+    onConfigChange: (callback: (change: ConfigChange) => void) => subscribe('config:changed', callback),
+  },
+
+  // Work queue API
+  tasks: {
+    enqueue: (input: EnqueueTaskInput) => invoke('tasks:enqueue', input),
+
+    cancel: (taskId: string) => invoke('tasks:cancel', taskId),
+
+    list: () => invoke('tasks:list'),
+  },
+
+  // Issue tracker API
+  issues: {
+    list: (filter?: IssueFilter) => invoke('issues:list', filter),
+
+    get: (issueId: string) => invoke('issues:get', issueId),
+
+    comment: (issueId: string, body: string) => invoke('issues:comment', issueId, body),
+
+    addLabels: (issueId: string, labels: string[]) => invoke('issues:add-labels', issueId, labels),
+
+    removeLabel: (issueId: string, label: string) => invoke('issues:remove-label', issueId, label),
+
+    assign: (issueId: string, assignees: string[]) => invoke('issues:assign', issueId, assignees),
+
+    close: (issueId: string) => invoke('issues:close', issueId),
+  },
+
+  // PR review API
+  reviews: {
+    request: (request: ReviewRequest) => invoke('reviews:request', request),
+
+    list: () => invoke('reviews:list'),
+
+    get: (reviewId: string) => invoke('reviews:get', reviewId),
+  },
+
+  // Merge queue API
+  mergeQueue: {
+    enqueue: (input: EnqueueMergeInput) => invoke('merge-queue:enqueue', input),
+
+    remove: (entryId: string) => invoke('merge-queue:remove', entryId),
+
+    list: () => invoke('merge-queue:list'),
+
+    getLog: (entryId: string) => invoke('merge-queue:get-log', entryId),
+  },
+
+  // CI monitor API
+  ci: {
+    runNow: () => invoke('ci:run-now'),
+
+    getRuns: () => invoke('ci:get-runs'),
+
+    getReport: (runId: string) => invoke('ci:get-report', runId),
+  },
+
+  // Usage and cost API
+  usage: {
+    getSummary: () => invoke('usage:get-summary'),
+  },
+
+  // Messages between instances API
+  messages: {
+    send: (input: SendAgentMessageInput) => invoke('messages:send', input),
+
+    list: (query?: MessageQuery) => invoke('messages:list', query),
+
+    getGraph: () => invoke('messages:get-graph'),
+
+    // Subscribe to messages being queued, delivered or failing. Returns a function that removes this subscription.
+    onChanged: (callback: (message: AgentMessage) => void) => subscribe('messages:changed', callback),
+  },
+
+  // Workflow API
+  workflows: {
+    list: () => invoke('workflows:list'),
+
+    start: (input: StartWorkflowInput) => invoke('workflows:start', input),
+
+    listRuns: () => invoke('workflows:list-runs'),
+
+    getRun: (runId: string) => invoke('workflows:get-run', runId),
+
+    cancelRun: (runId: string) => invoke('workflows:cancel-run', runId),
+
+    // Subscribe to the progress of workflow runs. Returns a function that removes this subscription.
+    onRunUpdated: (callback: (run: WorkflowRun) => void) => subscribe('workflows:run-updated', callback),
+  },
+
+  // Secret API. Values can be set but are never read back.
+  secrets: {
+    list: () => invoke('secrets:list'),
+
+    set: (name: string, value: string) => invoke('secrets:set', name, value),
+
+    rotate: (name: string, value: string) => invoke('secrets:rotate', name, value),
+
+    delete: (name: string) => invoke('secrets:delete', name),
+  },
+
+  // MCP server API
+  mcp: {
+    listServers: () => invoke('mcp:list-servers'),
+
+    checkServer: (name: string) => invoke('mcp:check-server', name),
+  },
 
-    sendMessage: (instanceId: string, message: string) =>
-      ipcRenderer.invoke('claude:send-message', instanceId, message),
+  // Tool permission API
+  permissions: {
+    listPending: () => invoke('permissions:list-pending'),
 
-    stopInstance: (instanceId: string) => ipcRenderer.invoke('claude:stop-instance', instanceId),
+    respond: (approvalId: string, response: ApprovalResponse) => invoke('permissions:respond', approvalId, response),
 
-    getInstances: () => ipcRenderer.invoke('claude:get-instances'),
+    getAudit: (query?: AuditQuery) => invoke('permissions:get-audit', query),
 
-    setClaudePath: (path: string) => ipcRenderer.invoke('config:set-claude-path', path),
+    // Subscribe to actions outside the permission policy. Returns a function that removes this subscription.
+    onApprovalRequested: (callback: (request: ApprovalRequest) => void) =>
+      subscribe('permissions:approval-requested', callback),
 
-    getConfig: () => ipcRenderer.invoke('config:get'),
+    // Subscribe to approval requests being answered, timing out or being cancelled
+    onApprovalResolved: (callback: (resolution: ApprovalResolution) => void) =>
+      subscribe('permissions:approval-resolved', callback),
   },
 });
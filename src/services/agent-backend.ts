@@ -0,0 +1,96 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { SessionMode } from './cassette-backend.js';
+import type { SDKMessage } from './claude-stream.js';
+import type { PermissionMode } from './personas.js';
+
+// An MCP server the agent can use, in the Claude Code SDK format
+export type McpServerConfig =
+  | { type?: 'stdio'; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: 'http' | 'sse'; url: string; headers?: Record<string, string> };
+
+// One query of an instance, as ClaudeManager hands it to a backend
+export interface AgentQuery {
+  // Instance the query runs for
+  instanceId: string;
+  prompt: string;
+  cwd: string;
+  model: string;
+  // Aborted when the query is cancelled; the backend must then stop and throw
+  abortController: AbortController;
+  // Session to continue the conversation of
+  resume?: string;
+  // Appended to the agent's own system prompt
+  appendSystemPrompt?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  maxTurns?: number;
+  permissionMode?: PermissionMode;
+  mcpServers?: Record<string, McpServerConfig>;
+  // MCP tool the agent asks for permission, instead of prompting in a terminal
+  permissionPromptToolName?: string;
+  // Overrides the backend's session mode for this instance
+  sessionMode?: SessionMode;
+  // Secrets set in the environment of the agent, on top of the app's own
+  env?: Record<string, string>;
+}
+
+// Runs queries for ClaudeManager. Messages use the Claude Code SDK format, which other providers map to.
+export interface AgentBackend {
+  // Yields the messages of one query, ending with its result message, or throws when the query fails
+  query(query: AgentQuery): AsyncIterable<SDKMessage>;
+}
+
+export interface ClaudeCodeBackendOptions {
+  // Resolved on every query, so a changed setting applies to the next one
+  executablePath?: () => string | undefined;
+}
+
+// The default backend: the Claude Code SDK, which runs the Claude Code CLI
+export class ClaudeCodeBackend implements AgentBackend {
+  private executablePath: () => string | undefined;
+
+  constructor(options: ClaudeCodeBackendOptions = {}) {
+    this.executablePath = options.executablePath ?? (() => undefined);
+  }
+
+  async *query({
+    prompt,
+    instanceId: _instanceId,
+    sessionMode: _sessionMode,
+    env,
+    ...options
+  }: AgentQuery): AsyncIterable<SDKMessage> {
+    // Import dynamically to avoid ES module issues during testing
+    const { query } = await import('@anthropic-ai/claude-code');
+    // The SDK has no env option and starts the CLI with a copy of process.env. The variables of a query are handed
+    // to a wrapper that sets them in the CLI's process only, through a file only the user can read.
+    const envFile = env && Object.keys(env).length > 0 ? await writeEnvFile(env) : undefined;
+    try {
+      yield* query({
+        prompt,
+        options: {
+          ...options,
+          pathToClaudeCodeExecutable: this.executablePath(),
+          executableArgs: envFile ? [CLI_ENV_SCRIPT, envFile] : undefined,
+        },
+      }) as AsyncGenerator<SDKMessage>;
+    } finally {
+      // The wrapper deletes the file once read; it is left behind if the CLI never started
+      if (envFile) {
+        await fs.rm(envFile, { force: true });
+      }
+    }
+  }
+}
+
+const CLI_ENV_SCRIPT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'claude-cli-env.js');
+
+async function writeEnvFile(env: Record<string, string>): Promise<string> {
+  const file = path.join(os.tmpdir(), `coding-team-env-${randomUUID()}.json`);
+  await fs.writeFile(file, JSON.stringify(env), { mode: 0o600, flag: 'wx' });
+  return file;
+}
@@ -0,0 +1,163 @@
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import { fileURLToPath } from 'node:url';
+import type { McpServerConfig } from './agent-backend.js';
+
+// Name of the MCP server every query gets, through which agents reach the app
+export const BRIDGE_SERVER_NAME = 'coding-team';
+
+// The name agents call a bridge tool by
+export function bridgeToolName(tool: string): string {
+  return `mcp__${BRIDGE_SERVER_NAME}__${tool}`;
+}
+
+// A tool the app offers the agents. `call` answers with the text of the tool result; throwing reports an error to the agent.
+export interface BridgeTool {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments
+  inputSchema: Record<string, unknown>;
+  call: (instanceId: string, args: Record<string, unknown>, signal: AbortSignal) => Promise<string>;
+}
+
+// Sent by the MCP bridge, one JSON object per line, and answered by id
+interface BridgeRequest {
+  id: number;
+  instanceId: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+type BridgeReply = { id: number; text: string } | { id: number; error: string };
+
+export function defaultBridgeSocketPath(): string {
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\coding-team-bridge-${process.pid}`
+    : path.join(os.homedir(), '.coding-team', `bridge-${process.pid}.sock`);
+}
+
+// Serves the tools registered by the services to the agents. Every query starts the MCP bridge
+// (src/mcp-bridge.ts) as a stdio server, which forwards the tool calls to this bridge's socket.
+export class AgentBridge {
+  private socketPath: string;
+  private tools: Map<string, BridgeTool> = new Map();
+  private server?: net.Server;
+  private connections: Set<net.Socket> = new Set();
+
+  constructor(socketPath?: string) {
+    this.socketPath = socketPath || defaultBridgeSocketPath();
+  }
+
+  register(tool: BridgeTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Bridge tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  has(toolName: string): boolean {
+    return this.tools.has(toolName);
+  }
+
+  // The MCP server to give a query of `instanceId`
+  serverConfig(instanceId: string): McpServerConfig {
+    const script = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'mcp-bridge.js');
+    const tools = [...this.tools.values()].map(({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+    }));
+    return {
+      command: process.execPath,
+      args: [script],
+      env: {
+        // Lets Electron's executable run the bridge as plain Node
+        ELECTRON_RUN_AS_NODE: '1',
+        CODING_TEAM_BRIDGE_SOCKET: this.socketPath,
+        CODING_TEAM_BRIDGE_TOOLS: JSON.stringify(tools),
+        CODING_TEAM_INSTANCE_ID: instanceId,
+      },
+    };
+  }
+
+  async listen(): Promise<void> {
+    if (process.platform !== 'win32') {
+      await fs.rm(this.socketPath, { force: true });
+      await fs.mkdir(path.dirname(this.socketPath), { recursive: true });
+    }
+    const server = net.createServer((socket) => this.serve(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    if (process.platform !== 'win32') {
+      await fs.chmod(this.socketPath, 0o600);
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private serve(socket: net.Socket): void {
+    // The bridge exits with its query, which aborts the calls it still waits for
+    const closed = new AbortController();
+    this.connections.add(socket);
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.connections.delete(socket);
+      closed.abort();
+    });
+
+    const lines = readline.createInterface({ input: socket, crlfDelay: Number.POSITIVE_INFINITY });
+    lines.on('line', (line) => {
+      if (line.trim() === '') {
+        return;
+      }
+      this.handle(line, closed.signal)
+        .then((reply) => {
+          if (reply && !socket.destroyed) {
+            socket.write(`${JSON.stringify(reply)}\n`);
+          }
+        })
+        .catch((error) => console.error('Bridge tool call failed:', error));
+    });
+  }
+
+  private async handle(line: string, signal: AbortSignal): Promise<BridgeReply | undefined> {
+    let request: BridgeRequest;
+    try {
+      request = JSON.parse(line) as BridgeRequest;
+    } catch {
+      return undefined;
+    }
+    if (typeof request.id !== 'number') {
+      return undefined;
+    }
+    const tool = this.tools.get(request.tool);
+    if (typeof request.instanceId !== 'string' || !tool) {
+      return { id: request.id, error: `Unknown tool ${request.tool}` };
+    }
+
+    const args = typeof request.arguments === 'object' && request.arguments !== null ? request.arguments : {};
+    try {
+      return { id: request.id, text: await tool.call(request.instanceId, args, signal) };
+    } catch (error) {
+      return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { AgentBackend, AgentQuery } from './agent-backend.js';
+import type { SDKMessage } from './claude-stream.js';
+import { maskCredentialFields } from './credential-store.js';
+import { WriteQueue } from './write-queue.js';
+
+// How the queries of an instance are run:
+// - live: by the model
+// - record: by the model, saving every exchange to the instance's cassette
+// - replay: from the instance's cassette, without calling the model
+export type SessionMode = 'live' | 'record' | 'replay';
+
+// Version of the cassette file format written by this build
+export const CASSETTE_VERSION = 1;
+
+// The query options that are recorded with an exchange. The secrets in `env` never are, and credential fields,
+// such as the Authorization header or a token in the env of an MCP server, are masked.
+export type ExchangeOptions = Omit<AgentQuery, 'prompt' | 'instanceId' | 'sessionMode' | 'abortController' | 'env'>;
+
+// One query and everything the backend answered, in order
+export interface CassetteExchange {
+  prompt: string;
+  options: ExchangeOptions;
+  messages: SDKMessage[];
+  // Set when the query failed after the messages
+  error?: string;
+}
+
+// The recorded session of one instance
+export interface Cassette {
+  version: number;
+  instanceId: string;
+  recordedAt: string;
+  exchanges: CassetteExchange[];
+}
+
+export interface CassetteBackendOptions {
+  // Runs the queries of live and recorded sessions
+  live: AgentBackend;
+  // ~/.coding-team/cassettes by default
+  directory?: string;
+  // For instances that do not choose their own mode. Defaults to live.
+  mode?: SessionMode;
+  // Masks secrets in the exchanges before they are written, and in the prompts replayed against them
+  redact?: <T>(value: T) => T;
+}
+
+interface Recording {
+  cassette: Cassette;
+  writes: WriteQueue;
+}
+
+interface Replay {
+  cassette: Cassette;
+  position: number;
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function preview(prompt: string): string {
+  return JSON.stringify(prompt.length > 200 ? `${prompt.slice(0, 200)}…` : prompt);
+}
+
+function firstDifference(a: string, b: string): number {
+  let index = 0;
+  while (index < a.length && index < b.length && a[index] === b[index]) {
+    index++;
+  }
+  return index;
+}
+
+// Records the sessions of instances to cassette files, one per instance, and serves them back
+// deterministically so a whole team can be rerun offline, e.g. in CI
+export class CassetteBackend implements AgentBackend {
+  private live: AgentBackend;
+  private directory: string;
+  private mode: SessionMode;
+  private redact: <T>(value: T) => T;
+  // A recording starts over on the first query of an instance in this run
+  private recordings: Map<string, Recording> = new Map();
+  private replays: Map<string, Replay> = new Map();
+
+  constructor(options: CassetteBackendOptions) {
+    this.live = options.live;
+    this.directory = options.directory || path.join(os.homedir(), '.coding-team', 'cassettes');
+    this.mode = options.mode ?? 'live';
+    this.redact = options.redact ?? ((value) => value);
+  }
+
+  setMode(mode: SessionMode): void {
+    this.mode = mode;
+  }
+
+  // Cassettes already loaded or being recorded keep their files
+  setDirectory(directory: string | undefined): void {
+    this.directory = directory || path.join(os.homedir(), '.coding-team', 'cassettes');
+  }
+
+  cassettePath(instanceId: string): string {
+    return path.join(this.directory, `${instanceId}.json`);
+  }
+
+  query(query: AgentQuery): AsyncIterable<SDKMessage> {
+    switch (query.sessionMode ?? this.mode) {
+      case 'record':
+        return this.record(query);
+      case 'replay':
+        return this.replay(query);
+      default:
+        return this.live.query(query);
+    }
+  }
+
+  // Wait for the recorded exchanges to be written
+  async flush(): Promise<void> {
+    await Promise.all([...this.recordings.values()].map((recording) => recording.writes.flush()));
+  }
+
+  private async *record(query: AgentQuery): AsyncIterable<SDKMessage> {
+    const {
+      prompt,
+      instanceId,
+      sessionMode: _sessionMode,
+      abortController: _abortController,
+      env: _env,
+      ...options
+    } = query;
+    const exchange: CassetteExchange = { prompt, options: maskCredentialFields(options), messages: [] };
+    try {
+      for await (const message of this.live.query(query)) {
+        exchange.messages.push(message);
+        yield message;
+      }
+    } catch (error) {
+      exchange.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.save(instanceId, exchange);
+    }
+  }
+
+  private save(instanceId: string, exchange: CassetteExchange): void {
+    let recording = this.recordings.get(instanceId);
+    if (!recording) {
+      recording = {
+        cassette: { version: CASSETTE_VERSION, instanceId, recordedAt: new Date().toISOString(), exchanges: [] },
+        writes: new WriteQueue(),
+      };
+      this.recordings.set(instanceId, recording);
+    }
+    recording.cassette.exchanges.push(this.redact(exchange));
+
+    const file = this.cassettePath(instanceId);
+    const snapshot = JSON.stringify(recording.cassette, null, 2);
+    recording.writes
+      .run(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, snapshot);
+      })
+      .catch((error) => console.error(`Failed to save cassette ${file}:`, error));
+  }
+
+  private async *replay(query: AgentQuery): AsyncIterable<SDKMessage> {
+    const file = this.cassettePath(query.instanceId);
+    const replay = await this.loadReplay(query.instanceId, file);
+    const exchange = replay.cassette.exchanges[replay.position];
+    const prompt = this.redact(query.prompt);
+    if (!exchange) {
+      throw new Error(
+        `Cassette ${file} has no exchange left for prompt ${preview(prompt)}: ` +
+          `all ${replay.cassette.exchanges.length} recorded exchanges were replayed`,
+      );
+    }
+    if (exchange.prompt !== prompt) {
+      throw new Error(
+        `Cassette ${file} does not match exchange ${replay.position + 1} of ${query.instanceId}: ` +
+          `recorded prompt ${preview(exchange.prompt)}, got ${preview(prompt)} ` +
+          `(first difference at character ${firstDifference(exchange.prompt, prompt) + 1})`,
+      );
+    }
+    replay.position++;
+
+    const signal = query.abortController.signal;
+    for (const message of exchange.messages) {
+      if (signal.aborted) {
+        throw abortError();
+      }
+      yield message;
+    }
+    if (exchange.error) {
+      throw new Error(exchange.error);
+    }
+  }
+
+  private async loadReplay(instanceId: string, file: string): Promise<Replay> {
+    const loaded = this.replays.get(instanceId);
+    if (loaded) {
+      return loaded;
+    }
+
+    let cassette: Cassette;
+    try {
+      cassette = JSON.parse(await fs.readFile(file, 'utf-8')) as Cassette;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`No cassette to replay for ${instanceId}: ${file} does not exist. Record one first.`);
+      }
+      throw new Error(`Failed to read cassette ${file}: ${(error as Error).message}`);
+    }
+    if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.exchanges)) {
+      throw new Error(`Cassette ${file} has version ${cassette.version}, but this build reads ${CASSETTE_VERSION}`);
+    }
+
+    const replay: Replay = { cassette, position: 0 };
+    this.replays.set(instanceId, replay);
+    return replay;
+  }
+}
@@ -0,0 +1,410 @@
+import { execFile, spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { type CiFailure, type CiOutputFormat, parseCiOutput } from './ci-output-parsers.js';
+import type { ClaudeInstance, ClaudeManager } from './claude-manager.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface CiCheck {
+  name: string;
+  command: string;
+  // How to read failures from the output; 'exit-code' only looks at the exit code
+  format: CiOutputFormat;
+}
+
+export interface CiMonitorConfig {
+  repository: string;
+  branch?: string;
+  checks: CiCheck[];
+  // Run before the checks in the fresh checkout, e.g. `npm ci`
+  setupCommand?: string;
+  intervalMinutes?: number;
+}
+
+// How a failure relates to earlier runs
+export type CiFailureKind = 'new' | 'recurring' | 'flaky';
+
+export interface CiRunFailure extends CiFailure {
+  check: string;
+  kind: CiFailureKind;
+}
+
+export interface CiCheckResult {
+  name: string;
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  failureCount: number;
+}
+
+export interface CiRun {
+  id: string;
+  commit: string;
+  startedAt: string;
+  finishedAt: string;
+  checks: CiCheckResult[];
+  failures: CiRunFailure[];
+  reportPath?: string;
+  // CI Monitor instance the report was handed to
+  instanceId?: string;
+}
+
+export interface CiMonitorOptions {
+  // Holds the run history, the reports and the temporary checkouts
+  rootDir?: string;
+  // Runs kept in the history, which is also the window flakiness is measured over
+  historySize?: number;
+  commandTimeout?: number;
+}
+
+// Output kept in the report for a check that failed without parseable failures
+const OUTPUT_TAIL_LENGTH = 4000;
+
+// Name of the instance reports are handed to, which is how it is found again after a restart
+const INSTANCE_NAME = 'CI Monitor';
+
+export function failureKey(failure: Pick<CiRunFailure, 'check' | 'name' | 'file'>): string {
+  return `${failure.check}::${failure.file ?? ''}::${failure.name}`;
+}
+
+// Share of consecutive runs in which the failure flipped between failing and passing
+export function flakinessOf(key: string, runs: CiRun[]): number {
+  const check = key.split('::')[0];
+  const states = runs
+    .filter((run) => run.checks.some((result) => result.name === check))
+    .map((run) => run.failures.some((failure) => failureKey(failure) === key));
+  if (states.length < 2) {
+    return 0;
+  }
+  let flips = 0;
+  for (let i = 1; i < states.length; i++) {
+    if (states[i] !== states[i - 1]) {
+      flips++;
+    }
+  }
+  return flips / (states.length - 1);
+}
+
+// A failure is flaky when it also passed on the same commit, or when the tool saw it pass on a retry.
+// Otherwise it is recurring when the previous run had it too.
+export function classifyFailure(
+  failure: CiFailure & { check: string },
+  history: CiRun[],
+  commit: string,
+): CiFailureKind {
+  const key = failureKey(failure);
+  const ran = history.filter((run) => run.checks.some((result) => result.name === failure.check));
+  const passedOnCommit = ran.some(
+    (run) => run.commit === commit && !run.failures.some((previous) => failureKey(previous) === key),
+  );
+  if (failure.flaky || passedOnCommit) {
+    return 'flaky';
+  }
+  const previous = ran[ran.length - 1];
+  return previous?.failures.some((earlier) => failureKey(earlier) === key) ? 'recurring' : 'new';
+}
+
+export function formatCiReport(run: CiRun, branch: string, outputs: Record<string, string>, history: CiRun[]): string {
+  const lines = [
+    `# CI report ${run.id}`,
+    '',
+    `Branch ${branch} at ${run.commit}, ${run.startedAt}`,
+    '',
+    '| Check | Exit code | Failures | Duration |',
+    '| --- | --- | --- | --- |',
+    ...run.checks.map(
+      (check) => `| ${check.name} | ${check.exitCode} | ${check.failureCount} | ${Math.round(check.durationMs)}ms |`,
+    ),
+  ];
+
+  const kinds: Array<[CiFailureKind, string]> = [
+    ['new', 'New failures'],
+    ['recurring', 'Recurring failures'],
+    ['flaky', 'Flaky failures'],
+  ];
+  for (const [kind, title] of kinds) {
+    const failures = run.failures.filter((failure) => failure.kind === kind);
+    if (failures.length === 0) {
+      continue;
+    }
+    lines.push('', `## ${title}`, '');
+    for (const failure of failures) {
+      const location = failure.file ? ` (${failure.file}${failure.line !== undefined ? `:${failure.line}` : ''})` : '';
+      const flakiness = Math.round(flakinessOf(failureKey(failure), [...history, run]) * 100);
+      lines.push(`- **${failure.check}**: ${failure.name}${location}, flakiness ${flakiness}%`);
+      lines.push(...failure.message.split('\n').map((line) => `  > ${line}`));
+    }
+  }
+
+  for (const [check, output] of Object.entries(outputs)) {
+    lines.push('', `## Output of ${check}`, '', '```', output.slice(-OUTPUT_TAIL_LENGTH).trimEnd(), '```');
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Periodically runs the configured checks against a branch, tracks their failures across runs,
+// and hands new or recurring failures to a CI Monitor instance
+export class CiMonitor extends EventEmitter {
+  private manager: ClaudeManager;
+  private config: CiMonitorConfig;
+  private rootDir: string;
+  private historySize: number;
+  private commandTimeout: number;
+  private history: CiRun[] = [];
+  private runCounter = 0;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<CiRun>;
+  private disabled = false;
+
+  constructor(manager: ClaudeManager, config: CiMonitorConfig, options: CiMonitorOptions = {}) {
+    super();
+    this.manager = manager;
+    this.config = config;
+    this.rootDir = options.rootDir || path.join(os.homedir(), '.coding-team', 'ci');
+    this.historySize = options.historySize ?? 50;
+    this.commandTimeout = options.commandTimeout ?? 30 * 60 * 1000;
+  }
+
+  async load(): Promise<void> {
+    try {
+      this.history = JSON.parse(await fs.readFile(path.join(this.rootDir, 'history.json'), 'utf-8')) as CiRun[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    for (const run of this.history) {
+      this.runCounter = Math.max(this.runCounter, Number.parseInt(run.id.replace(/^ci-/, ''), 10) || 0);
+    }
+  }
+
+  // Run the checks every interval, starting right away when the last run is older than that
+  start(): void {
+    this.stop();
+    this.disabled = false;
+    const interval = (this.config.intervalMinutes ?? 60) * 60 * 1000;
+    const tick = () => {
+      this.runNow().catch((error) => console.error('CI run failed:', error));
+    };
+    const last = this.history[this.history.length - 1];
+    const due = last ? new Date(last.startedAt).getTime() + interval - Date.now() : 0;
+    this.timer = setTimeout(
+      () => {
+        this.timer = setInterval(tick, interval);
+        tick();
+      },
+      Math.max(0, due),
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Stop running checks and stop the CI Monitor instance, for when the monitor is turned off
+  async disable(): Promise<void> {
+    this.stop();
+    this.disabled = true;
+    const instance = this.findInstance();
+    if (instance) {
+      await this.manager.stopInstance(instance.id, { reason: 'CI monitor disabled' });
+    }
+  }
+
+  getRepository(): string {
+    return this.config.repository;
+  }
+
+  getRuns(): CiRun[] {
+    return [...this.history];
+  }
+
+  async getReport(runId: string): Promise<string> {
+    const run = this.history.find((candidate) => candidate.id === runId);
+    if (!run) {
+      throw new Error(`CI run ${runId} not found`);
+    }
+    if (!run.reportPath) {
+      throw new Error(`CI run ${runId} has no report`);
+    }
+    return fs.readFile(run.reportPath, 'utf-8');
+  }
+
+  // Run the checks now; a run already in progress is shared rather than started twice
+  runNow(): Promise<CiRun> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout.trim();
+  }
+
+  private async run(): Promise<CiRun> {
+    const branch = this.config.branch || 'main';
+    const id = `ci-${++this.runCounter}`;
+    const startedAt = new Date().toISOString();
+    const commit = await this.git(this.config.repository, ['rev-parse', `refs/heads/${branch}`]);
+    const checkout = path.join(this.rootDir, 'checkouts', id);
+
+    // Check out the commit on its own, so the checks never see uncommitted work
+    await this.git(this.config.repository, ['worktree', 'add', '--detach', checkout, commit]);
+    const checks: CiCheckResult[] = [];
+    const failures: CiRunFailure[] = [];
+    // Output of the checks that failed without parseable failures
+    const outputs: Record<string, string> = {};
+    try {
+      if (this.config.setupCommand) {
+        const setup = await this.exec(this.config.setupCommand, checkout);
+        if (setup.exitCode !== 0) {
+          throw new Error(`Setup command ${this.config.setupCommand} exited with ${setup.exitCode}`);
+        }
+      }
+
+      for (const check of this.config.checks) {
+        const started = performance.now();
+        const { exitCode, output } = await this.exec(check.command, checkout);
+        let parsed: CiFailure[];
+        try {
+          parsed = parseCiOutput(check.format, output);
+        } catch (error) {
+          parsed = [];
+          console.error(`Could not parse the output of ${check.name}:`, error);
+        }
+        if (exitCode !== 0 && parsed.filter((failure) => !failure.flaky).length === 0) {
+          parsed.push({ name: check.name, message: `${check.command} exited with ${exitCode}` });
+          outputs[check.name] = output;
+        }
+
+        checks.push({
+          name: check.name,
+          command: check.command,
+          exitCode,
+          durationMs: performance.now() - started,
+          failureCount: parsed.length,
+        });
+        for (const failure of parsed) {
+          failures.push({
+            ...failure,
+            check: check.name,
+            kind: classifyFailure({ ...failure, check: check.name }, this.history, commit),
+          });
+        }
+      }
+    } finally {
+      await this.git(this.config.repository, ['worktree', 'remove', '--force', checkout]).catch(async () => {
+        await fs.rm(checkout, { recursive: true, force: true });
+        await this.git(this.config.repository, ['worktree', 'prune']);
+      });
+    }
+
+    const run: CiRun = { id, commit, startedAt, finishedAt: new Date().toISOString(), checks, failures };
+    if (failures.length > 0) {
+      run.reportPath = path.join(this.rootDir, 'reports', `${id}.md`);
+      await fs.mkdir(path.dirname(run.reportPath), { recursive: true });
+      await fs.writeFile(run.reportPath, formatCiReport(run, branch, outputs, this.history));
+    }
+
+    // Failures on this commit that an earlier run already handed off are being looked at
+    const reported = new Set(
+      this.history
+        .filter((previous) => previous.commit === commit && previous.instanceId)
+        .flatMap((previous) => previous.failures.map((failure) => failureKey(failure))),
+    );
+    const handOff =
+      !this.disabled && failures.some((failure) => failure.kind !== 'flaky' && !reported.has(failureKey(failure)));
+    if (handOff) {
+      run.instanceId = await this.acquireInstance().catch((error) => {
+        console.error('Failed to create a CI Monitor instance:', error);
+        return undefined;
+      });
+    }
+
+    this.history = [...this.history, run].slice(-this.historySize);
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(path.join(this.rootDir, 'history.json'), JSON.stringify(this.history, null, 2));
+    this.emit('runCompleted', run);
+
+    if (handOff && run.instanceId) {
+      this.sendReport(run, run.instanceId);
+    }
+    return run;
+  }
+
+  private exec(command: string, cwd: string): Promise<{ exitCode: number; output: string }> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, { cwd, shell: true, detached: true, env: { ...process.env, CI: '1' } });
+      const chunks: Buffer[] = [];
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+      const timer = setTimeout(() => {
+        // Kill the whole process group, not just the shell
+        try {
+          process.kill(-(child.pid as number), 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      }, this.commandTimeout);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        resolve({ exitCode: code ?? 1, output: Buffer.concat(chunks).toString('utf-8') });
+      });
+    });
+  }
+
+  // The CI Monitor instance of the repository, restored with the other instances after a restart
+  private findInstance(): ClaudeInstance | undefined {
+    return this.manager
+      .getActiveInstances()
+      .find(
+        (instance) =>
+          instance.name === INSTANCE_NAME &&
+          instance.persona?.id === 'ci-monitor' &&
+          instance.workingDirectory === this.config.repository,
+      );
+  }
+
+  private async acquireInstance(): Promise<string> {
+    const existing = this.findInstance();
+    if (existing) {
+      return existing.id;
+    }
+    const instance = await this.manager.createInstance(INSTANCE_NAME, {
+      personaId: 'ci-monitor',
+      workingDirectory: this.config.repository,
+    });
+    return instance.id;
+  }
+
+  // Queue the report behind whatever the instance is investigating already
+  private sendReport(run: CiRun, instanceId: string): void {
+    fs.readFile(run.reportPath as string, 'utf-8')
+      .then(async (report) => {
+        await this.manager.sendWhenReady(
+          instanceId,
+          `CI run ${run.id} on ${run.commit} has failures. Investigate them, identify the likely cause of each, ` +
+            `and fix them or explain what needs to happen.\n\n${report}`,
+        );
+        this.emit('reportHandedOff', run);
+      })
+      .catch((error) => console.error(`Failed to hand CI run ${run.id} to ${instanceId}:`, error));
+  }
+}
@@ -0,0 +1,230 @@
+// Turn the output of the commands the CI monitor runs into structured failures
+
+export type CiOutputFormat = 'node-test' | 'playwright-json' | 'biome' | 'exit-code';
+
+export interface CiFailure {
+  // Test name, with its enclosing suites joined by " > ", or the Biome rule for diagnostics
+  name: string;
+  file?: string;
+  line?: number;
+  message: string;
+  // Set when the tool itself saw the failure pass on a retry (Playwright)
+  flaky?: boolean;
+}
+
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_ESCAPE, '');
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function parseLocation(location: string | undefined): Pick<CiFailure, 'file' | 'line'> {
+  const match = location?.match(/^(?:file:\/\/)?(.+?):(\d+)(?::\d+)?$/);
+  return match ? { file: match[1], line: Number(match[2]) } : {};
+}
+
+// Reads the scalar and block values of a TAP YAML diagnostic block
+function parseYamlBlock(lines: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const baseIndent = lines.length > 0 ? indentOf(lines[0]) : 0;
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*([\w-]+):\s?(.*)$/);
+    if (!match || indentOf(lines[i]) !== baseIndent) {
+      continue;
+    }
+    const [, key, rawValue] = match;
+    if (/^[|>][-+]?$/.test(rawValue)) {
+      const block: string[] = [];
+      while (i + 1 < lines.length && (indentOf(lines[i + 1]) > baseIndent || lines[i + 1].trim() === '')) {
+        block.push(lines[++i].trim());
+      }
+      fields[key] = block.join('\n').trim();
+    } else if (rawValue.startsWith("'")) {
+      fields[key] = rawValue.slice(1, -1).replace(/''/g, "'");
+    } else if (rawValue.startsWith('"')) {
+      try {
+        fields[key] = JSON.parse(rawValue);
+      } catch {
+        fields[key] = rawValue.slice(1, -1);
+      }
+    } else {
+      fields[key] = rawValue;
+    }
+  }
+  return fields;
+}
+
+// node:test TAP output, the default reporter when stdout is not a terminal
+export function parseTapOutput(output: string): CiFailure[] {
+  const lines = stripAnsi(output).split('\n');
+  const failures: CiFailure[] = [];
+  // Names of the enclosing subtests, by nesting level
+  const names: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const level = Math.floor(indentOf(line) / 4);
+
+    const subtest = line.match(/^\s*# Subtest: (.*)$/);
+    if (subtest) {
+      names.length = level;
+      names[level] = subtest[1];
+      continue;
+    }
+
+    const notOk = line.match(/^\s*not ok \d+ - (.*?)(?: # (?:SKIP|TODO).*)?$/);
+    if (!notOk) {
+      continue;
+    }
+
+    const yaml: string[] = [];
+    if (lines[i + 1]?.trim() === '---') {
+      i += 2;
+      while (i < lines.length && lines[i].trim() !== '...') {
+        yaml.push(lines[i++]);
+      }
+    }
+    const fields = parseYamlBlock(yaml);
+    // Suites fail when one of their tests does; only report the tests themselves
+    if (fields.failureType === 'subtestsFailed') {
+      continue;
+    }
+
+    failures.push({
+      name: [...names.slice(0, level), notOk[1]].join(' > '),
+      ...parseLocation(fields.location),
+      message: fields.error ?? fields.failureType ?? 'Test failed',
+    });
+  }
+  return failures;
+}
+
+// The "failing tests" summary of the node:test spec reporter
+export function parseSpecOutput(output: string): CiFailure[] {
+  const lines = stripAnsi(output).split('\n');
+  const start = lines.findIndex((line) => line.trim() === '✖ failing tests:');
+  if (start < 0) {
+    return [];
+  }
+
+  const failures: CiFailure[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    const location = lines[i].match(/^test at (.+)$/);
+    const test = lines[i + 1]?.match(/^✖ (.*?) \([\d.]+m?s\)$/);
+    if (location && test) {
+      failures.push({
+        name: test[1],
+        ...parseLocation(location[1]),
+        message: lines[i + 2]?.trim() || 'Test failed',
+      });
+      i++;
+    }
+  }
+  return failures;
+}
+
+export function parseNodeTestOutput(output: string): CiFailure[] {
+  return /^TAP version \d+/m.test(output) ? parseTapOutput(output) : parseSpecOutput(output);
+}
+
+interface PlaywrightSuite {
+  title: string;
+  file?: string;
+  specs?: Array<{
+    title: string;
+    file?: string;
+    line?: number;
+    tests?: Array<{
+      projectName?: string;
+      status?: 'expected' | 'unexpected' | 'flaky' | 'skipped';
+      results?: Array<{ status?: string; error?: { message?: string } }>;
+    }>;
+  }>;
+  suites?: PlaywrightSuite[];
+}
+
+// Output of `playwright test --reporter=json`
+export function parsePlaywrightJson(output: string): CiFailure[] {
+  const start = output.indexOf('{');
+  let report: { suites?: PlaywrightSuite[]; errors?: Array<{ message?: string }> };
+  try {
+    report = JSON.parse(start >= 0 ? output.slice(start) : output);
+  } catch {
+    throw new Error('Playwright output is not a JSON report');
+  }
+
+  const failures: CiFailure[] = [];
+  const visit = (suite: PlaywrightSuite, titles: string[]) => {
+    // The root suites are the test files, whose title is the file name
+    const path = suite.file && suite.title === suite.file ? titles : [...titles, suite.title];
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        if (test.status !== 'unexpected' && test.status !== 'flaky') {
+          continue;
+        }
+        const failed = (test.results ?? []).filter((result) => result.error);
+        const error = failed[failed.length - 1]?.error?.message;
+        failures.push({
+          name: [...path, spec.title].filter(Boolean).join(' > '),
+          file: spec.file ?? suite.file,
+          line: spec.line,
+          message: stripAnsi(error ?? 'Test failed')
+            .split('\n')[0]
+            .trim(),
+          flaky: test.status === 'flaky' || undefined,
+        });
+      }
+    }
+    for (const child of suite.suites ?? []) {
+      visit(child, path);
+    }
+  };
+  for (const suite of report.suites ?? []) {
+    visit(suite, []);
+  }
+  for (const error of report.errors ?? []) {
+    failures.push({ name: 'Playwright', message: stripAnsi(error.message ?? 'Error').split('\n')[0] });
+  }
+  return failures;
+}
+
+// Errors from the text output of `biome check` / `biome lint`; warnings and infos are ignored
+export function parseBiomeOutput(output: string): CiFailure[] {
+  const lines = stripAnsi(output).split('\n');
+  const failures: CiFailure[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(/^(\S+?)(?::(\d+):\d+)? ([\w/]+)(?:\s+FIXABLE)?\s+━+$/);
+    if (!header) {
+      continue;
+    }
+    const next = lines.slice(i + 1).find((line) => line.trim() !== '');
+    const severity = next?.match(/^\s*([×!i]) (.*)$/);
+    if (severity?.[1] !== '×') {
+      continue;
+    }
+    failures.push({
+      name: header[3],
+      file: header[1].replace(/^\.\//, ''),
+      line: header[2] ? Number(header[2]) : undefined,
+      message: severity[2].trim(),
+    });
+  }
+  return failures;
+}
+
+export function parseCiOutput(format: CiOutputFormat, output: string): CiFailure[] {
+  switch (format) {
+    case 'node-test':
+      return parseNodeTestOutput(output);
+    case 'playwright-json':
+      return parsePlaywrightJson(output);
+    case 'biome':
+      return parseBiomeOutput(output);
+    case 'exit-code':
+      return [];
+  }
+}
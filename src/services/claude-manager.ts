@@ -1,61 +1,382 @@
 import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import { type AgentBackend, type AgentQuery, ClaudeCodeBackend, type McpServerConfig } from './agent-backend.js';
+import { type AgentBridge, BRIDGE_SERVER_NAME } from './agent-bridge.js';
+import type { SessionMode } from './cassette-backend.js';
+import { toStreamEvents } from './claude-stream.js';
+import type { CredentialStore } from './credential-store.js';
+import type { InstanceRecord, InstanceStore } from './instance-store.js';
+import { type Issue, type IssueTracker, formatIssueForPrompt } from './issue-tracker.js';
+import {
+  type JsonSchema,
+  type SchemaError,
+  checkJsonSchema,
+  extractJson,
+  formatSchemaErrors,
+  validateAgainstSchema,
+} from './json-schema.js';
+import { type McpServerRegistry, failedMcpServers } from './mcp-servers.js';
+import { APPROVAL_TOOL, PERMISSION_PROMPT_TOOL } from './permission-broker.js';
+import { type PermissionPolicy, mergePolicies } from './permission-policy.js';
+import { type Persona, PersonaRegistry } from './personas.js';
+import { toUsageRecord } from './usage-tracker.js';
+import { type WorktreeDisposition, type WorktreeInfo, WorktreeManager } from './worktree-manager.js';
 
 // Since the SDK exports a query function that returns an async generator,
 // we'll wrap it in a more traditional instance-based API
 
+export type InstanceStatus = 'ready' | 'busy' | 'error' | 'stopped';
+
 export interface ClaudeInstance {
   id: string;
   name: string;
-  status: 'ready' | 'busy' | 'error' | 'stopped';
+  status: InstanceStatus;
+  // Why the instance entered its current status
+  statusReason?: string;
   workingDirectory: string;
   createdAt: Date;
+  persona?: Persona;
+  worktree?: WorktreeInfo;
+  // Issue the instance works on. Its description is given to the agent with every message.
+  issue?: Issue;
+  // Claude Code session the conversation continues from
+  sessionId?: string;
+  // Controls the query in flight. Replaced on every query, since an aborted controller cannot be reused.
   abortController?: AbortController;
+  abortReason?: string;
+  // Record or replay this instance's session regardless of the configured mode
+  sessionMode?: SessionMode;
+  // Names of the configured MCP servers given to every query of the instance
+  mcpServers?: string[];
+  // Names of the stored secrets set in the environment of every query of the instance
+  secrets?: string[];
+}
+
+export interface InstanceTransition {
+  instance: ClaudeInstance;
+  from: InstanceStatus | undefined;
+  to: InstanceStatus;
+  reason: string;
+}
+
+// How an instance in the error state is brought back:
+// - reset: mark it ready again, keeping its conversation
+// - restart: mark it ready with a fresh conversation
+// - retire: stop it for good
+export type RecoveryPolicy = 'reset' | 'restart' | 'retire';
+
+export interface CreateInstanceOptions {
+  workingDirectory?: string;
+  personaId?: string;
+  // Source repository to create a dedicated worktree and branch from. Takes precedence over workingDirectory.
+  repository?: string;
+  // Ticket the instance works on, used to name its branch. Defaults to the issue, then to the instance name.
+  ticket?: string;
+  baseRef?: string;
+  // Issue from the configured issue tracker to assign to the instance
+  issueId?: string;
+  sessionMode?: SessionMode;
+  // Configured MCP servers to attach, in addition to those of the persona
+  mcpServers?: string[];
+  // Stored secrets to give the instance, in addition to those of the persona
+  secrets?: string[];
+}
+
+export interface StructuredOptions {
+  // Follow-ups asking the agent to correct an answer that does not match the schema. Defaults to 2.
+  maxRetries?: number;
+  // Send once the instance is ready, after the messages queued for it, instead of failing while it is busy
+  whenReady?: boolean;
+}
+
+export interface StopInstanceOptions {
+  worktree?: WorktreeDisposition;
+  reason?: string;
 }
 
 export interface ClaudeManagerOptions {
   claudeExecutablePath?: string;
   defaultModel?: string;
+  maxConcurrentInstances?: number;
+  personas?: PersonaRegistry;
+  worktrees?: WorktreeManager;
+  // Where instances are persisted so they can be restored after a restart. Not persisted when omitted.
+  store?: InstanceStore;
+  issueTracker?: IssueTracker;
+  // Runs the queries. Defaults to the Claude Code SDK.
+  backend?: AgentBackend;
+  // The configured MCP servers, which instances refer to by name
+  mcpServers?: McpServerRegistry;
+  // Serves the app's tools to the agents. When it has the approval tool, the broker behind it decides
+  // which tools the agents may use; otherwise the agent's own permission settings apply.
+  bridge?: AgentBridge;
+  // The stored secrets, which instances refer to by name
+  credentials?: CredentialStore;
+  // What every instance may do without asking, on top of its persona's permissions
+  permissionPolicy?: PermissionPolicy;
 }
 
+// Settings that can change while instances are running
+export type ReconfigurableOptions = Pick<
+  ClaudeManagerOptions,
+  'claudeExecutablePath' | 'defaultModel' | 'maxConcurrentInstances' | 'permissionPolicy'
+>;
+
 export class ClaudeManager extends EventEmitter {
   private instances: Map<string, ClaudeInstance> = new Map();
+  // Last message queued with sendWhenReady for each instance
+  private queued: Map<string, Promise<string>> = new Map();
   private options: ClaudeManagerOptions;
+  private personas: PersonaRegistry;
+  private worktrees: WorktreeManager;
+  private store?: InstanceStore;
+  private issueTracker?: IssueTracker;
+  private backend: AgentBackend;
+  private bridge?: AgentBridge;
+  private mcpServers?: McpServerRegistry;
+  private credentials?: CredentialStore;
   private instanceCounter = 0;
+  // Instances being created, which already count towards the limit
+  private pendingCreates = 0;
 
   constructor(options: ClaudeManagerOptions = {}) {
     super();
     this.options = {
       claudeExecutablePath: options.claudeExecutablePath,
       defaultModel: options.defaultModel || 'claude-3-5-sonnet-20241022',
+      maxConcurrentInstances: options.maxConcurrentInstances ?? 5,
+      permissionPolicy: options.permissionPolicy,
     };
+    this.personas = options.personas ?? new PersonaRegistry();
+    this.worktrees = options.worktrees ?? new WorktreeManager();
+    this.store = options.store;
+    this.issueTracker = options.issueTracker;
+    this.bridge = options.bridge;
+    this.mcpServers = options.mcpServers;
+    this.credentials = options.credentials;
+    this.backend =
+      options.backend ?? new ClaudeCodeBackend({ executablePath: () => this.options.claudeExecutablePath });
 
-    if (!this.options.claudeExecutablePath) {
+    if (!options.backend && !this.options.claudeExecutablePath) {
       // This will be validated when creating an instance
       console.warn('Claude executable path not specified. Will use the bundled executable or the one in PATH.');
     }
   }
 
-  async createInstance(name: string, workingDirectory?: string): Promise<ClaudeInstance> {
+  // Apply new settings to the queries and instances created from now on. Existing instances are kept,
+  // even when there are more of them than a lowered limit allows.
+  updateOptions(options: ReconfigurableOptions): void {
+    this.options = {
+      ...this.options,
+      ...options,
+      defaultModel: options.defaultModel || this.options.defaultModel,
+      maxConcurrentInstances: options.maxConcurrentInstances ?? this.options.maxConcurrentInstances,
+    };
+  }
+
+  async createInstance(name: string, options: CreateInstanceOptions = {}): Promise<ClaudeInstance> {
+    let persona: Persona | undefined;
+    if (options.personaId) {
+      persona = this.personas.get(options.personaId);
+      if (!persona) {
+        throw new Error(`Persona ${options.personaId} not found`);
+      }
+    }
+
+    if (!this.hasCapacity()) {
+      throw new Error(
+        `Cannot create instance: limit of ${this.getMaxConcurrentInstances()} concurrent instances reached`,
+      );
+    }
+    // Reserved before the first await, so concurrent creates cannot all pass the check
+    this.pendingCreates++;
+    try {
+      return await this.setUpInstance(name, options, persona);
+    } finally {
+      this.pendingCreates--;
+    }
+  }
+
+  private async setUpInstance(
+    name: string,
+    options: CreateInstanceOptions,
+    persona: Persona | undefined,
+  ): Promise<ClaudeInstance> {
+    const mcpServers = [...new Set([...(persona?.mcpServers ?? []), ...(options.mcpServers ?? [])])];
+    this.resolveMcpServers(mcpServers);
+    const secrets = [...new Set([...(persona?.secrets ?? []), ...(options.secrets ?? [])])];
+    for (const secret of secrets) {
+      if (!this.credentials?.has(secret)) {
+        throw new Error(`Secret ${secret} is not set`);
+      }
+    }
+    const issue = options.issueId ? await this.fetchIssue(options.issueId) : undefined;
+
     const id = `claude-${++this.instanceCounter}`;
-    const workDir = workingDirectory || path.join(os.homedir(), '.coding-team', 'claude-instances', id);
+    let workDir = options.workingDirectory || path.join(os.homedir(), '.coding-team', 'claude-instances', id);
+
+    let worktree: WorktreeInfo | undefined;
+    if (options.repository) {
+      const ticket = options.ticket || (issue ? `issue-${issue.id}` : name);
+      worktree = await this.worktrees.create(options.repository, id, ticket, options.baseRef);
+      workDir = worktree.worktreePath;
+    } else if (!options.workingDirectory) {
+      // The query fails to start in a directory that does not exist
+      await fs.mkdir(workDir, { recursive: true });
+    }
+
+    // An instance whose tools are missing cannot do its work; it starts in error until its servers are fixed
+    const failure = await this.checkMcpServers(mcpServers);
 
     const instance: ClaudeInstance = {
       id,
       name,
-      status: 'ready',
+      status: failure ? 'error' : 'ready',
       workingDirectory: workDir,
       createdAt: new Date(),
-      abortController: new AbortController(),
+      persona,
+      worktree,
+      issue,
+      sessionMode: options.sessionMode,
+      mcpServers: mcpServers.length > 0 ? mcpServers : undefined,
+      secrets: secrets.length > 0 ? secrets : undefined,
     };
 
     this.instances.set(id, instance);
+    this.persist();
+    this.emitTransition(instance, undefined, failure ?? 'created');
     this.emit('instanceCreated', instance);
+    if (failure) {
+      this.emit('instanceError', { instance, error: new Error(failure) });
+    }
+
+    return instance;
+  }
+
+  // Recreate the instances persisted by a previous run, with their sessions
+  async restoreInstances(): Promise<ClaudeInstance[]> {
+    if (!this.store) {
+      return [];
+    }
+
+    const restored: ClaudeInstance[] = [];
+    for (const record of await this.store.load()) {
+      if (this.instances.has(record.id)) {
+        continue;
+      }
+
+      const persona = record.personaId ? this.personas.get(record.personaId) : undefined;
+      if (record.personaId && !persona) {
+        console.warn(`Not restoring instance ${record.id}: persona ${record.personaId} not found`);
+        continue;
+      }
+
+      let worktree: WorktreeInfo | undefined;
+      if (record.worktree) {
+        worktree = await this.worktrees.adopt(record.worktree.worktreePath);
+        if (!worktree) {
+          console.warn(`Not restoring instance ${record.id}: worktree ${record.worktree.worktreePath} is gone`);
+          continue;
+        }
+      }
+
+      const instance: ClaudeInstance = {
+        id: record.id,
+        name: record.name,
+        status: 'ready',
+        workingDirectory: record.workingDirectory,
+        createdAt: new Date(record.createdAt),
+        persona,
+        worktree,
+        issue: record.issue,
+        sessionId: record.sessionId,
+        sessionMode: record.sessionMode,
+        mcpServers: record.mcpServers,
+        secrets: record.secrets,
+      };
 
+      const counter = Number.parseInt(record.id.replace(/^claude-/, ''), 10);
+      if (!Number.isNaN(counter)) {
+        this.instanceCounter = Math.max(this.instanceCounter, counter);
+      }
+
+      this.instances.set(instance.id, instance);
+      this.emitTransition(instance, undefined, 'restored');
+      this.emit('instanceCreated', instance);
+      restored.push(instance);
+    }
+
+    this.persist();
+    return restored;
+  }
+
+  private persist(): void {
+    if (!this.store) {
+      return;
+    }
+    const records: InstanceRecord[] = this.getAllInstances()
+      .filter((instance) => instance.status !== 'stopped')
+      .map((instance) => ({
+        id: instance.id,
+        name: instance.name,
+        workingDirectory: instance.workingDirectory,
+        createdAt: instance.createdAt.toISOString(),
+        personaId: instance.persona?.id,
+        worktree: instance.worktree,
+        issue: instance.issue,
+        sessionId: instance.sessionId,
+        sessionMode: instance.sessionMode,
+        mcpServers: instance.mcpServers,
+        secrets: instance.secrets,
+      }));
+    this.store.save(records).catch(console.error);
+  }
+
+  private resolveMcpServers(names: string[]): Record<string, McpServerConfig> {
+    if (names.length === 0) {
+      return {};
+    }
+    if (!this.mcpServers) {
+      throw new Error(`MCP server ${names[0]} is not configured`);
+    }
+    return this.mcpServers.resolve(names);
+  }
+
+  // Why the first of the servers that fails to start failed, or undefined when they all start
+  private async checkMcpServers(names: string[]): Promise<string | undefined> {
+    for (const name of names) {
+      const status = await this.mcpServers?.check(name);
+      if (status?.health === 'failed') {
+        return `MCP server ${name} failed to start: ${status.error}`;
+      }
+    }
+    return undefined;
+  }
+
+  private async fetchIssue(issueId: string): Promise<Issue> {
+    if (!this.issueTracker) {
+      throw new Error('No issue tracker is configured');
+    }
+    return this.issueTracker.getIssue(issueId);
+  }
+
+  // Assign an issue to an existing instance. Its next messages carry the issue description.
+  async assignIssue(instanceId: string, issueId: string): Promise<ClaudeInstance> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+    instance.issue = await this.fetchIssue(issueId);
+    this.persist();
     return instance;
   }
 
+  setIssueTracker(issueTracker: IssueTracker | undefined): void {
+    this.issueTracker = issueTracker;
+  }
+
   async sendMessage(instanceId: string, message: string): Promise<string> {
     const instance = this.instances.get(instanceId);
     if (!instance) {
@@ -66,57 +387,337 @@ export class ClaudeManager extends EventEmitter {
       throw new Error(`Instance ${instanceId} is not ready. Current status: ${instance.status}`);
     }
 
-    instance.status = 'busy';
+    instance.abortController = new AbortController();
+    instance.abortReason = undefined;
+    this.transition(instance, 'busy', 'query started');
     this.emit('instanceBusy', instance);
+    this.emit('instanceStream', { type: 'prompt', instanceId: instance.id, text: message });
 
     try {
-      // Import dynamically to avoid ES module issues during testing
-      const { query } = await import('@anthropic-ai/claude-code');
-
-      const options = {
-        cwd: instance.workingDirectory,
-        pathToClaudeCodeExecutable: this.options.claudeExecutablePath,
-        model: this.options.defaultModel,
-        abortController: instance.abortController,
-      };
-
-      const messages: unknown[] = [];
-      const response = query({ prompt: message, options });
+      const response = this.backend.query(this.buildQuery(instance, message));
+      let result: string | undefined;
 
+      // Drain the stream instead of returning at the result message: leaving the generator early
+      // kills the CLI process before it exits and surfaces as an unhandled rejection in the SDK
       for await (const msg of response) {
-        messages.push(msg);
+        // Every message carries the session id; keep it so the next query resumes this conversation
+        if (msg.session_id && msg.session_id !== instance.sessionId) {
+          instance.sessionId = msg.session_id;
+          this.persist();
+        }
+
+        // The agent reports its MCP servers once they started. Without them it would work with missing tools.
+        const failed = failedMcpServers(msg);
+        if (failed.length > 0 && !instance.abortReason) {
+          instance.abortReason = `MCP server ${failed.join(', ')} failed to start`;
+          instance.abortController.abort();
+        }
+
+        // Forward every chunk as it arrives so subscribers can show live progress
+        for (const event of toStreamEvents(instance.id, msg)) {
+          this.emit('instanceStream', event);
+        }
+
         if (msg.type === 'result') {
-          instance.status = 'ready';
-          this.emit('instanceReady', instance);
-          return msg.result || 'No response';
+          result = msg.result || 'No response';
+          this.emit('instanceUsage', toUsageRecord(instance.id, instance.persona?.id, msg));
         }
       }
 
-      instance.status = 'ready';
+      this.transition(instance, 'ready', result === undefined ? 'query completed without result' : 'query completed');
       this.emit('instanceReady', instance);
-      return 'Query completed without result';
+      return result ?? 'Query completed without result';
     } catch (error) {
-      instance.status = 'error';
+      // Stopping the instance aborts its query; that is not an error of the instance
+      if ((instance.status as InstanceStatus) === 'stopped') {
+        throw error;
+      }
+      const reason = instance.abortReason ?? (error instanceof Error ? error.message : String(error));
+      this.emit('instanceStream', { type: 'error', instanceId: instance.id, message: reason });
+      this.transition(instance, 'error', reason);
       this.emit('instanceError', { instance, error });
-      throw error;
+      throw instance.abortReason ? new Error(`Query aborted: ${instance.abortReason}`) : error;
     }
   }
 
-  async stopInstance(instanceId: string): Promise<void> {
+  // Send a message and get the answer as JSON matching `schema`. An answer that is not valid JSON or does not match
+  // is sent back with its errors for the agent to correct, up to `maxRetries` times; then the last errors are thrown.
+  async sendStructured<T = unknown>(
+    instanceId: string,
+    prompt: string,
+    schema: JsonSchema,
+    options: StructuredOptions = {},
+  ): Promise<T> {
+    const problem = checkJsonSchema(schema);
+    if (problem) {
+      throw new Error(`Invalid JSON Schema: ${problem}`);
+    }
+    const maxRetries = options.maxRetries ?? 2;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error(`maxRetries must be a non-negative integer, got ${maxRetries}`);
+    }
+
+    let message = [
+      prompt,
+      '',
+      'Answer with a single JSON value matching this JSON Schema, in a ```json code block:',
+      '```json',
+      JSON.stringify(schema, null, 2),
+      '```',
+    ].join('\n');
+    let errors: SchemaError[] = [];
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Listeners of instanceReady, e.g. the message bus, may claim the instance between two attempts
+      const reply =
+        attempt === 0 && !options.whenReady
+          ? await this.sendMessage(instanceId, message)
+          : await this.sendWhenReady(instanceId, message);
+      let value: unknown;
+      try {
+        value = extractJson(reply);
+        errors = validateAgainstSchema(value, schema);
+      } catch (error) {
+        errors = [{ path: '$', message: error instanceof Error ? error.message : String(error) }];
+      }
+      if (errors.length === 0) {
+        return value as T;
+      }
+      message = [
+        'Your answer does not match the JSON Schema:',
+        formatSchemaErrors(errors),
+        '',
+        'Answer again with only the corrected JSON in a ```json code block.',
+      ].join('\n');
+    }
+
+    const attempts = maxRetries + 1;
+    throw new Error(
+      `Instance ${instanceId} did not answer with JSON matching the schema after ${attempts} attempt${attempts === 1 ? '' : 's'}:\n${formatSchemaErrors(errors)}`,
+    );
+  }
+
+  // Abort the query an instance is running. The instance moves to the error state with `reason`.
+  abortQuery(instanceId: string, reason: string): boolean {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+    if (instance.status !== 'busy' || !instance.abortController) {
+      return false;
+    }
+    instance.abortReason = reason;
+    instance.abortController.abort();
+    return true;
+  }
+
+  // Bring an errored instance back according to `policy`
+  async recoverInstance(instanceId: string, policy: RecoveryPolicy): Promise<void> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+    if (instance.status !== 'error') {
+      throw new Error(`Instance ${instanceId} is not in error. Current status: ${instance.status}`);
+    }
+
+    if (policy === 'retire') {
+      await this.stopInstance(instanceId, { reason: 'retired after error' });
+      return;
+    }
+
+    const failure = await this.checkMcpServers(instance.mcpServers ?? []);
+    if (instance.status !== 'error') {
+      throw new Error(`Instance ${instanceId} is not in error. Current status: ${instance.status}`);
+    }
+    if (failure) {
+      instance.statusReason = failure;
+      throw new Error(`Cannot recover instance ${instanceId}: ${failure}`);
+    }
+
+    instance.abortController = undefined;
+    instance.abortReason = undefined;
+    if (policy === 'restart') {
+      instance.sessionId = undefined;
+      this.persist();
+    }
+    this.transition(instance, 'ready', policy === 'restart' ? 'recovered: session restarted' : 'recovered: reset');
+    this.emit('instanceReady', instance);
+  }
+
+  // Resolves once the instance is ready to take a message; rejects if it is stopped first
+  waitForReady(instanceId: string): Promise<ClaudeInstance> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      return Promise.reject(new Error(`Instance ${instanceId} not found`));
+    }
+    if (instance.status === 'ready') {
+      return Promise.resolve(instance);
+    }
+    return new Promise((resolve, reject) => {
+      const onReady = (ready: ClaudeInstance) => {
+        if (ready.id === instanceId) {
+          cleanup();
+          resolve(ready);
+        }
+      };
+      const onStopped = (stopped: ClaudeInstance) => {
+        if (stopped.id === instanceId) {
+          cleanup();
+          reject(new Error(`Instance ${instanceId} was stopped`));
+        }
+      };
+      const cleanup = () => {
+        this.off('instanceReady', onReady);
+        this.off('instanceStopped', onStopped);
+      };
+      this.on('instanceReady', onReady);
+      this.on('instanceStopped', onStopped);
+    });
+  }
+
+  // Send a message once the instance is ready, after the messages queued for it before. Callers that
+  // wait for ready and then send race each other: only one gets the instance and the others fail.
+  sendWhenReady(instanceId: string, message: string): Promise<string> {
+    const previous = this.queued.get(instanceId) ?? Promise.resolve('');
+    const sent = previous
+      .catch(() => '')
+      .then(async () => {
+        let instance = await this.waitForReady(instanceId);
+        // Something outside the queue, e.g. the task dispatcher, may have claimed it in the meantime
+        while (instance.status !== 'ready') {
+          instance = await this.waitForReady(instanceId);
+        }
+        return this.sendMessage(instanceId, message);
+      });
+    this.queued.set(instanceId, sent);
+    const forget = () => {
+      if (this.queued.get(instanceId) === sent) {
+        this.queued.delete(instanceId);
+      }
+    };
+    sent.then(forget, forget);
+    return sent;
+  }
+
+  private transition(instance: ClaudeInstance, to: InstanceStatus, reason: string): void {
+    const from = instance.status;
+    instance.status = to;
+    this.emitTransition(instance, from, reason);
+  }
+
+  private emitTransition(instance: ClaudeInstance, from: InstanceStatus | undefined, reason: string): void {
+    instance.statusReason = reason;
+    const transition: InstanceTransition = { instance, from, to: instance.status, reason };
+    this.emit('instanceTransition', transition);
+  }
+
+  private buildQuery(instance: ClaudeInstance, prompt: string): AgentQuery {
+    const persona = instance.persona;
+    return {
+      instanceId: instance.id,
+      prompt,
+      cwd: instance.workingDirectory,
+      model: persona?.model || (this.options.defaultModel as string),
+      abortController: instance.abortController as AbortController,
+      resume: instance.sessionId,
+      // Appended so the agent keeps Claude Code's own tool instructions
+      appendSystemPrompt: this.buildSystemPrompt(instance),
+      maxTurns: persona?.maxTurns,
+      ...this.buildPermissions(instance),
+      mcpServers: this.buildMcpServers(instance),
+      sessionMode: instance.sessionMode,
+      env: this.buildEnvironment(instance),
+    };
+  }
+
+  // What the broker lets an instance do: the configured policy, its persona's permissions and the tools
+  // its persona allows
+  getPermissionPolicy(instance: ClaudeInstance): PermissionPolicy {
+    const persona = instance.persona;
+    return mergePolicies(this.options.permissionPolicy, persona?.permissions, { allowedTools: persona?.allowedTools });
+  }
+
+  private buildPermissions(
+    instance: ClaudeInstance,
+  ): Pick<AgentQuery, 'allowedTools' | 'disallowedTools' | 'permissionMode' | 'permissionPromptToolName'> {
+    const persona = instance.persona;
+    if (!this.bridge?.has(APPROVAL_TOOL)) {
+      return {
+        allowedTools: persona?.allowedTools,
+        disallowedTools: persona?.disallowedTools,
+        permissionMode: persona?.permissionMode,
+      };
+    }
+
+    // The CLI only asks the broker about what it would prompt for, so denials are also given to the CLI:
+    // denied paths as read and edit rules, since reads and accepted edits never prompt
+    const policy = mergePolicies(this.options.permissionPolicy, persona?.permissions);
+    const disallowedTools = [
+      ...(persona?.disallowedTools ?? []),
+      ...(policy.deniedTools ?? []),
+      ...(policy.deniedPaths ?? []).flatMap((pattern) => [`Read(${pattern})`, `Edit(${pattern})`]),
+    ];
+    const restricted = Object.keys(policy).length > 0;
+    return {
+      // Allowed by the broker instead, where the policy's denials still apply to them
+      allowedTools: undefined,
+      disallowedTools: disallowedTools.length > 0 ? disallowedTools : undefined,
+      // Edits accepted up front would never reach the broker
+      permissionMode:
+        restricted && (persona?.permissionMode === 'acceptEdits' || persona?.permissionMode === 'bypassPermissions')
+          ? 'default'
+          : persona?.permissionMode,
+      // Tools the agent would otherwise prompt for are decided by the broker, through its MCP bridge
+      permissionPromptToolName: PERMISSION_PROMPT_TOOL,
+    };
+  }
+
+  // Read on every query, so a rotated secret applies from the next one
+  private buildEnvironment(instance: ClaudeInstance): Record<string, string> | undefined {
+    if (!instance.secrets) {
+      return undefined;
+    }
+    if (!this.credentials) {
+      throw new Error(`Secret ${instance.secrets[0]} is not set`);
+    }
+    return this.credentials.environment(instance.secrets);
+  }
+
+  private buildMcpServers(instance: ClaudeInstance): Record<string, McpServerConfig> | undefined {
+    const servers = this.resolveMcpServers(instance.mcpServers ?? []);
+    if (this.bridge) {
+      servers[BRIDGE_SERVER_NAME] = this.bridge.serverConfig(instance.id);
+    }
+    return Object.keys(servers).length > 0 ? servers : undefined;
+  }
+
+  private buildSystemPrompt(instance: ClaudeInstance): string | undefined {
+    const parts = [instance.persona?.systemPrompt, instance.issue && formatIssueForPrompt(instance.issue)];
+    const prompt = parts.filter(Boolean).join('\n\n');
+    return prompt || undefined;
+  }
+
+  async stopInstance(instanceId: string, options: StopInstanceOptions = {}): Promise<void> {
     const instance = this.instances.get(instanceId);
     if (!instance) {
       throw new Error(`Instance ${instanceId} not found`);
     }
 
     try {
+      this.transition(instance, 'stopped', options.reason ?? 'stopped');
+
       // Abort any ongoing operations
       if (instance.abortController) {
         instance.abortController.abort();
       }
 
-      instance.status = 'stopped';
+      if (instance.worktree) {
+        await this.worktrees.release(instance.worktree.worktreePath, options.worktree ?? 'keep');
+      }
+
       this.emit('instanceStopped', instance);
       this.instances.delete(instanceId);
+      this.persist();
     } catch (error) {
       this.emit('instanceError', { instance, error });
       throw error;
@@ -128,6 +729,16 @@ export class ClaudeManager extends EventEmitter {
     await Promise.all(stopPromises);
   }
 
+  // Abort running queries without forgetting the instances, so they are restored on the next start
+  async shutdown(): Promise<void> {
+    for (const instance of this.instances.values()) {
+      if (instance.status === 'busy') {
+        this.abortQuery(instance.id, 'application shutting down');
+      }
+    }
+    await this.store?.flush();
+  }
+
   getInstance(instanceId: string): ClaudeInstance | undefined {
     return this.instances.get(instanceId);
   }
@@ -139,4 +750,17 @@ export class ClaudeManager extends EventEmitter {
   getActiveInstances(): ClaudeInstance[] {
     return this.getAllInstances().filter((instance) => instance.status !== 'stopped');
   }
+
+  getMaxConcurrentInstances(): number {
+    return this.options.maxConcurrentInstances ?? 5;
+  }
+
+  // Whether another instance can be created, counting the ones being created
+  hasCapacity(): boolean {
+    return this.getActiveInstances().length + this.pendingCreates < this.getMaxConcurrentInstances();
+  }
+
+  getPersonas(): Persona[] {
+    return this.personas.getAll();
+  }
 }
@@ -0,0 +1,127 @@
+// The Claude Code SDK module is declared as untyped (see src/types/claude-code.d.ts),
+// so we describe here only the parts of the messages yielded by `query()` that we read.
+
+export interface SDKContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | SDKContentBlock[];
+  is_error?: boolean;
+}
+
+export interface SDKUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export type SDKMessage =
+  | {
+      type: 'system';
+      subtype: string;
+      session_id: string;
+      [key: string]: unknown;
+    }
+  | {
+      type: 'assistant';
+      message: { content: SDKContentBlock[] };
+      parent_tool_use_id: string | null;
+      session_id: string;
+    }
+  | {
+      type: 'user';
+      message: { content: string | SDKContentBlock[] };
+      parent_tool_use_id: string | null;
+      session_id: string;
+    }
+  | {
+      type: 'result';
+      subtype: string;
+      result?: string;
+      is_error: boolean;
+      duration_ms: number;
+      duration_api_ms: number;
+      num_turns: number;
+      session_id: string;
+      total_cost_usd: number;
+      usage: SDKUsage;
+    };
+
+export type ClaudeStreamEvent =
+  | { type: 'prompt'; instanceId: string; text: string }
+  | { type: 'text'; instanceId: string; text: string }
+  | { type: 'tool-use'; instanceId: string; toolUseId: string; name: string; input: unknown }
+  | { type: 'tool-result'; instanceId: string; toolUseId: string; content: string; isError: boolean }
+  | { type: 'result'; instanceId: string; subtype: string; result: string; isError: boolean }
+  | { type: 'error'; instanceId: string; message: string };
+
+export type ClaudeStreamEventType = ClaudeStreamEvent['type'];
+
+function flattenContent(content: string | SDKContentBlock[] | undefined): string {
+  if (content === undefined) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((block) => block.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+// Translate one SDK message into the events we forward to subscribers.
+// System messages carry no user-visible progress and produce no events.
+export function toStreamEvents(instanceId: string, msg: SDKMessage): ClaudeStreamEvent[] {
+  const events: ClaudeStreamEvent[] = [];
+
+  switch (msg.type) {
+    case 'assistant':
+      for (const block of msg.message.content) {
+        if (block.type === 'text' && block.text) {
+          events.push({ type: 'text', instanceId, text: block.text });
+        } else if (block.type === 'tool_use') {
+          events.push({
+            type: 'tool-use',
+            instanceId,
+            toolUseId: block.id ?? '',
+            name: block.name ?? 'unknown',
+            input: block.input,
+          });
+        }
+      }
+      break;
+
+    case 'user':
+      if (Array.isArray(msg.message.content)) {
+        for (const block of msg.message.content) {
+          if (block.type === 'tool_result') {
+            events.push({
+              type: 'tool-result',
+              instanceId,
+              toolUseId: block.tool_use_id ?? '',
+              content: flattenContent(block.content),
+              isError: block.is_error === true,
+            });
+          }
+        }
+      }
+      break;
+
+    case 'result':
+      events.push({
+        type: 'result',
+        instanceId,
+        subtype: msg.subtype,
+        result: msg.result ?? '',
+        isError: msg.is_error,
+      });
+      break;
+  }
+
+  return events;
+}
@@ -0,0 +1,232 @@
+import type { AppConfig } from './config.js';
+import { validateMcpServers } from './mcp-servers.js';
+import { validatePermissionPolicy } from './permission-policy.js';
+
+// Version of the config file format written by this build
+export const CONFIG_VERSION = 2;
+
+type RawConfig = Record<string, unknown>;
+
+// Steps that bring a config file from version N (the index + 1) to version N + 1
+const MIGRATIONS: Array<(raw: RawConfig) => RawConfig> = [
+  // 1 -> 2: files written before versioning have no version field; their keys are unchanged
+  (raw) => raw,
+];
+
+export function migrateConfig(raw: RawConfig, source: string): RawConfig {
+  const version = raw.version ?? 1;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new Error(`Invalid config in ${source}: "version" must be a positive integer`);
+  }
+  if ((version as number) > CONFIG_VERSION) {
+    throw new Error(
+      `Config in ${source} has version ${version}, but this version of Coding Team only reads up to ${CONFIG_VERSION}`,
+    );
+  }
+
+  let migrated = { ...raw };
+  for (let from = version as number; from < CONFIG_VERSION; from++) {
+    migrated = MIGRATIONS[from - 1](migrated);
+  }
+  migrated.version = CONFIG_VERSION;
+  return migrated;
+}
+
+// How a value is read from a CODING_TEAM_* environment variable
+type EnvKind = 'string' | 'number' | 'boolean' | 'json';
+
+interface FieldSchema {
+  env: EnvKind;
+  // Returns why the value is invalid, or undefined when it is valid
+  validate: (value: unknown) => string | undefined;
+}
+
+function describeValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+const nonEmptyString = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' ? undefined : 'must be a non-empty string';
+
+const positiveInteger = (value: unknown) =>
+  Number.isInteger(value) && (value as number) > 0 ? undefined : 'must be a positive integer';
+
+const nonNegativeInteger = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0 ? undefined : 'must be a non-negative integer';
+
+const positiveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? undefined : 'must be a positive number';
+
+const boolean = (value: unknown) => (typeof value === 'boolean' ? undefined : 'must be true or false');
+
+const oneOf =
+  (...options: string[]) =>
+  (value: unknown) =>
+    options.includes(value as string) ? undefined : `must be one of ${options.join(', ')}`;
+
+function isObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateIssueTracker(value: unknown): string | undefined {
+  if (!isObject(value)) {
+    return 'must be an object';
+  }
+  if (value.type === 'github') {
+    return nonEmptyString(value.owner) || nonEmptyString(value.repo)
+      ? 'of type github needs an "owner" and a "repo"'
+      : undefined;
+  }
+  if (value.type === 'local') {
+    return nonEmptyString(value.directory) ? 'of type local needs a "directory"' : undefined;
+  }
+  return 'must have a "type" of github or local';
+}
+
+function validateCiMonitor(value: unknown): string | undefined {
+  if (!isObject(value)) {
+    return 'must be an object';
+  }
+  if (nonEmptyString(value.repository)) {
+    return 'needs a "repository"';
+  }
+  if (value.intervalMinutes !== undefined && positiveNumber(value.intervalMinutes)) {
+    return '"intervalMinutes" must be a positive number';
+  }
+  if (!Array.isArray(value.checks) || value.checks.length === 0) {
+    return 'needs a non-empty "checks" array';
+  }
+  const format = oneOf('node-test', 'playwright-json', 'biome', 'exit-code');
+  for (const [index, check] of value.checks.entries()) {
+    if (!isObject(check) || nonEmptyString(check.name) || nonEmptyString(check.command) || format(check.format)) {
+      return `check ${index} needs a "name", a "command" and a "format" of node-test, playwright-json, biome or exit-code`;
+    }
+  }
+  return undefined;
+}
+
+export const CONFIG_SCHEMA: { [K in keyof AppConfig]-?: FieldSchema } = {
+  claudeExecutablePath: { env: 'string', validate: nonEmptyString },
+  defaultModel: { env: 'string', validate: nonEmptyString },
+  maxConcurrentInstances: { env: 'number', validate: positiveInteger },
+  instanceTimeout: { env: 'number', validate: nonNegativeInteger },
+  recoveryPolicy: { env: 'string', validate: oneOf('reset', 'restart', 'retire') },
+  dailyBudgetUsd: { env: 'number', validate: positiveNumber },
+  taskBudgetUsd: { env: 'number', validate: positiveNumber },
+  issueTracker: { env: 'json', validate: validateIssueTracker },
+  verifyCommand: { env: 'string', validate: nonEmptyString },
+  conflictPolicy: { env: 'string', validate: oneOf('resolve', 'bounce') },
+  ciMonitor: { env: 'json', validate: validateCiMonitor },
+  mcpServers: { env: 'json', validate: validateMcpServers },
+  permissionPolicy: { env: 'json', validate: validatePermissionPolicy },
+  approvalTimeout: { env: 'number', validate: positiveInteger },
+  sessionMode: { env: 'string', validate: oneOf('live', 'record', 'replay') },
+  cassetteDirectory: { env: 'string', validate: nonEmptyString },
+  autoSaveConfig: { env: 'boolean', validate: boolean },
+};
+
+export function isConfigKey(key: string): key is keyof AppConfig {
+  return Object.hasOwn(CONFIG_SCHEMA, key);
+}
+
+export function validateConfigValue<K extends keyof AppConfig>(key: K, value: unknown): AppConfig[K] {
+  const problem = CONFIG_SCHEMA[key].validate(value);
+  if (problem) {
+    throw new Error(`"${key}" ${problem} (got ${describeValue(value)})`);
+  }
+  return value as AppConfig[K];
+}
+
+export interface ConfigLayerOptions {
+  // Values used where no layer sets one
+  defaults: Partial<AppConfig>;
+  // Keys the layer may set; all of them when omitted
+  allowedKeys?: ReadonlyArray<keyof AppConfig>;
+}
+
+// Validate one layer read from `source`. Every problem is reported at once.
+export function validateConfigLayer(
+  raw: RawConfig,
+  source: string,
+  { defaults, allowedKeys }: ConfigLayerOptions,
+): Partial<AppConfig> {
+  const problems: string[] = [];
+  const layer: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'version') {
+      continue;
+    }
+    if (!isConfigKey(key)) {
+      problems.push(`unknown key "${key}"`);
+      continue;
+    }
+    if (allowedKeys && !allowedKeys.includes(key)) {
+      problems.push(`"${key}" cannot be set here; set it in the global config or the environment`);
+      continue;
+    }
+    // null leaves the key to the lower layers and the default. Without a default it would look like it
+    // clears the value while a lower layer still sets it.
+    if (value === null) {
+      if (defaults[key] === undefined) {
+        problems.push(`"${key}" cannot be null, as it has no default`);
+      }
+      continue;
+    }
+    try {
+      layer[key] = validateConfigValue(key, value);
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid config in ${source}: ${problems.join('; ')}`);
+  }
+  return layer as Partial<AppConfig>;
+}
+
+// CODING_TEAM_MAX_CONCURRENT_INSTANCES for maxConcurrentInstances
+export function envVarName(key: keyof AppConfig): string {
+  return `CODING_TEAM_${key.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+}
+
+// The layer made of the CODING_TEAM_* variables in `env`
+export function readEnvLayer(env: NodeJS.ProcessEnv): Partial<AppConfig> {
+  const problems: string[] = [];
+  const layer: Record<string, unknown> = {};
+  for (const key of Object.keys(CONFIG_SCHEMA) as Array<keyof AppConfig>) {
+    const name = envVarName(key);
+    const text = env[name];
+    if (text === undefined || text === '') {
+      continue;
+    }
+
+    let value: unknown = text;
+    switch (CONFIG_SCHEMA[key].env) {
+      case 'number':
+        value = Number(text);
+        break;
+      case 'boolean':
+        value = text === 'true' ? true : text === 'false' ? false : text;
+        break;
+      case 'json':
+        try {
+          value = JSON.parse(text);
+        } catch {
+          problems.push(`${name} is not valid JSON`);
+          continue;
+        }
+        break;
+    }
+
+    const problem = CONFIG_SCHEMA[key].validate(value);
+    if (problem) {
+      problems.push(`${name} ${problem} (got ${describeValue(text)})`);
+    } else {
+      layer[key] = value;
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid config in the environment: ${problems.join('; ')}`);
+  }
+  return layer as Partial<AppConfig>;
+}
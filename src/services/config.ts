@@ -1,28 +1,115 @@
+import { EventEmitter } from 'node:events';
+import { type FSWatcher, watch } from 'node:fs';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import type { McpServerConfig } from './agent-backend.js';
+import type { SessionMode } from './cassette-backend.js';
+import type { CiMonitorConfig } from './ci-monitor.js';
+import type { RecoveryPolicy } from './claude-manager.js';
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  readEnvLayer,
+  validateConfigLayer,
+  validateConfigValue,
+} from './config-schema.js';
+import type { IssueTrackerConfig } from './issue-tracker.js';
+import type { ConflictPolicy } from './merge-queue.js';
+import type { PermissionPolicy } from './permission-policy.js';
 
 export interface AppConfig {
   claudeExecutablePath?: string;
   defaultModel: string;
   maxConcurrentInstances: number;
+  // Maximum duration of a query in milliseconds; 0 disables the timeout
   instanceTimeout: number;
+  // What to do with an instance whose query failed or timed out
+  recoveryPolicy: RecoveryPolicy;
+  // Spending caps in USD. Dispatch pauses and running queries are aborted once the daily cap is reached;
+  // a task that reaches its cap is not retried. No cap when unset.
+  dailyBudgetUsd?: number;
+  taskBudgetUsd?: number;
+  issueTracker?: IssueTrackerConfig;
+  // Command the merge queue runs in the rebased checkout; the target only moves when it exits 0
+  verifyCommand: string;
+  conflictPolicy: ConflictPolicy;
+  // Checks run periodically against the main branch. The CI monitor is off when unset.
+  ciMonitor?: CiMonitorConfig;
+  // MCP servers by name, attached to instances by their persona or when they are created
+  mcpServers?: Record<string, McpServerConfig>;
+  // What every instance may do without asking; personas add their own rules. Other actions need approval.
+  permissionPolicy?: PermissionPolicy;
+  // Milliseconds an approval request waits for an answer before the action is denied
+  approvalTimeout: number;
+  // Whether instances run live, record their sessions to cassettes or replay them. Instances can override it.
+  sessionMode: SessionMode;
+  // Where cassettes are kept, ~/.coding-team/cassettes when unset
+  cassetteDirectory?: string;
   autoSaveConfig: boolean;
 }
 
-export class ConfigService {
+// Where an effective value comes from, from lowest to highest precedence
+export type ConfigSource = 'default' | 'global' | 'repo' | 'env';
+
+export interface ConfigServiceOptions {
+  // Global config file, ~/.coding-team/config.json by default
+  configPath?: string;
+  // Repository whose .coding-team.json overrides the global config, the working directory by default
+  repoDir?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+// Per-repo overrides, read from the root of the repository
+export const REPO_CONFIG_FILE = '.coding-team.json';
+
+// What a repository's config may set. Anyone who can commit to the repository writes that file, so keys
+// that run commands or executables, give instances permissions, tokens or secrets, or raise budgets are
+// only read from the global config and the environment.
+export const REPO_CONFIG_KEYS: ReadonlyArray<keyof AppConfig> = [
+  'defaultModel',
+  'maxConcurrentInstances',
+  'instanceTimeout',
+  'recoveryPolicy',
+  'conflictPolicy',
+  'approvalTimeout',
+];
+
+// Emitted as 'change' for every key whose effective value changed
+export interface ConfigChange<K extends keyof AppConfig = keyof AppConfig> {
+  key: K;
+  value: AppConfig[K];
+  previous: AppConfig[K];
+  source: ConfigSource;
+}
+
+export class ConfigService extends EventEmitter {
   private configPath: string;
+  private repoConfigPath: string;
+  private env: NodeJS.ProcessEnv;
   private config: AppConfig;
   private defaultConfig: AppConfig = {
     defaultModel: 'claude-3-5-sonnet-20241022',
     maxConcurrentInstances: 5,
     instanceTimeout: 300000, // 5 minutes
+    recoveryPolicy: 'reset',
+    verifyCommand: 'npm test',
+    conflictPolicy: 'resolve',
+    approvalTimeout: 300000, // 5 minutes
+    sessionMode: 'live',
     autoSaveConfig: true,
   };
+  // Only the global layer is written back to the config file
+  private layers: Record<Exclude<ConfigSource, 'default'>, Partial<AppConfig>> = { global: {}, repo: {}, env: {} };
+  private watchers: FSWatcher[] = [];
+  private reloadTimer?: NodeJS.Timeout;
 
-  constructor() {
+  constructor(options: ConfigServiceOptions = {}) {
+    super();
     const homeDir = os.homedir();
-    this.configPath = path.join(homeDir, '.coding-team', 'config.json');
+    this.configPath = options.configPath || path.join(homeDir, '.coding-team', 'config.json');
+    this.repoConfigPath = path.join(options.repoDir || process.cwd(), REPO_CONFIG_FILE);
+    this.env = options.env || process.env;
     this.config = { ...this.defaultConfig };
   }
 
@@ -32,6 +119,7 @@ export class ConfigService {
     } catch (error) {
       // If config doesn't exist, create it with defaults
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        await this.applyLayers({});
         await this.save();
       } else {
         throw error;
@@ -40,16 +128,132 @@ export class ConfigService {
   }
 
   async load(): Promise<void> {
-    const data = await fs.readFile(this.configPath, 'utf-8');
-    const loadedConfig = JSON.parse(data) as Partial<AppConfig>;
-    this.config = { ...this.defaultConfig, ...loadedConfig };
+    const raw = await this.readLayerFile(this.configPath);
+    if (!raw) {
+      throw Object.assign(new Error(`Config file ${this.configPath} not found`), { code: 'ENOENT' });
+    }
+    await this.applyLayers(this.validateGlobalLayer(raw));
+
+    // Write migrated files back in the current format
+    if (raw.version !== CONFIG_VERSION) {
+      await this.save();
+    }
+  }
+
+  // Read the repo and environment layers and put them on top of `global`, all or nothing
+  private async applyLayers(global: Partial<AppConfig>): Promise<void> {
+    const repo = await this.readLayerFile(this.repoConfigPath);
+    this.layers = {
+      global,
+      repo: repo
+        ? validateConfigLayer(migrateConfig(repo, this.repoConfigPath), this.repoConfigPath, {
+            defaults: this.defaultConfig,
+            allowedKeys: REPO_CONFIG_KEYS,
+          })
+        : {},
+      env: readEnvLayer(this.env),
+    };
+    this.resolve();
+  }
+
+  private validateGlobalLayer(raw: Record<string, unknown>): Partial<AppConfig> {
+    return validateConfigLayer(migrateConfig(raw, this.configPath), this.configPath, { defaults: this.defaultConfig });
+  }
+
+  // The parsed file, or undefined when it does not exist
+  private async readLayerFile(filePath: string): Promise<Record<string, unknown> | undefined> {
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${filePath}: ${(error as Error).message}`);
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error(`Invalid config in ${filePath}: expected a JSON object`);
+    }
+    return raw as Record<string, unknown>;
+  }
+
+  private resolve(): void {
+    const previous = this.config;
+    this.config = { ...this.defaultConfig, ...this.layers.global, ...this.layers.repo, ...this.layers.env };
 
     // Check environment variables for Claude path
-    if (!this.config.claudeExecutablePath && process.env.CLAUDE_EXECUTABLE_PATH) {
-      this.config.claudeExecutablePath = process.env.CLAUDE_EXECUTABLE_PATH;
+    if (!this.config.claudeExecutablePath && this.env.CLAUDE_EXECUTABLE_PATH) {
+      this.config.claudeExecutablePath = this.env.CLAUDE_EXECUTABLE_PATH;
+    }
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(this.config)]) as Set<keyof AppConfig>;
+    for (const key of keys) {
+      if (JSON.stringify(previous[key]) !== JSON.stringify(this.config[key])) {
+        const change: ConfigChange = {
+          key,
+          value: this.config[key],
+          previous: previous[key],
+          source: this.getSource(key),
+        };
+        this.emit('change', change);
+      }
     }
   }
 
+  // Reload the config files whenever they are edited on disk
+  watch(): void {
+    this.unwatch();
+    for (const file of [this.configPath, this.repoConfigPath]) {
+      // Watch the directory, since editors often replace the file rather than write to it
+      try {
+        const watcher = watch(path.dirname(file), (_, changed) => {
+          if (!changed || changed === path.basename(file)) {
+            this.scheduleReload();
+          }
+        });
+        watcher.on('error', (error) => console.error(`Stopped watching ${file}:`, error));
+        this.watchers.push(watcher);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  unwatch(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    clearTimeout(this.reloadTimer);
+  }
+
+  // Editors write in several steps; reload once they are done
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reload().catch((error) => {
+        // Keep the last valid config rather than applying a half-edited file
+        console.error('Ignoring invalid config change:', error);
+        this.emit('reloadFailed', error);
+      });
+    }, 100);
+  }
+
+  // Read every layer again, emitting 'change' for the values that differ
+  async reload(): Promise<void> {
+    const raw = await this.readLayerFile(this.configPath);
+    await this.applyLayers(raw ? this.validateGlobalLayer(raw) : {});
+  }
+
   async save(): Promise<void> {
     if (!this.config.autoSaveConfig) {
       return;
@@ -58,15 +262,22 @@ export class ConfigService {
     const configDir = path.dirname(this.configPath);
     await fs.mkdir(configDir, { recursive: true });
 
-    await fs.writeFile(this.configPath, JSON.stringify(this.config, null, 2));
+    await fs.writeFile(this.configPath, JSON.stringify({ version: CONFIG_VERSION, ...this.layers.global }, null, 2));
   }
 
   get<K extends keyof AppConfig>(key: K): AppConfig[K] {
     return this.config[key];
   }
 
+  // Set a value in the global config. Repo and environment overrides still take precedence.
   set<K extends keyof AppConfig>(key: K, value: AppConfig[K]): void {
-    this.config[key] = value;
+    // Unset values fall back to the lower layers instead of hiding the default
+    if (value === undefined) {
+      delete this.layers.global[key];
+    } else {
+      this.layers.global[key] = validateConfigValue(key, value);
+    }
+    this.resolve();
     if (this.config.autoSaveConfig) {
       this.save().catch(console.error);
     }
@@ -76,11 +287,32 @@ export class ConfigService {
     return { ...this.config };
   }
 
-  setClaudeExecutablePath(path: string): void {
-    this.config.claudeExecutablePath = path;
-    if (this.config.autoSaveConfig) {
-      this.save().catch(console.error);
+  // The layer the effective value of `key` comes from
+  getSource(key: keyof AppConfig): ConfigSource {
+    for (const source of ['env', 'repo', 'global'] as const) {
+      if (this.layers[source][key] !== undefined) {
+        return source;
+      }
     }
+    if (key === 'claudeExecutablePath' && this.config.claudeExecutablePath) {
+      return 'env';
+    }
+    return 'default';
+  }
+
+  // Every effective value with the layer it comes from
+  getResolved(): { [K in keyof AppConfig]: { value: AppConfig[K]; source: ConfigSource } } {
+    const keys = new Set([
+      ...Object.keys(this.defaultConfig),
+      ...Object.keys(this.config).filter((key) => this.config[key as keyof AppConfig] !== undefined),
+    ]) as Set<keyof AppConfig>;
+    return Object.fromEntries(
+      Array.from(keys, (key) => [key, { value: this.config[key], source: this.getSource(key) }]),
+    ) as { [K in keyof AppConfig]: { value: AppConfig[K]; source: ConfigSource } };
+  }
+
+  setClaudeExecutablePath(path: string): void {
+    this.set('claudeExecutablePath', path);
   }
 
   getClaudeExecutablePath(): string | undefined {
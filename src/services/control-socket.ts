@@ -0,0 +1,205 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import type { IpcArgs, IpcChannel, IpcData, IpcResult } from './ipc-contract.js';
+import type { Orchestrator } from './orchestrator.js';
+
+// The control socket speaks the IPC contract as newline-delimited JSON:
+// requests are answered by id, and subscribed connections also receive every event.
+export type ControlRequest = { id: number; channel: string; args?: unknown[] } | { id: number; subscribe: true };
+
+export type ControlMessage = { id: number; result: IpcResult<unknown> } | { event: string; payload: unknown };
+
+export function defaultSocketPath(): string {
+  return process.platform === 'win32'
+    ? '\\\\.\\pipe\\coding-team'
+    : path.join(os.homedir(), '.coding-team', 'control.sock');
+}
+
+function canConnect(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect(socketPath);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+function send(socket: net.Socket, message: ControlMessage): void {
+  if (!socket.destroyed) {
+    socket.write(`${JSON.stringify(message)}\n`);
+  }
+}
+
+// Serves an orchestrator to other processes, such as the CLI in another terminal
+export class ControlServer {
+  private orchestrator: Orchestrator;
+  private socketPath: string;
+  private server?: net.Server;
+  private connections: Set<net.Socket> = new Set();
+  private subscribers: Set<net.Socket> = new Set();
+  private forwardEvent = (channel: string, payload: unknown) => {
+    for (const socket of this.subscribers) {
+      send(socket, { event: channel, payload });
+    }
+  };
+
+  constructor(orchestrator: Orchestrator, socketPath: string = defaultSocketPath()) {
+    this.orchestrator = orchestrator;
+    this.socketPath = socketPath;
+  }
+
+  async listen(): Promise<void> {
+    if (process.platform !== 'win32') {
+      if (await canConnect(this.socketPath)) {
+        throw new Error(`A daemon is already listening on ${this.socketPath}`);
+      }
+      // Left behind by a daemon that did not shut down cleanly
+      await fs.rm(this.socketPath, { force: true });
+      await fs.mkdir(path.dirname(this.socketPath), { recursive: true });
+    }
+
+    const server = net.createServer((socket) => this.serve(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    if (process.platform !== 'win32') {
+      // Whoever can connect can run agents, so only the owner may
+      await fs.chmod(this.socketPath, 0o600);
+    }
+    this.orchestrator.on('event', this.forwardEvent);
+  }
+
+  async close(): Promise<void> {
+    this.orchestrator.off('event', this.forwardEvent);
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private serve(socket: net.Socket): void {
+    this.connections.add(socket);
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.connections.delete(socket);
+      this.subscribers.delete(socket);
+    });
+
+    const lines = readline.createInterface({ input: socket, crlfDelay: Number.POSITIVE_INFINITY });
+    lines.on('line', (line) => {
+      if (line.trim() !== '') {
+        this.handle(socket, line).catch((error) => console.error('Control socket request failed:', error));
+      }
+    });
+  }
+
+  private async handle(socket: net.Socket, line: string): Promise<void> {
+    let request: ControlRequest;
+    try {
+      request = JSON.parse(line) as ControlRequest;
+      if (typeof request !== 'object' || request === null || typeof request.id !== 'number') {
+        throw new Error('missing id');
+      }
+    } catch (error) {
+      send(socket, { id: -1, result: { success: false, error: `Invalid request: ${(error as Error).message}` } });
+      return;
+    }
+
+    if ('subscribe' in request) {
+      this.subscribers.add(socket);
+      send(socket, { id: request.id, result: { success: true, data: undefined } });
+      return;
+    }
+    const args = Array.isArray(request.args) ? request.args : [];
+    send(socket, { id: request.id, result: await this.orchestrator.invoke(request.channel as IpcChannel, args) });
+  }
+}
+
+// Drives a daemon through its control socket
+export class ControlClient extends EventEmitter {
+  private socketPath: string;
+  private socket?: net.Socket;
+  private requestCounter = 0;
+  private pending: Map<number, (result: IpcResult<unknown>) => void> = new Map();
+
+  constructor(socketPath: string = defaultSocketPath()) {
+    super();
+    this.socketPath = socketPath;
+  }
+
+  async connect(): Promise<void> {
+    const socket = net.connect(this.socketPath);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', (error: NodeJS.ErrnoException) => {
+        reject(
+          error.code === 'ENOENT' || error.code === 'ECONNREFUSED'
+            ? new Error(`No daemon is running on ${this.socketPath}; start one with "coding-team daemon"`)
+            : error,
+        );
+      });
+    });
+    this.socket = socket;
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      for (const resolve of this.pending.values()) {
+        resolve({ success: false, error: 'The connection to the daemon was closed' });
+      }
+      this.pending.clear();
+      this.emit('close');
+    });
+    const lines = readline.createInterface({ input: socket, crlfDelay: Number.POSITIVE_INFINITY });
+    lines.on('line', (line) => {
+      const message = JSON.parse(line) as ControlMessage;
+      if ('event' in message) {
+        this.emit('event', message.event, message.payload);
+      } else {
+        this.pending.get(message.id)?.(message.result);
+        this.pending.delete(message.id);
+      }
+    });
+  }
+
+  invoke<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResult<IpcData<C>>> {
+    return this.request({ id: ++this.requestCounter, channel, args }) as Promise<IpcResult<IpcData<C>>>;
+  }
+
+  // Receive every event of the daemon as 'event' with the channel and payload
+  async subscribe(): Promise<void> {
+    const result = await this.request({ id: ++this.requestCounter, subscribe: true });
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  close(): void {
+    this.socket?.end();
+  }
+
+  private request(request: ControlRequest): Promise<IpcResult<unknown>> {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      return Promise.resolve({ success: false, error: 'Not connected to the daemon' });
+    }
+    return new Promise((resolve) => {
+      this.pending.set(request.id, resolve);
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+  }
+}
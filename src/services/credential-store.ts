@@ -0,0 +1,316 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { WriteQueue } from './write-queue.js';
+
+// Version of the credentials file format written by this build
+export const CREDENTIALS_VERSION = 1;
+
+// Encrypts secrets at rest. The Electron app provides one backed by the OS keyring.
+export interface SecretCipher {
+  // Recorded with every secret it encrypted, to pick the cipher that decrypts it
+  readonly name: string;
+  // Checked when the store loads; an unavailable keyring falls back to the key file
+  isAvailable(): boolean;
+  encrypt(plaintext: string): Promise<string>;
+  decrypt(ciphertext: string): Promise<string>;
+}
+
+// What is known of a secret outside the store. Values are never returned over IPC.
+export interface SecretInfo {
+  name: string;
+  // Cipher the value is encrypted with, e.g. keyring or file
+  storage: string;
+  // Set when this process cannot decrypt the value, e.g. a keyring secret in the headless daemon
+  locked?: boolean;
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+interface SecretRecord extends Omit<SecretInfo, 'locked'> {
+  value: string;
+}
+
+interface CredentialsFile {
+  version: number;
+  secrets: SecretRecord[];
+}
+
+export interface CredentialStoreOptions {
+  // ~/.coding-team/credentials.json by default
+  storePath?: string;
+  // Key of the file cipher, ~/.coding-team/credentials.key by default
+  keyPath?: string;
+  keyring?: SecretCipher;
+}
+
+// Secrets are injected under their name, so names are environment variable names
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Shorter values would be found in unrelated text
+const MIN_REDACTED_LENGTH = 4;
+
+// Fields whose values are credentials wherever they appear, e.g. a token in the config
+const CREDENTIAL_FIELD = /token|secret|password|api[-_]?key|authorization/i;
+
+export const REDACTED = '[redacted]';
+
+// Mask the string values of credential fields in a JSON-like value, such as a token written in the config
+// rather than stored as a secret. Returns a copy.
+export function maskCredentialFields<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => maskCredentialFields(item)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        typeof item === 'string' && CREDENTIAL_FIELD.test(key) ? REDACTED : maskCredentialFields(item),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// AES-256-GCM with a random key in a file only the user can read. Used where no keyring is available,
+// such as Linux without a secret service or the headless daemon.
+export class FileKeyCipher implements SecretCipher {
+  readonly name = 'file';
+  private keyPath: string;
+  private key?: Promise<Buffer>;
+
+  constructor(keyPath: string) {
+    this.keyPath = keyPath;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async encrypt(plaintext: string): Promise<string> {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', await this.loadKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  async decrypt(ciphertext: string): Promise<string> {
+    const data = Buffer.from(ciphertext, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', await this.loadKey(), data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf-8');
+  }
+
+  private loadKey(): Promise<Buffer> {
+    this.key ??= this.readOrCreateKey();
+    return this.key;
+  }
+
+  private async readOrCreateKey(): Promise<Buffer> {
+    try {
+      return Buffer.from(await fs.readFile(this.keyPath, 'utf-8'), 'base64');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const key = crypto.randomBytes(32);
+    await fs.mkdir(path.dirname(this.keyPath), { recursive: true });
+    // wx: another process that created the key first wins, and its key is used
+    try {
+      await fs.writeFile(this.keyPath, key.toString('base64'), { mode: 0o600, flag: 'wx' });
+      return key;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return Buffer.from(await fs.readFile(this.keyPath, 'utf-8'), 'base64');
+      }
+      throw error;
+    }
+  }
+}
+
+// API keys and repository tokens, encrypted at rest. Instances get the secrets they are given by name
+// in their environment, and every value is masked in what the app shows or writes.
+export class CredentialStore {
+  private storePath: string;
+  private keyring?: SecretCipher;
+  private fileCipher: FileKeyCipher;
+  private records: Map<string, SecretRecord> = new Map();
+  // Decrypted values, for injection and redaction
+  private values: Map<string, string> = new Map();
+  private writes = new WriteQueue();
+
+  constructor(options: CredentialStoreOptions = {}) {
+    const directory = path.join(os.homedir(), '.coding-team');
+    this.storePath = options.storePath || path.join(directory, 'credentials.json');
+    this.fileCipher = new FileKeyCipher(options.keyPath || path.join(directory, 'credentials.key'));
+    this.keyring = options.keyring;
+  }
+
+  async load(): Promise<void> {
+    let stored: CredentialsFile;
+    try {
+      stored = JSON.parse(await fs.readFile(this.storePath, 'utf-8')) as CredentialsFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    if (stored.version > CREDENTIALS_VERSION) {
+      throw new Error(
+        `Credentials in ${this.storePath} have version ${stored.version}, but this version of Coding Team only reads up to ${CREDENTIALS_VERSION}`,
+      );
+    }
+
+    this.records.clear();
+    this.values.clear();
+    for (const record of stored.secrets) {
+      this.records.set(record.name, record);
+      // A secret this process cannot decrypt stays locked, and is kept as it is in the file
+      const cipher = this.cipherFor(record.storage);
+      if (!cipher) {
+        console.warn(`Secret ${record.name} is stored in the ${record.storage} storage, which is not available`);
+        continue;
+      }
+      try {
+        this.values.set(record.name, await cipher.decrypt(record.value));
+      } catch (error) {
+        console.warn(`Cannot decrypt secret ${record.name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  save(): Promise<void> {
+    const file: CredentialsFile = { version: CREDENTIALS_VERSION, secrets: Array.from(this.records.values()) };
+    const snapshot = JSON.stringify(file, null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      await fs.writeFile(this.storePath, snapshot, { mode: 0o600 });
+    });
+  }
+
+  // Wait for pending writes to reach the disk
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+
+  list(): SecretInfo[] {
+    return Array.from(this.records.values()).map((record) => this.toInfo(record));
+  }
+
+  has(name: string): boolean {
+    return this.records.has(name);
+  }
+
+  get(name: string): string | undefined {
+    return this.values.get(name);
+  }
+
+  async set(name: string, value: string): Promise<SecretInfo> {
+    if (!SECRET_NAME.test(name)) {
+      throw new Error(`Secret name ${name} must be an environment variable name, such as GITHUB_TOKEN`);
+    }
+    if (this.records.has(name)) {
+      throw new Error(`Secret ${name} already exists; rotate it to change its value`);
+    }
+    return this.store(name, value, { createdAt: new Date().toISOString() });
+  }
+
+  // Replace the value of a secret. Instances get the new value from their next query.
+  async rotate(name: string, value: string): Promise<SecretInfo> {
+    const record = this.requireRecord(name);
+    return this.store(name, value, { createdAt: record.createdAt, rotatedAt: new Date().toISOString() });
+  }
+
+  async delete(name: string): Promise<void> {
+    this.requireRecord(name);
+    this.records.delete(name);
+    this.values.delete(name);
+    await this.save();
+  }
+
+  // The environment variables for the named secrets. Throws for a secret that is missing or locked,
+  // since the instance would work without a credential it was configured with.
+  environment(names: string[]): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const name of names) {
+      const record = this.requireRecord(name);
+      const value = this.values.get(name);
+      if (value === undefined) {
+        throw new Error(`Secret ${name} is stored in the ${record.storage} storage, which cannot be decrypted here`);
+      }
+      env[name] = value;
+    }
+    return env;
+  }
+
+  // Replace every secret value in `text` with its name
+  redact(text: string): string {
+    let redacted = text;
+    // Longest first, so a secret containing another one is masked whole
+    const secrets = Array.from(this.values.entries())
+      .filter(([, value]) => value.length >= MIN_REDACTED_LENGTH)
+      .sort(([, a], [, b]) => b.length - a.length);
+    for (const [name, value] of secrets) {
+      redacted = redacted.split(value).join(`[secret ${name}]`);
+    }
+    return redacted;
+  }
+
+  // Redact every string in a JSON-like value, returning a copy
+  redactValue<T>(value: T): T {
+    if (this.values.size === 0) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return this.redact(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item)) as T;
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item)])) as T;
+    }
+    return value;
+  }
+
+  private async store(
+    name: string,
+    value: string,
+    dates: Pick<SecretRecord, 'createdAt' | 'rotatedAt'>,
+  ): Promise<SecretInfo> {
+    if (value === '') {
+      throw new Error(`Secret ${name} cannot be empty`);
+    }
+    const cipher = this.keyring?.isAvailable() ? this.keyring : this.fileCipher;
+    const record: SecretRecord = { name, storage: cipher.name, value: await cipher.encrypt(value), ...dates };
+    this.records.set(name, record);
+    this.values.set(name, value);
+    await this.save();
+    return this.toInfo(record);
+  }
+
+  private cipherFor(storage: string): SecretCipher | undefined {
+    if (storage === this.fileCipher.name) {
+      return this.fileCipher;
+    }
+    return this.keyring?.name === storage && this.keyring.isAvailable() ? this.keyring : undefined;
+  }
+
+  private requireRecord(name: string): SecretRecord {
+    const record = this.records.get(name);
+    if (!record) {
+      throw new Error(`Secret ${name} is not set`);
+    }
+    return record;
+  }
+
+  private toInfo({ value: _value, ...info }: SecretRecord): SecretInfo {
+    return this.values.has(info.name) ? info : { ...info, locked: true };
+  }
+}
@@ -0,0 +1,151 @@
+import {
+  type Issue,
+  type IssueComment,
+  type IssueFilter,
+  type IssueTracker,
+  type NewIssue,
+  matchesFilter,
+} from './issue-tracker.js';
+
+export interface GitHubIssueTrackerOptions {
+  owner: string;
+  repo: string;
+  token?: string;
+  apiUrl?: string;
+}
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  html_url: string;
+  labels: Array<string | { name?: string }>;
+  assignees?: Array<{ login: string }>;
+  pull_request?: unknown;
+}
+
+interface GitHubComment {
+  body: string;
+  created_at: string;
+  user: { login: string } | null;
+}
+
+function toIssue(data: GitHubIssue): Issue {
+  return {
+    id: String(data.number),
+    title: data.title,
+    body: data.body ?? '',
+    state: data.state,
+    labels: data.labels.map((label) => (typeof label === 'string' ? label : (label.name ?? ''))).filter(Boolean),
+    assignees: (data.assignees ?? []).map((assignee) => assignee.login),
+    url: data.html_url,
+  };
+}
+
+// Issue tracker backed by the GitHub REST API
+export class GitHubIssueTracker implements IssueTracker {
+  private options: GitHubIssueTrackerOptions;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: GitHubIssueTrackerOptions, fetchImpl: typeof fetch = fetch) {
+    if (!options.owner || !options.repo) {
+      throw new Error('GitHub issue tracker requires an owner and a repo');
+    }
+    this.options = { ...options, apiUrl: (options.apiUrl || 'https://api.github.com').replace(/\/+$/, '') };
+    this.fetchImpl = fetchImpl;
+  }
+
+  private async request<T>(method: string, endpoint: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+    if (this.options.token) {
+      headers.Authorization = `Bearer ${this.options.token}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const url = `${this.options.apiUrl}/repos/${this.options.owner}/${this.options.repo}${endpoint}`;
+    const response = await this.fetchImpl(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        message = ((await response.json()) as { message?: string }).message ?? message;
+      } catch {
+        // Keep the status text
+      }
+      throw new Error(`GitHub API ${method} ${endpoint} failed with ${response.status}: ${message}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  async listIssues(filter: IssueFilter = {}): Promise<Issue[]> {
+    const params = new URLSearchParams({ state: filter.state ?? 'open', per_page: '100' });
+    if (filter.labels && filter.labels.length > 0) {
+      params.set('labels', filter.labels.join(','));
+    }
+    if (filter.assignee) {
+      params.set('assignee', filter.assignee);
+    }
+
+    const data = await this.request<GitHubIssue[]>('GET', `/issues?${params}`);
+    // The issues endpoint also returns pull requests
+    return data
+      .filter((item) => !item.pull_request)
+      .map(toIssue)
+      .filter((issue) => matchesFilter(issue, filter));
+  }
+
+  async getIssue(id: string): Promise<Issue> {
+    const [issue, comments] = await Promise.all([
+      this.request<GitHubIssue>('GET', `/issues/${encodeURIComponent(id)}`),
+      this.request<GitHubComment[]>('GET', `/issues/${encodeURIComponent(id)}/comments?per_page=100`),
+    ]);
+    return {
+      ...toIssue(issue),
+      comments: comments.map(
+        (comment): IssueComment => ({
+          author: comment.user?.login ?? 'ghost',
+          body: comment.body,
+          createdAt: comment.created_at,
+        }),
+      ),
+    };
+  }
+
+  async createIssue(issue: NewIssue): Promise<Issue> {
+    return toIssue(await this.request<GitHubIssue>('POST', '/issues', issue));
+  }
+
+  async comment(id: string, body: string): Promise<void> {
+    await this.request('POST', `/issues/${encodeURIComponent(id)}/comments`, { body });
+  }
+
+  async addLabels(id: string, labels: string[]): Promise<void> {
+    await this.request('POST', `/issues/${encodeURIComponent(id)}/labels`, { labels });
+  }
+
+  async removeLabel(id: string, label: string): Promise<void> {
+    await this.request('DELETE', `/issues/${encodeURIComponent(id)}/labels/${encodeURIComponent(label)}`);
+  }
+
+  async assign(id: string, assignees: string[]): Promise<void> {
+    await this.request('POST', `/issues/${encodeURIComponent(id)}/assignees`, { assignees });
+  }
+
+  async close(id: string): Promise<void> {
+    await this.request('PATCH', `/issues/${encodeURIComponent(id)}`, { state: 'closed' });
+  }
+}
@@ -0,0 +1,55 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { SessionMode } from './cassette-backend.js';
+import type { Issue } from './issue-tracker.js';
+import type { WorktreeInfo } from './worktree-manager.js';
+import { WriteQueue } from './write-queue.js';
+
+// What we keep about an instance across app restarts
+export interface InstanceRecord {
+  id: string;
+  name: string;
+  workingDirectory: string;
+  createdAt: string;
+  personaId?: string;
+  worktree?: WorktreeInfo;
+  issue?: Issue;
+  sessionId?: string;
+  sessionMode?: SessionMode;
+  mcpServers?: string[];
+  secrets?: string[];
+}
+
+export class InstanceStore {
+  private storePath: string;
+  private writes = new WriteQueue();
+
+  constructor(storePath?: string) {
+    this.storePath = storePath || path.join(os.homedir(), '.coding-team', 'instances.json');
+  }
+
+  async load(): Promise<InstanceRecord[]> {
+    try {
+      const data = await fs.readFile(this.storePath, 'utf-8');
+      return JSON.parse(data) as InstanceRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  save(records: InstanceRecord[]): Promise<void> {
+    const snapshot = JSON.stringify(records, null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      await fs.writeFile(this.storePath, snapshot);
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+}
@@ -0,0 +1,71 @@
+import type { ClaudeManager, InstanceTransition, RecoveryPolicy } from './claude-manager.js';
+
+export interface InstanceWatchdogOptions {
+  // Maximum duration of a single query, in milliseconds. 0 disables the timeout.
+  timeout: number;
+  recoveryPolicy: RecoveryPolicy;
+}
+
+// Aborts queries that run past the timeout and recovers instances whose query ended in the error state
+export class InstanceWatchdog {
+  private manager: ClaudeManager;
+  private options: InstanceWatchdogOptions;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private onTransition = (transition: InstanceTransition) => this.handleTransition(transition);
+
+  constructor(manager: ClaudeManager, options: InstanceWatchdogOptions) {
+    this.manager = manager;
+    this.options = { ...options };
+  }
+
+  start(): void {
+    this.manager.on('instanceTransition', this.onTransition);
+  }
+
+  stop(): void {
+    this.manager.off('instanceTransition', this.onTransition);
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  setOptions(options: Partial<InstanceWatchdogOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  private handleTransition({ instance, from, to }: InstanceTransition): void {
+    this.clearTimer(instance.id);
+
+    if (to === 'busy' && this.options.timeout > 0) {
+      const timeout = this.options.timeout;
+      const timer = setTimeout(() => {
+        this.timers.delete(instance.id);
+        this.manager.abortQuery(instance.id, `timed out after ${timeout}ms`);
+      }, timeout);
+      this.timers.set(instance.id, timer);
+    }
+
+    // Only a failed query is recovered: an instance created in error, e.g. because one of its MCP servers
+    // failed to start, stays there until the cause is fixed
+    if (to === 'error' && from === 'busy') {
+      // Recover on the next tick so listeners of the error transition see the error state first
+      setImmediate(() => {
+        if (instance.status !== 'error') {
+          return;
+        }
+        this.manager.recoverInstance(instance.id, this.options.recoveryPolicy).catch((error) => {
+          console.error(`Failed to recover instance ${instance.id}:`, error);
+        });
+      });
+    }
+  }
+
+  private clearTimer(instanceId: string): void {
+    const timer = this.timers.get(instanceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(instanceId);
+    }
+  }
+}
@@ -0,0 +1,446 @@
+import type { CiRun } from './ci-monitor.js';
+import type {
+  ClaudeInstance,
+  CreateInstanceOptions,
+  InstanceStatus,
+  StopInstanceOptions,
+  StructuredOptions,
+} from './claude-manager.js';
+import type { ClaudeStreamEvent } from './claude-stream.js';
+import type { AppConfig, ConfigChange, ConfigSource } from './config.js';
+import type { SecretInfo } from './credential-store.js';
+import type { Issue, IssueFilter } from './issue-tracker.js';
+import type { JsonSchema } from './json-schema.js';
+import type { McpServerStatus } from './mcp-servers.js';
+import type { EnqueueMergeInput, MergeEntry } from './merge-queue.js';
+import type { AgentMessage, ConversationGraph, MessageQuery, SendAgentMessageInput } from './message-bus.js';
+import type {
+  ApprovalRequest,
+  ApprovalResolution,
+  ApprovalResponse,
+  AuditQuery,
+  PermissionAuditEntry,
+} from './permission-broker.js';
+import type { Persona } from './personas.js';
+import type { Review, ReviewRequest } from './review-service.js';
+import type { EnqueueTaskInput, Task } from './task-queue.js';
+import type { TranscriptFormat, TranscriptPage, TranscriptQuery } from './transcript-store.js';
+import type { UsageSummary } from './usage-tracker.js';
+import type { StartWorkflowInput, WorkflowRun } from './workflow-engine.js';
+import type { WorkflowDefinition } from './workflows.js';
+
+// The IPC contract between the renderer (through the preload script) and the main process.
+// The preload script only imports the types below, since it cannot load other modules at runtime.
+
+// What the renderer gets to see of an instance
+export function toInstanceSummary(instance: ClaudeInstance) {
+  return {
+    id: instance.id,
+    name: instance.name,
+    status: instance.status,
+    statusReason: instance.statusReason,
+    workingDirectory: instance.workingDirectory,
+    createdAt: instance.createdAt,
+    personaId: instance.persona?.id,
+    personaName: instance.persona?.name,
+    branch: instance.worktree?.branch,
+    issueId: instance.issue?.id,
+    sessionId: instance.sessionId,
+    sessionMode: instance.sessionMode,
+    mcpServers: instance.mcpServers,
+    secrets: instance.secrets,
+  };
+}
+
+export type InstanceSummary = ReturnType<typeof toInstanceSummary>;
+
+// Every invoke channel answers with this envelope
+export type IpcResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export type ResolvedConfig = { [K in keyof AppConfig]: { value: AppConfig[K]; source: ConfigSource } };
+
+// Invoke channels with their arguments and the data of a successful result.
+// Optional arguments are `| undefined` so that every position has a validator.
+export interface IpcContract {
+  'claude:create-instance': { args: [name: string, options: CreateInstanceOptions | undefined]; data: InstanceSummary };
+  'claude:send-message': { args: [instanceId: string, message: string]; data: string };
+  'claude:send-structured': {
+    args: [instanceId: string, prompt: string, schema: JsonSchema, options: StructuredOptions | undefined];
+    data: unknown;
+  };
+  'claude:stop-instance': { args: [instanceId: string, options: StopInstanceOptions | undefined]; data: undefined };
+  'claude:get-instances': { args: []; data: InstanceSummary[] };
+  'claude:get-personas': { args: []; data: Persona[] };
+  'claude:assign-issue': { args: [instanceId: string, issueId: string]; data: Issue | undefined };
+  'claude:get-transcript': { args: [instanceId: string, query: TranscriptQuery | undefined]; data: TranscriptPage };
+  'claude:export-transcript': { args: [instanceId: string, format: TranscriptFormat]; data: string };
+  'tasks:enqueue': { args: [input: EnqueueTaskInput]; data: Task };
+  'tasks:cancel': { args: [taskId: string]; data: Task };
+  'tasks:list': { args: []; data: Task[] };
+  'issues:list': { args: [filter: IssueFilter | undefined]; data: Issue[] };
+  'issues:get': { args: [issueId: string]; data: Issue };
+  'issues:comment': { args: [issueId: string, body: string]; data: undefined };
+  'issues:add-labels': { args: [issueId: string, labels: string[]]; data: undefined };
+  'issues:remove-label': { args: [issueId: string, label: string]; data: undefined };
+  'issues:assign': { args: [issueId: string, assignees: string[]]; data: undefined };
+  'issues:close': { args: [issueId: string]; data: undefined };
+  'reviews:request': { args: [request: ReviewRequest]; data: Review };
+  'reviews:list': { args: []; data: Review[] };
+  'reviews:get': { args: [reviewId: string]; data: Review };
+  'merge-queue:enqueue': { args: [input: EnqueueMergeInput]; data: MergeEntry };
+  'merge-queue:remove': { args: [entryId: string]; data: undefined };
+  'merge-queue:list': { args: []; data: MergeEntry[] };
+  'merge-queue:get-log': { args: [entryId: string]; data: string };
+  'ci:run-now': { args: []; data: CiRun };
+  'ci:get-runs': { args: []; data: CiRun[] };
+  'ci:get-report': { args: [runId: string]; data: string };
+  'usage:get-summary': { args: []; data: UsageSummary };
+  'permissions:list-pending': { args: []; data: ApprovalRequest[] };
+  'permissions:respond': { args: [approvalId: string, response: ApprovalResponse]; data: undefined };
+  'permissions:get-audit': { args: [query: AuditQuery | undefined]; data: PermissionAuditEntry[] };
+  'messages:send': { args: [input: SendAgentMessageInput]; data: AgentMessage };
+  'messages:list': { args: [query: MessageQuery | undefined]; data: AgentMessage[] };
+  'messages:get-graph': { args: []; data: ConversationGraph };
+  'workflows:list': { args: []; data: WorkflowDefinition[] };
+  'workflows:start': { args: [input: StartWorkflowInput]; data: WorkflowRun };
+  'workflows:list-runs': { args: []; data: WorkflowRun[] };
+  'workflows:get-run': { args: [runId: string]; data: WorkflowRun };
+  'workflows:cancel-run': { args: [runId: string]; data: WorkflowRun };
+  'secrets:list': { args: []; data: SecretInfo[] };
+  'secrets:set': { args: [name: string, value: string]; data: SecretInfo };
+  'secrets:rotate': { args: [name: string, value: string]; data: SecretInfo };
+  'secrets:delete': { args: [name: string]; data: undefined };
+  'mcp:list-servers': { args: []; data: McpServerStatus[] };
+  'mcp:check-server': { args: [name: string]; data: McpServerStatus };
+  'config:get': { args: []; data: AppConfig };
+  'config:get-resolved': { args: []; data: ResolvedConfig };
+  'config:set': { args: [key: keyof AppConfig, value: unknown]; data: ResolvedConfig[keyof AppConfig] };
+  'config:set-claude-path': { args: [path: string]; data: undefined };
+}
+
+export type IpcChannel = keyof IpcContract;
+export type IpcArgs<C extends IpcChannel> = IpcContract[C]['args'];
+export type IpcData<C extends IpcChannel> = IpcContract[C]['data'];
+// Handlers of channels without data return nothing
+export type IpcHandlerResult<C extends IpcChannel> = IpcData<C> extends undefined
+  ? Promise<void> | void
+  : IpcData<C> | Promise<IpcData<C>>;
+
+// Lifecycle events of ClaudeManager, pushed to every window on claude:manager-event
+export type ManagerEvent =
+  | { type: 'instanceCreated' | 'instanceBusy' | 'instanceReady' | 'instanceStopped'; instance: InstanceSummary }
+  | { type: 'instanceError'; instance: InstanceSummary; error: string };
+
+// Sent on claude:instance-changed for every status transition
+export interface InstanceChange {
+  instance: InstanceSummary;
+  from: InstanceStatus | undefined;
+  to: InstanceStatus;
+  reason: string;
+}
+
+// Channels the main process pushes to the renderer, with their payload
+export interface IpcEvents {
+  'claude:manager-event': ManagerEvent;
+  'claude:instance-changed': InstanceChange;
+  'config:changed': ConfigChange;
+  'permissions:approval-requested': ApprovalRequest;
+  'permissions:approval-resolved': ApprovalResolution;
+  // A message was queued or its delivery status changed
+  'messages:changed': AgentMessage;
+  // A workflow run moved to another stage, or a stage's progress changed
+  'workflows:run-updated': WorkflowRun;
+  [channel: `claude:stream:${string}`]: ClaudeStreamEvent;
+}
+
+export function streamChannel(instanceId: string): `claude:stream:${string}` {
+  return `claude:stream:${instanceId}`;
+}
+
+// Checks an untrusted value from the renderer and returns it typed, or throws
+type Check<T> = (value: unknown, name: string) => T;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const text: Check<string> = (value, name) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${name} must be a non-empty string`);
+  }
+  return value;
+};
+
+const integer: Check<number> = (value, name) => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return value as number;
+};
+
+const flag: Check<boolean> = (value, name) => {
+  if (typeof value !== 'boolean') {
+    throw new Error(`${name} must be true or false`);
+  }
+  return value;
+};
+
+const anything: Check<unknown> = (value) => value;
+
+function optional<T>(check: Check<T>): Check<T | undefined> {
+  return (value, name) => (value === undefined || value === null ? undefined : check(value, name));
+}
+
+function oneOf<T extends string>(...options: T[]): Check<T> {
+  return (value, name) => {
+    if (!options.includes(value as T)) {
+      throw new Error(`${name} must be one of ${options.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+function arrayOf<T>(check: Check<T>): Check<T[]> {
+  return (value, name) => {
+    if (!Array.isArray(value)) {
+      throw new Error(`${name} must be an array`);
+    }
+    return value.map((item, index) => check(item, `${name}[${index}]`));
+  };
+}
+
+const texts = arrayOf(text);
+
+// Fields not in the shape are rejected rather than passed on
+function object<T>(shape: { [K in keyof T]-?: Check<T[K]> }): Check<T> {
+  return (value, name) => {
+    if (!isObject(value)) {
+      throw new Error(`${name} must be an object`);
+    }
+    for (const key of Object.keys(value)) {
+      if (!Object.hasOwn(shape, key)) {
+        throw new Error(`${name} has an unknown field "${key}"`);
+      }
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, check] of Object.entries(shape) as Array<[string, Check<unknown>]>) {
+      const checked = check(value[key], `${name}.${key}`);
+      if (checked !== undefined) {
+        result[key] = checked;
+      }
+    }
+    return result as T;
+  };
+}
+
+const createInstanceOptions = object<CreateInstanceOptions>({
+  workingDirectory: optional(text),
+  personaId: optional(text),
+  repository: optional(text),
+  ticket: optional(text),
+  baseRef: optional(text),
+  issueId: optional(text),
+  sessionMode: optional(oneOf('live', 'record', 'replay')),
+  mcpServers: optional(texts),
+  secrets: optional(texts),
+});
+
+const structuredOptions = object<StructuredOptions>({
+  maxRetries: optional(integer),
+  whenReady: optional(flag),
+});
+
+// Schemas are checked by ClaudeManager.sendStructured, which reports what is wrong with them
+const jsonSchema = anything as Check<JsonSchema>;
+
+const stopInstanceOptions = object<StopInstanceOptions>({
+  worktree: optional(oneOf('keep', 'remove', 'archive')),
+  reason: optional(text),
+});
+
+const transcriptQuery = object<TranscriptQuery>({
+  offset: optional(integer),
+  limit: optional(integer),
+  types: optional(arrayOf(oneOf('prompt', 'text', 'tool-use', 'tool-result', 'result', 'error'))),
+});
+
+const enqueueTaskInput = object<EnqueueTaskInput>({
+  prompt: text,
+  personaId: optional(text),
+  workingDirectory: optional(text),
+  priority: optional(integer),
+  dependsOn: optional(texts),
+  maxAttempts: optional(integer),
+});
+
+const issueFilter = object<IssueFilter>({
+  state: optional(oneOf('open', 'closed', 'all')),
+  labels: optional(texts),
+  assignee: optional(text),
+});
+
+const reviewRequest = object<ReviewRequest>({
+  repository: text,
+  branch: text,
+  baseBranch: optional(text),
+  authorInstanceId: optional(text),
+  reviewerInstanceId: optional(text),
+  maxIterations: optional(integer),
+});
+
+const enqueueMergeInput = object<EnqueueMergeInput>({
+  repository: text,
+  branch: text,
+  targetBranch: optional(text),
+  authorInstanceId: optional(text),
+  reviewId: optional(text),
+  headCommit: optional(text),
+});
+
+const auditQuery = object<AuditQuery>({
+  instanceId: optional(text),
+  limit: optional(integer),
+});
+
+const sendAgentMessageInput = object<SendAgentMessageInput>({
+  from: optional(text),
+  to: text,
+  body: text,
+  kind: optional(oneOf('message', 'handoff')),
+  threadId: optional(text),
+});
+
+const messageQuery = object<MessageQuery>({
+  threadId: optional(text),
+  instanceId: optional(text),
+});
+
+// Input values are free text, so only their type is checked
+const workflowInputValues: Check<Record<string, string>> = (value, name) => {
+  if (!isObject(value) || !Object.values(value).every((item) => typeof item === 'string')) {
+    throw new Error(`${name} must be an object of strings`);
+  }
+  return value as Record<string, string>;
+};
+
+const startWorkflowInput = object<StartWorkflowInput>({
+  workflowId: text,
+  input: optional(workflowInputValues),
+  workingDirectory: text,
+  issueId: optional(text),
+});
+
+// Config values are validated by ConfigService against the config schema
+const configKey = text as Check<keyof AppConfig>;
+
+type ArgChecks<A extends unknown[]> = { [I in keyof A]: [name: string, check: Check<A[I]>] };
+
+export const IPC_ARGUMENTS: { [C in IpcChannel]: ArgChecks<IpcArgs<C>> } = {
+  'claude:create-instance': [
+    ['name', text],
+    ['options', optional(createInstanceOptions)],
+  ],
+  'claude:send-message': [
+    ['instanceId', text],
+    ['message', text],
+  ],
+  'claude:send-structured': [
+    ['instanceId', text],
+    ['prompt', text],
+    ['schema', jsonSchema],
+    ['options', optional(structuredOptions)],
+  ],
+  'claude:stop-instance': [
+    ['instanceId', text],
+    ['options', optional(stopInstanceOptions)],
+  ],
+  'claude:get-instances': [],
+  'claude:get-personas': [],
+  'claude:assign-issue': [
+    ['instanceId', text],
+    ['issueId', text],
+  ],
+  'claude:get-transcript': [
+    ['instanceId', text],
+    ['query', optional(transcriptQuery)],
+  ],
+  'claude:export-transcript': [
+    ['instanceId', text],
+    ['format', oneOf('markdown', 'json')],
+  ],
+  'tasks:enqueue': [['input', enqueueTaskInput]],
+  'tasks:cancel': [['taskId', text]],
+  'tasks:list': [],
+  'issues:list': [['filter', optional(issueFilter)]],
+  'issues:get': [['issueId', text]],
+  'issues:comment': [
+    ['issueId', text],
+    ['body', text],
+  ],
+  'issues:add-labels': [
+    ['issueId', text],
+    ['labels', texts],
+  ],
+  'issues:remove-label': [
+    ['issueId', text],
+    ['label', text],
+  ],
+  'issues:assign': [
+    ['issueId', text],
+    ['assignees', texts],
+  ],
+  'issues:close': [['issueId', text]],
+  'reviews:request': [['request', reviewRequest]],
+  'reviews:list': [],
+  'reviews:get': [['reviewId', text]],
+  'merge-queue:enqueue': [['input', enqueueMergeInput]],
+  'merge-queue:remove': [['entryId', text]],
+  'merge-queue:list': [],
+  'merge-queue:get-log': [['entryId', text]],
+  'ci:run-now': [],
+  'ci:get-runs': [],
+  'ci:get-report': [['runId', text]],
+  'usage:get-summary': [],
+  'permissions:list-pending': [],
+  'permissions:respond': [
+    ['approvalId', text],
+    ['response', oneOf('approve', 'deny', 'always-allow')],
+  ],
+  'permissions:get-audit': [['query', optional(auditQuery)]],
+  'messages:send': [['input', sendAgentMessageInput]],
+  'messages:list': [['query', optional(messageQuery)]],
+  'messages:get-graph': [],
+  'workflows:list': [],
+  'workflows:start': [['input', startWorkflowInput]],
+  'workflows:list-runs': [],
+  'workflows:get-run': [['runId', text]],
+  'workflows:cancel-run': [['runId', text]],
+  'secrets:list': [],
+  'secrets:set': [
+    ['name', text],
+    ['value', text],
+  ],
+  'secrets:rotate': [
+    ['name', text],
+    ['value', text],
+  ],
+  'secrets:delete': [['name', text]],
+  'mcp:list-servers': [],
+  'mcp:check-server': [['name', text]],
+  'config:get': [],
+  'config:get-resolved': [],
+  'config:set': [
+    ['key', configKey],
+    ['value', anything],
+  ],
+  'config:set-claude-path': [['path', text]],
+};
+
+// Validate the arguments a renderer sent on `channel`
+export function validateIpcArgs<C extends IpcChannel>(channel: C, args: unknown[]): IpcArgs<C> {
+  const checks = IPC_ARGUMENTS[channel] as Array<[string, Check<unknown>]>;
+  if (args.length > checks.length) {
+    throw new Error(`${channel} takes at most ${checks.length} arguments, got ${args.length}`);
+  }
+  return checks.map(([name, check], index) => check(args[index], name)) as IpcArgs<C>;
+}
@@ -0,0 +1,74 @@
+export type IssueState = 'open' | 'closed';
+
+export interface IssueComment {
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface Issue {
+  id: string;
+  title: string;
+  body: string;
+  state: IssueState;
+  labels: string[];
+  assignees: string[];
+  url?: string;
+  comments?: IssueComment[];
+}
+
+export interface IssueFilter {
+  state?: IssueState | 'all';
+  labels?: string[];
+  assignee?: string;
+}
+
+export interface NewIssue {
+  title: string;
+  body?: string;
+  labels?: string[];
+}
+
+export interface IssueTracker {
+  listIssues(filter?: IssueFilter): Promise<Issue[]>;
+  // Includes the comments of the issue
+  getIssue(id: string): Promise<Issue>;
+  createIssue(issue: NewIssue): Promise<Issue>;
+  comment(id: string, body: string): Promise<void>;
+  addLabels(id: string, labels: string[]): Promise<void>;
+  removeLabel(id: string, label: string): Promise<void>;
+  assign(id: string, assignees: string[]): Promise<void>;
+  close(id: string): Promise<void>;
+}
+
+export type IssueTrackerConfig =
+  | { type: 'github'; owner: string; repo: string; token?: string; apiUrl?: string }
+  | { type: 'local'; directory: string };
+
+// Matches the filter shared by every adapter
+export function matchesFilter(issue: Issue, filter: IssueFilter = {}): boolean {
+  const state = filter.state ?? 'open';
+  if (state !== 'all' && issue.state !== state) {
+    return false;
+  }
+  if (filter.labels && !filter.labels.every((label) => issue.labels.includes(label))) {
+    return false;
+  }
+  if (filter.assignee && !issue.assignees.includes(filter.assignee)) {
+    return false;
+  }
+  return true;
+}
+
+// The issue as given to an agent working on it
+export function formatIssueForPrompt(issue: Issue): string {
+  const lines = [`You are working on issue #${issue.id}: ${issue.title}`];
+  if (issue.url) {
+    lines.push(`URL: ${issue.url}`);
+  }
+  if (issue.labels.length > 0) {
+    lines.push(`Labels: ${issue.labels.join(', ')}`);
+  }
+  lines.push('', issue.body.trim() || '(no description)');
+  return lines.join('\n');
+}
@@ -0,0 +1,409 @@
+// A JSON Schema validator for the answers agents give to structured requests.
+// Covers the keywords such answers need: types, enums, objects, arrays, strings, numbers,
+// combinators and local $ref. Other keywords, such as format, are ignored.
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchemaObject {
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  // Only local references, such as #/$defs/comment
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchema = boolean | JsonSchemaObject;
+
+// Where a value breaks the schema, e.g. { path: '$.comments[0].line', message: 'must be an integer' }
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+const TYPES: JsonType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+const SCHEMA_MAPS = ['properties', '$defs', 'definitions'];
+const SCHEMA_LISTS = ['allOf', 'anyOf', 'oneOf'];
+const SCHEMA_VALUES = ['additionalProperties', 'items', 'not'];
+const NUMBER_KEYWORDS = [
+  'minProperties',
+  'maxProperties',
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonType;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+// Key order does not matter for equality, as in JSON Schema's enum, const and uniqueItems
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length && keys.every((key) => Object.hasOwn(b, key) && jsonEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replaceAll('~1', '/').replaceAll('~0', '~');
+    if (!isObject(target) || !Object.hasOwn(target, key)) {
+      return undefined;
+    }
+    target = target[key];
+  }
+  return typeof target === 'boolean' || isObject(target) ? (target as JsonSchema) : undefined;
+}
+
+// Returns why the value is not a schema this validator can apply, or undefined when it is
+export function checkJsonSchema(schema: unknown, root: unknown = schema, path = '#'): string | undefined {
+  if (typeof schema === 'boolean') {
+    return undefined;
+  }
+  if (!isObject(schema)) {
+    return `${path} must be an object or a boolean`;
+  }
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const unknownType = types.find((type) => !TYPES.includes(type as JsonType));
+  if (unknownType !== undefined) {
+    return `${path}/type has an unknown type ${JSON.stringify(unknownType)}`;
+  }
+  if (
+    schema.required !== undefined &&
+    !(Array.isArray(schema.required) && schema.required.every((key) => typeof key === 'string'))
+  ) {
+    return `${path}/required must be an array of strings`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    return `${path}/enum must be an array`;
+  }
+  const notNumber = NUMBER_KEYWORDS.find(
+    (keyword) => schema[keyword] !== undefined && typeof schema[keyword] !== 'number',
+  );
+  if (notNumber) {
+    return `${path}/${notNumber} must be a number`;
+  }
+  if (schema.pattern !== undefined && typeof schema.pattern !== 'string') {
+    return `${path}/pattern must be a string`;
+  }
+  if (typeof schema.pattern === 'string') {
+    try {
+      new RegExp(schema.pattern, 'u');
+    } catch {
+      return `${path}/pattern is not a valid regular expression`;
+    }
+  }
+  if (typeof schema.$ref === 'string' && resolveRef(root as JsonSchema, schema.$ref) === undefined) {
+    return `${path}/$ref ${schema.$ref} does not resolve within the schema`;
+  }
+
+  for (const keyword of SCHEMA_VALUES) {
+    if (schema[keyword] !== undefined) {
+      const problem = checkJsonSchema(schema[keyword], root, `${path}/${keyword}`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+  for (const keyword of SCHEMA_LISTS) {
+    const list = schema[keyword];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.length === 0) {
+      return `${path}/${keyword} must be a non-empty array of schemas`;
+    }
+    for (const [index, item] of list.entries()) {
+      const problem = checkJsonSchema(item, root, `${path}/${keyword}/${index}`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+  for (const keyword of SCHEMA_MAPS) {
+    const map = schema[keyword];
+    if (map === undefined) {
+      continue;
+    }
+    if (!isObject(map)) {
+      return `${path}/${keyword} must be an object of schemas`;
+    }
+    for (const [key, item] of Object.entries(map)) {
+      const problem = checkJsonSchema(item, root, `${path}/${keyword}/${key}`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+  return undefined;
+}
+
+function fitsType(actual: JsonType, schema: JsonSchema): boolean {
+  if (typeof schema === 'boolean' || schema.type === undefined) {
+    return true;
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.some((type) => type === actual || (type === 'number' && actual === 'integer'));
+}
+
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: SchemaError[]): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({ path, message: 'is not allowed' });
+    return;
+  }
+  if (schema.$ref !== undefined) {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      errors.push({ path, message: `refers to ${schema.$ref}, which does not exist` });
+      return;
+    }
+    validateNode(value, target, root, path, errors);
+  }
+
+  const actual = typeOf(value);
+  if (schema.type !== undefined) {
+    if (!fitsType(actual, schema)) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      errors.push({ path, message: `must be ${types.join(' or ')}, got ${actual}` });
+      // Further keywords would only repeat the mismatch
+      return;
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => jsonEqual(option, value))) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+  }
+  if (Object.hasOwn(schema, 'const') && !jsonEqual(schema.const, value)) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (actual === 'object') {
+    validateObject(value as Record<string, unknown>, schema, root, path, errors);
+  } else if (actual === 'array') {
+    validateArray(value as unknown[], schema, root, path, errors);
+  } else if (actual === 'string') {
+    validateString(value as string, schema, path, errors);
+  } else if (actual === 'number' || actual === 'integer') {
+    validateNumber(value as number, schema, path, errors);
+  }
+
+  for (const part of schema.allOf ?? []) {
+    validateNode(value, part, root, path, errors);
+  }
+  if (schema.anyOf !== undefined) {
+    const branches = schema.anyOf.map((branch) => validate(value, branch, root, path));
+    if (!branches.some((branchErrors) => branchErrors.length === 0)) {
+      // The closest branch of the value's type tells the most about what is wrong
+      const ofType = schema.anyOf
+        .map((branch, index) => (fitsType(actual, branch) ? branches[index] : undefined))
+        .filter((branchErrors) => branchErrors !== undefined);
+      const closest = (ofType.length > 0 ? ofType : branches).reduce((best, branchErrors) =>
+        branchErrors.length < best.length ? branchErrors : best,
+      );
+      errors.push({ path, message: 'must match at least one of the anyOf schemas' }, ...closest);
+    }
+  }
+  if (schema.oneOf !== undefined) {
+    const matching = schema.oneOf.filter((branch) => validate(value, branch, root, path).length === 0).length;
+    if (matching !== 1) {
+      errors.push({ path, message: `must match exactly one of the oneOf schemas, matches ${matching}` });
+    }
+  }
+  if (schema.not !== undefined && validate(value, schema.not, root, path).length === 0) {
+    errors.push({ path, message: 'must not match the "not" schema' });
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchemaObject,
+  root: JsonSchema,
+  path: string,
+  errors: SchemaError[],
+): void {
+  for (const key of schema.required ?? []) {
+    if (!Object.hasOwn(value, key)) {
+      errors.push({ path: childPath(path, key), message: 'is required' });
+    }
+  }
+  const keys = Object.keys(value);
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    errors.push({ path, message: `must have at least ${schema.minProperties} properties` });
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    errors.push({ path, message: `must have at most ${schema.maxProperties} properties` });
+  }
+  for (const key of keys) {
+    const property = schema.properties && Object.hasOwn(schema.properties, key) ? schema.properties[key] : undefined;
+    if (property !== undefined) {
+      validateNode(value[key], property, root, childPath(path, key), errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: childPath(path, key), message: 'is not an allowed property' });
+    } else if (schema.additionalProperties !== undefined) {
+      validateNode(value[key], schema.additionalProperties, root, childPath(path, key), errors);
+    }
+  }
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchemaObject,
+  root: JsonSchema,
+  path: string,
+  errors: SchemaError[],
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `must have at least ${schema.minItems} items, has ${value.length}` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} items, has ${value.length}` });
+  }
+  if (schema.uniqueItems) {
+    const duplicate = value.findIndex((item, index) =>
+      value.slice(0, index).some((earlier) => jsonEqual(earlier, item)),
+    );
+    if (duplicate !== -1) {
+      errors.push({ path: childPath(path, duplicate), message: 'duplicates an earlier item' });
+    }
+  }
+  if (schema.items !== undefined) {
+    for (const [index, item] of value.entries()) {
+      validateNode(item, schema.items, root, childPath(path, index), errors);
+    }
+  }
+}
+
+function validateString(value: string, schema: JsonSchemaObject, path: string, errors: SchemaError[]): void {
+  // Lengths count code points, not UTF-16 units
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    errors.push({ path, message: `must be at least ${schema.minLength} characters long` });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    errors.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ path, message: `must match the pattern ${schema.pattern}` });
+  }
+}
+
+function validateNumber(value: number, schema: JsonSchemaObject, path: string, errors: SchemaError[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `must be at least ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, message: `must be at most ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `must be less than ${schema.exclusiveMaximum}` });
+  }
+  if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+    errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+  }
+}
+
+function validate(value: unknown, schema: JsonSchema, root: JsonSchema, path: string): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(value, schema, root, path, errors);
+  return errors;
+}
+
+// Every place the value breaks the schema; empty when it matches
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): SchemaError[] {
+  return validate(value, schema, schema, '$');
+}
+
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((error) => `- ${error.path} ${error.message}`).join('\n');
+}
+
+// The JSON in an agent reply: the last ```json block, the reply itself, or the outermost {...} or [...] in it
+export function extractJson(reply: string): unknown {
+  const blocks = Array.from(reply.matchAll(/```(?:json)?\s*\n([\s\S]*?)\n```/g));
+  const candidates = blocks.length > 0 ? [blocks[blocks.length - 1][1]] : [reply];
+  for (const [open, close] of [
+    ['{', '}'],
+    ['[', ']'],
+  ]) {
+    const start = reply.indexOf(open);
+    const end = reply.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      candidates.push(reply.slice(start, end + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate.trim());
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('The reply does not contain valid JSON');
+}
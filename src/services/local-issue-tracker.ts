@@ -0,0 +1,193 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  type Issue,
+  type IssueComment,
+  type IssueFilter,
+  type IssueTracker,
+  type NewIssue,
+  matchesFilter,
+} from './issue-tracker.js';
+
+// Issues stored as Markdown files, one per issue, for offline use and tests:
+//
+//   ---
+//   title: Fix login
+//   state: open
+//   labels: bug, auth
+//   assignees: alice
+//   ---
+//   Body of the issue.
+//
+//   <!-- comment author="bob" date="2026-01-01T00:00:00.000Z" -->
+//   A comment.
+const COMMENT_MARKER = /^<!-- comment author="([^"]*)" date="([^"]*)" -->$/m;
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parseIssueFile(id: string, content: string): Issue {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`Issue ${id} has no front matter`);
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  if (!fields.title) {
+    throw new Error(`Issue ${id} has no title`);
+  }
+
+  const [body, ...rest] = match[2].split(COMMENT_MARKER);
+  const comments: IssueComment[] = [];
+  // split() with capture groups yields [author, date, text] for every comment
+  for (let i = 0; i + 2 < rest.length; i += 3) {
+    comments.push({ author: rest[i], createdAt: rest[i + 1], body: rest[i + 2].trim() });
+  }
+
+  return {
+    id,
+    title: fields.title,
+    body: body.trim(),
+    state: fields.state === 'closed' ? 'closed' : 'open',
+    labels: parseList(fields.labels),
+    assignees: parseList(fields.assignees),
+    comments,
+  };
+}
+
+export function formatIssueFile(issue: Issue): string {
+  const frontMatter = [
+    '---',
+    `title: ${issue.title.replace(/\n/g, ' ')}`,
+    `state: ${issue.state}`,
+    `labels: ${issue.labels.join(', ')}`,
+    `assignees: ${issue.assignees.join(', ')}`,
+    '---',
+  ].join('\n');
+
+  const comments = (issue.comments ?? []).map(
+    (comment) => `\n\n<!-- comment author="${comment.author}" date="${comment.createdAt}" -->\n${comment.body.trim()}`,
+  );
+
+  return `${frontMatter}\n${issue.body.trim()}${comments.join('')}\n`;
+}
+
+export class LocalIssueTracker implements IssueTracker {
+  private directory: string;
+  private author: string;
+
+  constructor(directory: string, author = 'coding-team') {
+    this.directory = directory;
+    this.author = author;
+  }
+
+  private issuePath(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid issue id ${id}`);
+    }
+    return path.join(this.directory, `${id}.md`);
+  }
+
+  private async read(id: string): Promise<Issue> {
+    try {
+      return parseIssueFile(id, await fs.readFile(this.issuePath(id), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Issue ${id} not found`);
+      }
+      throw error;
+    }
+  }
+
+  private async write(issue: Issue): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.issuePath(issue.id), formatIssueFile(issue));
+  }
+
+  private async update(id: string, change: (issue: Issue) => void): Promise<void> {
+    const issue = await this.read(id);
+    change(issue);
+    await this.write(issue);
+  }
+
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const issues = await Promise.all(
+      files.filter((file) => file.endsWith('.md')).map((file) => this.read(path.basename(file, '.md'))),
+    );
+    return issues
+      .filter((issue) => matchesFilter(issue, filter))
+      .map(({ comments: _comments, ...issue }) => issue)
+      .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  }
+
+  async getIssue(id: string): Promise<Issue> {
+    return this.read(id);
+  }
+
+  async createIssue(newIssue: NewIssue): Promise<Issue> {
+    const existing = await this.listIssues({ state: 'all' });
+    const nextId = existing.reduce((max, issue) => Math.max(max, Number.parseInt(issue.id, 10) || 0), 0) + 1;
+
+    const issue: Issue = {
+      id: String(nextId),
+      title: newIssue.title,
+      body: newIssue.body ?? '',
+      state: 'open',
+      labels: newIssue.labels ?? [],
+      assignees: [],
+      comments: [],
+    };
+    await this.write(issue);
+    return issue;
+  }
+
+  async comment(id: string, body: string): Promise<void> {
+    await this.update(id, (issue) => {
+      issue.comments = [...(issue.comments ?? []), { author: this.author, body, createdAt: new Date().toISOString() }];
+    });
+  }
+
+  async addLabels(id: string, labels: string[]): Promise<void> {
+    await this.update(id, (issue) => {
+      issue.labels = Array.from(new Set([...issue.labels, ...labels]));
+    });
+  }
+
+  async removeLabel(id: string, label: string): Promise<void> {
+    await this.update(id, (issue) => {
+      issue.labels = issue.labels.filter((existing) => existing !== label);
+    });
+  }
+
+  async assign(id: string, assignees: string[]): Promise<void> {
+    await this.update(id, (issue) => {
+      issue.assignees = Array.from(new Set([...issue.assignees, ...assignees]));
+    });
+  }
+
+  async close(id: string): Promise<void> {
+    await this.update(id, (issue) => {
+      issue.state = 'closed';
+    });
+  }
+}
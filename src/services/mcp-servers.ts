@@ -0,0 +1,306 @@
+import { spawn } from 'node:child_process';
+import readline from 'node:readline';
+import type { McpServerConfig } from './agent-backend.js';
+import type { SDKMessage } from './claude-stream.js';
+
+// A tool an MCP server exposes
+export interface McpTool {
+  name: string;
+  description?: string;
+}
+
+export interface McpServerStatus {
+  name: string;
+  type: 'stdio' | 'http' | 'sse';
+  health: 'healthy' | 'failed';
+  error?: string;
+  // Not listed for SSE servers, which are only checked for reachability
+  tools?: McpTool[];
+  checkedAt: string;
+}
+
+export interface McpServerRegistryOptions {
+  // Milliseconds a server has to start and list its tools
+  probeTimeout?: number;
+}
+
+// Reserved for the agent bridge every query gets
+const RESERVED_NAMES = ['coding-team'];
+
+const PROTOCOL_VERSION = '2025-03-26';
+
+function serverType(config: McpServerConfig): McpServerStatus['type'] {
+  return config.type ?? 'stdio';
+}
+
+function isStringRecord(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'string')
+  );
+}
+
+// Returns why the value is not a valid set of MCP servers, or undefined when it is
+export function validateMcpServers(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object of servers by name';
+  }
+  for (const [name, config] of Object.entries(value)) {
+    if (!/^[\w-]+$/.test(name) || RESERVED_NAMES.includes(name)) {
+      return `has an invalid server name "${name}"`;
+    }
+    if (typeof config !== 'object' || config === null) {
+      return `server "${name}" must be an object`;
+    }
+    const server = config as Record<string, unknown>;
+    if (server.type === undefined || server.type === 'stdio') {
+      if (typeof server.command !== 'string' || server.command === '') {
+        return `server "${name}" needs a "command"`;
+      }
+      if (
+        server.args !== undefined &&
+        !(Array.isArray(server.args) && server.args.every((arg) => typeof arg === 'string'))
+      ) {
+        return `server "${name}" must have "args" as an array of strings`;
+      }
+      if (server.env !== undefined && !isStringRecord(server.env)) {
+        return `server "${name}" must have "env" as an object of strings`;
+      }
+    } else if (server.type === 'http' || server.type === 'sse') {
+      if (typeof server.url !== 'string' || !URL.canParse(server.url)) {
+        return `server "${name}" needs a valid "url"`;
+      }
+      if (server.headers !== undefined && !isStringRecord(server.headers)) {
+        return `server "${name}" must have "headers" as an object of strings`;
+      }
+    } else {
+      return `server "${name}" must have a "type" of stdio, http or sse`;
+    }
+  }
+  return undefined;
+}
+
+// Servers the agent reports as failed in the init message of a query
+export function failedMcpServers(message: SDKMessage): string[] {
+  if (message.type !== 'system' || message.subtype !== 'init' || !Array.isArray(message.mcp_servers)) {
+    return [];
+  }
+  return (message.mcp_servers as Array<{ name: string; status: string }>)
+    .filter((server) => server.status === 'failed')
+    .map((server) => server.name);
+}
+
+function toTools(result: unknown): McpTool[] {
+  const tools = (result as { tools?: Array<{ name: string; description?: string }> } | undefined)?.tools ?? [];
+  return tools.map(({ name, description }) => ({ name, description }));
+}
+
+function initializeRequest(id: number) {
+  return {
+    jsonrpc: '2.0',
+    id,
+    method: 'initialize',
+    params: {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'coding-team', version: '1.0.0' },
+    },
+  };
+}
+
+// Start a stdio server, initialize it and list its tools, then stop it
+function probeStdio(config: Extract<McpServerConfig, { command: string }>, timeout: number): Promise<McpTool[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(config.command, config.args ?? [], {
+      env: { ...process.env, ...config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    let stderr = '';
+    let settled = false;
+    const finish = (error: Error | undefined, tools?: McpTool[]) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      child.kill();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(tools ?? []);
+      }
+    };
+    const timer = setTimeout(() => finish(new Error(`did not answer within ${timeout}ms`)), timeout);
+
+    child.on('error', (error) => finish(error));
+    child.on('exit', (code, signal) => {
+      const detail = stderr.trim().split('\n').at(-1);
+      finish(new Error(`exited with ${signal ?? `code ${code}`}${detail ? `: ${detail}` : ''}`));
+    });
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk;
+    });
+    child.stdin.on('error', () => {
+      // The exit handler reports a server that died before reading its input
+    });
+
+    const send = (message: unknown) => child.stdin.write(`${JSON.stringify(message)}\n`);
+    readline.createInterface({ input: child.stdout }).on('line', (line) => {
+      let message: { id?: number; result?: unknown; error?: { message: string } };
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // Servers may log to stdout before they start speaking the protocol
+        return;
+      }
+      if (message.error) {
+        finish(new Error(message.error.message));
+      } else if (message.id === 1) {
+        send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+        send({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+      } else if (message.id === 2) {
+        finish(undefined, toTools(message.result));
+      }
+    });
+    send(initializeRequest(1));
+  });
+}
+
+// Answers of the streamable HTTP transport come as JSON or as server-sent events
+async function readJsonRpc(response: Response, id: number): Promise<unknown> {
+  if (!response.ok) {
+    throw new Error(`answered ${response.status} ${response.statusText}`);
+  }
+  const body = await response.text();
+  const payloads = (response.headers.get('content-type') ?? '').includes('text/event-stream')
+    ? body
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim())
+    : [body];
+  for (const payload of payloads) {
+    const message = JSON.parse(payload) as { id?: number; result?: unknown; error?: { message: string } };
+    if (message.id === id) {
+      if (message.error) {
+        throw new Error(message.error.message);
+      }
+      return message.result;
+    }
+  }
+  throw new Error(`did not answer request ${id}`);
+}
+
+async function probeHttp(config: Extract<McpServerConfig, { url: string }>, timeout: number): Promise<McpTool[]> {
+  const signal = AbortSignal.timeout(timeout);
+  const headers: Record<string, string> = {
+    ...config.headers,
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream',
+  };
+  const post = (message: unknown) =>
+    fetch(config.url, { method: 'POST', headers, body: JSON.stringify(message), signal });
+
+  const initialized = await post(initializeRequest(1));
+  await readJsonRpc(initialized, 1);
+  const session = initialized.headers.get('mcp-session-id');
+  if (session) {
+    headers['mcp-session-id'] = session;
+  }
+  await (await post({ jsonrpc: '2.0', method: 'notifications/initialized' })).body?.cancel();
+  return toTools(await readJsonRpc(await post({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }), 2));
+}
+
+async function probeSse(config: Extract<McpServerConfig, { url: string }>, timeout: number): Promise<undefined> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetch(config.url, {
+      headers: { ...config.headers, accept: 'text/event-stream' },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`answered ${response.status} ${response.statusText}`);
+    }
+  } finally {
+    // Close the event stream once it answered
+    clearTimeout(timer);
+    controller.abort();
+  }
+  return undefined;
+}
+
+// Start or reach a server and list its tools. Never throws; a failure is reported in the status.
+export async function probeMcpServer(name: string, config: McpServerConfig, timeout = 10000): Promise<McpServerStatus> {
+  const status: McpServerStatus = { name, type: serverType(config), health: 'healthy', checkedAt: '' };
+  try {
+    if (!('url' in config)) {
+      status.tools = await probeStdio(config, timeout);
+    } else if (config.type === 'http') {
+      status.tools = await probeHttp(config, timeout);
+    } else {
+      await probeSse(config, timeout);
+    }
+  } catch (error) {
+    status.health = 'failed';
+    status.error = error instanceof Error ? error.message : String(error);
+  }
+  status.checkedAt = new Date().toISOString();
+  return status;
+}
+
+// The MCP servers declared in config, which personas and instances refer to by name, with their last known health
+export class McpServerRegistry {
+  private servers: Record<string, McpServerConfig> = {};
+  private statuses: Map<string, McpServerStatus> = new Map();
+  private probeTimeout: number;
+
+  constructor(servers: Record<string, McpServerConfig> = {}, options: McpServerRegistryOptions = {}) {
+    this.probeTimeout = options.probeTimeout ?? 10000;
+    this.setServers(servers);
+  }
+
+  // Replace the declared servers. The health of changed and removed servers is forgotten.
+  setServers(servers: Record<string, McpServerConfig> | undefined): void {
+    const next = servers ?? {};
+    for (const name of this.statuses.keys()) {
+      if (JSON.stringify(next[name]) !== JSON.stringify(this.servers[name])) {
+        this.statuses.delete(name);
+      }
+    }
+    this.servers = { ...next };
+  }
+
+  // The configs of the named servers, as a query takes them
+  resolve(names: string[]): Record<string, McpServerConfig> {
+    const resolved: Record<string, McpServerConfig> = {};
+    for (const name of names) {
+      if (!Object.hasOwn(this.servers, name)) {
+        throw new Error(`MCP server ${name} is not configured`);
+      }
+      resolved[name] = this.servers[name];
+    }
+    return resolved;
+  }
+
+  async check(name: string): Promise<McpServerStatus> {
+    const [config] = Object.values(this.resolve([name]));
+    const status = await probeMcpServer(name, config, this.probeTimeout);
+    // The server may have been changed or removed while it was probed
+    if (this.servers[name] === config) {
+      this.statuses.set(name, status);
+    }
+    return status;
+  }
+
+  // Every declared server with its last known health; servers never checked are checked now
+  async list(): Promise<McpServerStatus[]> {
+    return Promise.all(
+      Object.keys(this.servers).map((name) => {
+        const known = this.statuses.get(name);
+        return known ? Promise.resolve(known) : this.check(name);
+      }),
+    );
+  }
+}
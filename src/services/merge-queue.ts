@@ -0,0 +1,428 @@
+import { execFile, spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { createWriteStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { ClaudeManager } from './claude-manager.js';
+import { slugify } from './worktree-manager.js';
+import { WriteQueue } from './write-queue.js';
+
+const execFileAsync = promisify(execFile);
+
+// What to do when a branch does not rebase cleanly onto the target:
+// 'resolve' asks a Landing Manager instance to fix the conflicts, 'bounce' sends the branch back to its author
+export type ConflictPolicy = 'resolve' | 'bounce';
+
+export type MergeStatus = 'queued' | 'rebasing' | 'resolving' | 'verifying' | 'merged' | 'failed' | 'bounced';
+
+export interface MergeEntry {
+  id: string;
+  repository: string;
+  branch: string;
+  targetBranch: string;
+  authorInstanceId?: string;
+  reviewId?: string;
+  // Commit of the branch that was approved. It is what gets landed, and the entry bounces if the branch
+  // has moved on since, so nothing lands unreviewed.
+  headCommit?: string;
+  status: MergeStatus;
+  // Why the entry failed or bounced
+  reason?: string;
+  // Commit the target was fast-forwarded to
+  mergedCommit?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnqueueMergeInput {
+  repository: string;
+  branch: string;
+  targetBranch?: string;
+  authorInstanceId?: string;
+  reviewId?: string;
+  headCommit?: string;
+}
+
+export interface MergeQueueOptions {
+  // Shell command that must exit 0 in the rebased checkout before the target is fast-forwarded
+  verifyCommand: string;
+  conflictPolicy?: ConflictPolicy;
+  verifyTimeout?: number;
+  // Holds the queue, the per-entry logs and the temporary checkouts
+  rootDir?: string;
+}
+
+const FINISHED: MergeStatus[] = ['merged', 'failed', 'bounced'];
+
+// Lands approved branches one at a time: rebase onto the target in an isolated checkout,
+// run the verification command there, and fast-forward the target when it passes
+export class MergeQueue extends EventEmitter {
+  private manager: ClaudeManager;
+  private options: Required<Omit<MergeQueueOptions, 'rootDir'>>;
+  private rootDir: string;
+  private entries: Map<string, MergeEntry> = new Map();
+  private entryCounter = 0;
+  private processing = false;
+  private writes = new WriteQueue();
+  private idle: Promise<void> = Promise.resolve();
+
+  constructor(manager: ClaudeManager, options: MergeQueueOptions) {
+    super();
+    this.manager = manager;
+    this.options = {
+      verifyCommand: options.verifyCommand,
+      conflictPolicy: options.conflictPolicy ?? 'resolve',
+      verifyTimeout: options.verifyTimeout ?? 30 * 60 * 1000,
+    };
+    this.rootDir = options.rootDir || path.join(os.homedir(), '.coding-team', 'merge-queue');
+  }
+
+  setOptions(options: Partial<Omit<MergeQueueOptions, 'rootDir'>>): void {
+    this.options = {
+      verifyCommand: options.verifyCommand ?? this.options.verifyCommand,
+      conflictPolicy: options.conflictPolicy ?? this.options.conflictPolicy,
+      verifyTimeout: options.verifyTimeout ?? this.options.verifyTimeout,
+    };
+  }
+
+  async load(): Promise<void> {
+    let stored: MergeEntry[];
+    try {
+      stored = JSON.parse(await fs.readFile(path.join(this.rootDir, 'queue.json'), 'utf-8')) as MergeEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    for (const entry of stored) {
+      // An entry interrupted by a restart starts over from a fresh checkout
+      if (!FINISHED.includes(entry.status)) {
+        entry.status = 'queued';
+      }
+      this.entries.set(entry.id, entry);
+      this.entryCounter = Math.max(this.entryCounter, Number.parseInt(entry.id.replace(/^merge-/, ''), 10) || 0);
+    }
+    await fs.rm(path.join(this.rootDir, 'checkouts'), { recursive: true, force: true });
+  }
+
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(this.rootDir, { recursive: true });
+      await fs.writeFile(path.join(this.rootDir, 'queue.json'), snapshot);
+    });
+  }
+
+  // Resolves once the queue has been worked through and saved
+  async flush(): Promise<void> {
+    await this.idle;
+    await this.writes.flush();
+  }
+
+  list(): MergeEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  get(entryId: string): MergeEntry | undefined {
+    return this.entries.get(entryId);
+  }
+
+  enqueue(input: EnqueueMergeInput): MergeEntry {
+    const now = new Date().toISOString();
+    const entry: MergeEntry = {
+      id: `merge-${++this.entryCounter}`,
+      repository: input.repository,
+      branch: input.branch,
+      targetBranch: input.targetBranch || 'main',
+      authorInstanceId: input.authorInstanceId,
+      reviewId: input.reviewId,
+      headCommit: input.headCommit,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.entries.set(entry.id, entry);
+    this.save().catch(console.error);
+    this.emit('mergeQueued', entry);
+    this.start();
+    return entry;
+  }
+
+  // Take a queued entry out of the queue. Entries already being landed cannot be removed.
+  remove(entryId: string): void {
+    const entry = this.entries.get(entryId);
+    if (!entry) {
+      throw new Error(`Merge entry ${entryId} not found`);
+    }
+    if (entry.status !== 'queued' && !FINISHED.includes(entry.status)) {
+      throw new Error(`Merge entry ${entryId} is ${entry.status} and cannot be removed`);
+    }
+    this.entries.delete(entryId);
+    this.save().catch(console.error);
+    fs.rm(this.logPath(entryId), { force: true }).catch(console.error);
+  }
+
+  async getLog(entryId: string): Promise<string> {
+    if (!this.entries.has(entryId)) {
+      throw new Error(`Merge entry ${entryId} not found`);
+    }
+    try {
+      return await fs.readFile(this.logPath(entryId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return '';
+      }
+      throw error;
+    }
+  }
+
+  // Work through the queued entries, unless that is already happening
+  start(): void {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    this.idle = this.processAll().finally(() => {
+      this.processing = false;
+    });
+  }
+
+  private async processAll(): Promise<void> {
+    for (;;) {
+      const next = this.list().find((entry) => entry.status === 'queued');
+      if (!next) {
+        return;
+      }
+      try {
+        await this.land(next);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        await this.log(next, `Failed: ${reason}`);
+        this.finish(next, 'failed', reason);
+      }
+    }
+  }
+
+  private logPath(entryId: string): string {
+    return path.join(this.rootDir, 'logs', `${entryId}.log`);
+  }
+
+  private async log(entry: MergeEntry, message: string): Promise<void> {
+    await fs.mkdir(path.join(this.rootDir, 'logs'), { recursive: true });
+    await fs.appendFile(this.logPath(entry.id), `[${new Date().toISOString()}] ${message}\n`);
+  }
+
+  private setStatus(entry: MergeEntry, status: MergeStatus): void {
+    entry.status = status;
+    entry.updatedAt = new Date().toISOString();
+    this.save().catch(console.error);
+    this.emit('mergeUpdated', entry);
+  }
+
+  private finish(entry: MergeEntry, status: 'merged' | 'failed' | 'bounced', reason?: string): void {
+    entry.reason = reason;
+    this.setStatus(entry, status);
+    this.emit(status === 'merged' ? 'mergeLanded' : status === 'bounced' ? 'mergeBounced' : 'mergeFailed', entry);
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout.trim();
+  }
+
+  private async land(entry: MergeEntry): Promise<void> {
+    const checkout = path.join(this.rootDir, 'checkouts', `${entry.id}-${slugify(entry.branch)}`);
+    const targetCommit = await this.git(entry.repository, ['rev-parse', `refs/heads/${entry.targetBranch}`]);
+    if (entry.headCommit) {
+      const branchCommit = await this.git(entry.repository, ['rev-parse', `refs/heads/${entry.branch}`]);
+      if (branchCommit !== entry.headCommit) {
+        const reason = `Branch ${entry.branch} moved to ${branchCommit.slice(0, 12)} after it was approved at ${entry.headCommit.slice(0, 12)}`;
+        await this.log(entry, `Bounced: ${reason}`);
+        this.finish(entry, 'bounced', reason);
+        this.notifyAuthor(entry, `Branch ${entry.branch} was not landed: ${reason}. Request another review of it.`);
+        return;
+      }
+    }
+
+    // Detached, so the branch can stay checked out in its author's worktree
+    this.setStatus(entry, 'rebasing');
+    await this.log(entry, `Rebasing ${entry.branch} onto ${entry.targetBranch} (${targetCommit.slice(0, 12)})`);
+    await this.git(entry.repository, [
+      'worktree',
+      'add',
+      '--detach',
+      checkout,
+      entry.headCommit ?? `refs/heads/${entry.branch}`,
+    ]);
+
+    try {
+      const rebased = await this.rebase(entry, checkout, targetCommit);
+      if (!rebased) {
+        return;
+      }
+
+      this.setStatus(entry, 'verifying');
+      await this.log(entry, `Running ${this.options.verifyCommand}`);
+      const exitCode = await this.verify(entry, checkout);
+      if (exitCode !== 0) {
+        const reason = `Verification failed: ${this.options.verifyCommand} exited with ${exitCode}`;
+        await this.log(entry, reason);
+        this.finish(entry, 'failed', reason);
+        const landing = `Branch ${entry.branch} could not be landed on ${entry.targetBranch}`;
+        this.notifyAuthor(entry, `${landing}. ${reason} after rebasing. Fix the branch and request another review.`);
+        return;
+      }
+
+      const head = await this.git(checkout, ['rev-parse', 'HEAD']);
+      await this.fastForward(entry, targetCommit, head);
+      entry.mergedCommit = head;
+      await this.log(entry, `Fast-forwarded ${entry.targetBranch} to ${head.slice(0, 12)}`);
+      this.finish(entry, 'merged');
+    } finally {
+      await this.git(entry.repository, ['worktree', 'remove', '--force', checkout]).catch(async () => {
+        await fs.rm(checkout, { recursive: true, force: true });
+        await this.git(entry.repository, ['worktree', 'prune']);
+      });
+    }
+  }
+
+  // Returns false when the entry bounced because of conflicts nobody resolved
+  private async rebase(entry: MergeEntry, checkout: string, targetCommit: string): Promise<boolean> {
+    try {
+      await this.git(checkout, ['rebase', targetCommit]);
+      return true;
+    } catch (error) {
+      const conflicts = await this.git(checkout, ['diff', '--name-only', '--diff-filter=U']).catch(() => '');
+      if (!conflicts) {
+        throw error;
+      }
+      const files = conflicts.split('\n').join(', ');
+      await this.log(entry, `Rebase conflicts in: ${files}`);
+
+      if (
+        this.options.conflictPolicy === 'resolve' &&
+        (await this.resolveConflicts(entry, checkout, targetCommit, conflicts))
+      ) {
+        return true;
+      }
+
+      await this.git(checkout, ['rebase', '--abort']).catch(() => undefined);
+      const reason = `Rebase onto ${entry.targetBranch} conflicts in ${files}`;
+      await this.log(entry, `Bounced: ${reason}`);
+      this.finish(entry, 'bounced', reason);
+      this.notifyAuthor(
+        entry,
+        `Branch ${entry.branch} could not be landed: ${reason}. ` +
+          `Rebase it onto ${entry.targetBranch}, resolve the conflicts, and request another review.`,
+      );
+      return false;
+    }
+  }
+
+  private async resolveConflicts(
+    entry: MergeEntry,
+    checkout: string,
+    targetCommit: string,
+    conflicts: string,
+  ): Promise<boolean> {
+    this.setStatus(entry, 'resolving');
+    const resolver = await this.manager.createInstance(`Landing ${entry.branch}`, {
+      personaId: 'landing-manager',
+      workingDirectory: checkout,
+    });
+    await this.log(entry, `Asked ${resolver.id} to resolve the conflicts`);
+
+    try {
+      const reply = await this.manager.sendMessage(
+        resolver.id,
+        [
+          `Rebasing branch ${entry.branch} onto ${entry.targetBranch} stopped with conflicts in:`,
+          ...conflicts.split('\n').map((file) => `- ${file}`),
+          '',
+          'Resolve the conflicts keeping the intent of both sides, stage the files and run ' +
+            '`git -c core.editor=true rebase --continue` until the rebase is complete. ' +
+            'If a conflict cannot be resolved safely, run `git rebase --abort` and explain why.',
+        ].join('\n'),
+      );
+      await this.log(entry, `${resolver.id}: ${reply}`);
+    } catch (error) {
+      await this.log(entry, `${resolver.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await this.manager.stopInstance(resolver.id).catch(console.error);
+    }
+
+    const rebaseDir = await this.git(checkout, ['rev-parse', '--git-path', 'rebase-merge']);
+    const inProgress = await fs
+      .access(path.resolve(checkout, rebaseDir))
+      .then(() => true)
+      .catch(() => false);
+    const head = await this.git(checkout, ['rev-parse', 'HEAD']);
+    const onTarget = await this.git(checkout, ['merge-base', '--is-ancestor', targetCommit, head])
+      .then(() => true)
+      .catch(() => false);
+    return !inProgress && onTarget;
+  }
+
+  private verify(entry: MergeEntry, checkout: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const output = createWriteStream(this.logPath(entry.id), { flags: 'a' });
+      const child = spawn(this.options.verifyCommand, { cwd: checkout, shell: true, detached: true });
+      child.stdout.pipe(output, { end: false });
+      child.stderr.pipe(output, { end: false });
+
+      const timer = setTimeout(() => {
+        output.write(`\nTimed out after ${this.options.verifyTimeout}ms\n`);
+        // Kill the whole process group, not just the shell
+        try {
+          process.kill(-(child.pid as number), 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      }, this.options.verifyTimeout);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        output.end();
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        output.end(() => resolve(code ?? 1));
+      });
+    });
+  }
+
+  private async fastForward(entry: MergeEntry, targetCommit: string, head: string): Promise<void> {
+    const ref = `refs/heads/${entry.targetBranch}`;
+    // If the target is checked out somewhere, move it there so that working tree follows
+    const worktrees = await this.git(entry.repository, ['worktree', 'list', '--porcelain']);
+    const checkedOut = worktrees
+      .split('\n\n')
+      .find((block) => block.split('\n').includes(`branch ${ref}`))
+      ?.match(/^worktree (.+)$/m)?.[1];
+
+    if (checkedOut) {
+      const current = await this.git(checkedOut, ['rev-parse', 'HEAD']);
+      if (current !== targetCommit) {
+        throw new Error(`${entry.targetBranch} moved while ${entry.branch} was being verified`);
+      }
+      await this.git(checkedOut, ['merge', '--ff-only', head]);
+    } else {
+      // Compare-and-swap, so a target that moved in the meantime is never overwritten
+      await this.git(entry.repository, ['update-ref', ref, head, targetCommit]);
+    }
+  }
+
+  private notifyAuthor(entry: MergeEntry, message: string): void {
+    const authorId = entry.authorInstanceId;
+    if (!authorId || !this.manager.getInstance(authorId)) {
+      return;
+    }
+    this.manager
+      .sendWhenReady(authorId, message)
+      .catch((error) => console.error(`Failed to notify ${authorId} about ${entry.id}:`, error));
+  }
+}
@@ -0,0 +1,421 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { BridgeTool } from './agent-bridge.js';
+import type { ClaudeInstance, ClaudeManager } from './claude-manager.js';
+import { WriteQueue } from './write-queue.js';
+
+// Address of the person at the dashboard or CLI
+export const USER_ADDRESS = 'user';
+
+// - message: asks the recipient something; its answer is sent back as a reply
+// - reply: the answer to a message, which is not answered again
+// - handoff: gives the recipient work to do, without waiting for an answer
+export type AgentMessageKind = 'message' | 'reply' | 'handoff';
+
+export type AgentMessageStatus = 'queued' | 'delivering' | 'delivered' | 'failed';
+
+export interface AgentMessage {
+  id: string;
+  threadId: string;
+  // Instance ids, or USER_ADDRESS
+  from: string;
+  to: string;
+  kind: AgentMessageKind;
+  body: string;
+  inReplyTo?: string;
+  status: AgentMessageStatus;
+  // What the recipient answered when the message was delivered
+  response?: string;
+  error?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+export interface SendAgentMessageInput {
+  // USER_ADDRESS when omitted
+  from?: string;
+  // An instance id, or the persona id of a role, which the message goes to an instance of
+  to: string;
+  body: string;
+  kind?: 'message' | 'handoff';
+  // Continue a thread rather than start one
+  threadId?: string;
+}
+
+export interface MessageQuery {
+  threadId?: string;
+  // Messages from or to the instance
+  instanceId?: string;
+}
+
+export interface ConversationNode {
+  id: string;
+  name?: string;
+  personaId?: string;
+}
+
+export interface ConversationEdge {
+  from: string;
+  to: string;
+  messages: number;
+}
+
+export interface ConversationThread {
+  id: string;
+  participants: string[];
+  messageIds: string[];
+  updatedAt: string;
+}
+
+// Who talked to whom, and the threads they talked in
+export interface ConversationGraph {
+  nodes: ConversationNode[];
+  edges: ConversationEdge[];
+  threads: ConversationThread[];
+}
+
+// Prefer instances that can take the message now
+const STATUS_PREFERENCE: ClaudeInstance['status'][] = ['ready', 'busy', 'error'];
+
+function counterOf(id: string, prefix: string): number {
+  const counter = Number.parseInt(id.slice(prefix.length), 10);
+  return Number.isNaN(counter) ? 0 : counter;
+}
+
+// Addressed messages between instances and the user, grouped in threads.
+// A message waits in the queue until its recipient is ready, then is sent to it as a prompt.
+// Agents send messages with the tools the bus registers with the agent bridge.
+export class MessageBus extends EventEmitter {
+  private manager: ClaudeManager;
+  private messagesPath: string;
+  private messages: Map<string, AgentMessage> = new Map();
+  private messageCounter = 0;
+  private threadCounter = 0;
+  private writes = new WriteQueue();
+  private running = false;
+  private onInstanceReady = (instance: ClaudeInstance) => this.deliverNext(instance.id);
+  private onInstanceStopped = (instance: ClaudeInstance) => this.failQueued(instance.id);
+
+  constructor(manager: ClaudeManager, messagesPath?: string) {
+    super();
+    this.manager = manager;
+    this.messagesPath = messagesPath || path.join(os.homedir(), '.coding-team', 'messages.json');
+  }
+
+  async load(): Promise<void> {
+    let stored: AgentMessage[];
+    try {
+      stored = JSON.parse(await fs.readFile(this.messagesPath, 'utf-8')) as AgentMessage[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    this.messages.clear();
+    for (const message of stored) {
+      // The query that was delivering it did not survive the restart
+      if (message.status === 'delivering') {
+        message.status = 'queued';
+      }
+      this.messages.set(message.id, message);
+      this.messageCounter = Math.max(this.messageCounter, counterOf(message.id, 'msg-'));
+      this.threadCounter = Math.max(this.threadCounter, counterOf(message.threadId, 'thread-'));
+    }
+  }
+
+  save(): Promise<void> {
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(path.dirname(this.messagesPath), { recursive: true });
+      await fs.writeFile(this.messagesPath, snapshot);
+    });
+  }
+
+  // Wait for pending writes to reach the disk
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.manager.on('instanceCreated', this.onInstanceReady);
+    this.manager.on('instanceReady', this.onInstanceReady);
+    this.manager.on('instanceStopped', this.onInstanceStopped);
+    // Recipients that were not restored after a restart will never take their messages
+    const recipients = new Set(this.list().map((message) => message.to));
+    for (const recipient of recipients) {
+      if (recipient !== USER_ADDRESS && !this.manager.getInstance(recipient)) {
+        this.failQueued(recipient);
+      }
+    }
+    for (const instance of this.manager.getAllInstances()) {
+      this.deliverNext(instance.id);
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    this.manager.off('instanceCreated', this.onInstanceReady);
+    this.manager.off('instanceReady', this.onInstanceReady);
+    this.manager.off('instanceStopped', this.onInstanceStopped);
+  }
+
+  send(input: SendAgentMessageInput): AgentMessage {
+    if (!input.body) {
+      throw new Error('Message body is required');
+    }
+    const from = input.from ?? USER_ADDRESS;
+    if (from !== USER_ADDRESS && !this.manager.getInstance(from)) {
+      throw new Error(`Instance ${from} not found`);
+    }
+    const to = this.resolveRecipient(input.to);
+    if (to === from) {
+      throw new Error(`Instance ${from} cannot message itself`);
+    }
+    if (input.threadId && !this.list({ threadId: input.threadId }).length) {
+      throw new Error(`Thread ${input.threadId} not found`);
+    }
+
+    return this.enqueue({
+      threadId: input.threadId ?? `thread-${++this.threadCounter}`,
+      from,
+      to,
+      kind: input.kind ?? 'message',
+      body: input.body,
+    });
+  }
+
+  get(messageId: string): AgentMessage | undefined {
+    return this.messages.get(messageId);
+  }
+
+  list(query: MessageQuery = {}): AgentMessage[] {
+    return Array.from(this.messages.values()).filter(
+      (message) =>
+        (!query.threadId || message.threadId === query.threadId) &&
+        (!query.instanceId || message.from === query.instanceId || message.to === query.instanceId),
+    );
+  }
+
+  getGraph(): ConversationGraph {
+    const nodes: Map<string, ConversationNode> = new Map();
+    const edges: Map<string, ConversationEdge> = new Map();
+    const threads: Map<string, ConversationThread> = new Map();
+
+    for (const message of this.messages.values()) {
+      for (const id of [message.from, message.to]) {
+        if (!nodes.has(id)) {
+          const instance = this.manager.getInstance(id);
+          nodes.set(id, { id, name: instance?.name, personaId: instance?.persona?.id });
+        }
+      }
+
+      const key = `${message.from}\n${message.to}`;
+      const edge = edges.get(key) ?? { from: message.from, to: message.to, messages: 0 };
+      edge.messages++;
+      edges.set(key, edge);
+
+      const thread = threads.get(message.threadId) ?? {
+        id: message.threadId,
+        participants: [],
+        messageIds: [],
+        updatedAt: message.createdAt,
+      };
+      for (const id of [message.from, message.to]) {
+        if (!thread.participants.includes(id)) {
+          thread.participants.push(id);
+        }
+      }
+      thread.messageIds.push(message.id);
+      thread.updatedAt = message.createdAt;
+      threads.set(message.threadId, thread);
+    }
+
+    return { nodes: [...nodes.values()], edges: [...edges.values()], threads: [...threads.values()] };
+  }
+
+  // The tools agents message each other with, to register with the agent bridge
+  bridgeTools(): BridgeTool[] {
+    const addressed = (description: string) => ({
+      type: 'object',
+      properties: {
+        to: { type: 'string', description: 'Instance id, or the persona id of a role such as "spec-refiner"' },
+        [description]: { type: 'string' },
+        thread_id: { type: 'string', description: 'Continue this thread instead of starting one' },
+      },
+      required: ['to', description],
+    });
+    const send = (kind: 'message' | 'handoff', field: string): BridgeTool['call'] => {
+      return async (instanceId, args) => {
+        if (typeof args.to !== 'string' || typeof args[field] !== 'string') {
+          throw new Error(`"to" and "${field}" are required`);
+        }
+        const message = this.send({
+          from: instanceId,
+          to: args.to,
+          body: args[field] as string,
+          kind,
+          threadId: typeof args.thread_id === 'string' ? args.thread_id : undefined,
+        });
+        // Delivery started within send when the recipient was ready
+        const when = message.status === 'queued' ? 'once it is ready' : 'now';
+        const sent = `${message.id} to ${message.to} in ${message.threadId}, delivered ${when}.`;
+        return kind === 'message'
+          ? `Sent ${sent} Its answer will come to you as a message after your current work.`
+          : `Handed off ${sent}`;
+      };
+    };
+
+    return [
+      {
+        name: 'send_message',
+        description: 'Send a question or a finding to another member of the team. Their answer comes back to you.',
+        inputSchema: addressed('message'),
+        call: send('message', 'message'),
+      },
+      {
+        name: 'hand_off',
+        description: 'Hand work over to another member of the team, who carries it out without answering back',
+        inputSchema: addressed('work'),
+        call: send('handoff', 'work'),
+      },
+      {
+        name: 'list_team',
+        description: 'List the other members of the team that can be messaged',
+        inputSchema: { type: 'object', properties: {} },
+        call: async (instanceId) => {
+          const members = this.manager
+            .getActiveInstances()
+            .filter((instance) => instance.id !== instanceId)
+            .map(
+              (instance) =>
+                `${instance.id} "${instance.name}"` +
+                `${instance.persona ? ` - ${instance.persona.name} (${instance.persona.id})` : ''}, ${instance.status}`,
+            );
+          return members.length > 0 ? members.join('\n') : 'No other instances are running';
+        },
+      },
+    ];
+  }
+
+  // An instance id, or the best instance with that persona
+  private resolveRecipient(to: string): string {
+    if (to === USER_ADDRESS) {
+      return to;
+    }
+    if (this.manager.getInstance(to)) {
+      return to;
+    }
+    const candidates = this.manager.getActiveInstances().filter((candidate) => candidate.persona?.id === to);
+    for (const status of STATUS_PREFERENCE) {
+      const match = candidates.find((candidate) => candidate.status === status);
+      if (match) {
+        return match.id;
+      }
+    }
+    throw new Error(`No instance or running role named ${to}`);
+  }
+
+  private enqueue(
+    fields: Pick<AgentMessage, 'threadId' | 'from' | 'to' | 'kind' | 'body' | 'inReplyTo'>,
+  ): AgentMessage {
+    const message: AgentMessage = {
+      id: `msg-${++this.messageCounter}`,
+      ...fields,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+    };
+    this.messages.set(message.id, message);
+    this.emit('messageQueued', message);
+
+    // The user reads messages in the dashboard, there is nothing to wait for
+    if (message.to === USER_ADDRESS) {
+      this.update(message, { status: 'delivered', deliveredAt: new Date().toISOString() });
+    } else {
+      this.save().catch(console.error);
+      this.deliverNext(message.to);
+    }
+    return message;
+  }
+
+  private update(message: AgentMessage, changes: Partial<AgentMessage>): void {
+    Object.assign(message, changes);
+    this.save().catch(console.error);
+    this.emit('messageUpdated', message);
+  }
+
+  // Send the oldest message queued for an instance, if it is ready to take it
+  private deliverNext(instanceId: string): void {
+    if (!this.running || this.manager.getInstance(instanceId)?.status !== 'ready') {
+      return;
+    }
+    const message = this.list({ instanceId }).find(
+      (candidate) => candidate.to === instanceId && candidate.status === 'queued',
+    );
+    if (!message) {
+      return;
+    }
+
+    this.update(message, { status: 'delivering' });
+    // Called while the instance is still ready, before anything else can claim it
+    this.manager
+      .sendMessage(instanceId, this.formatPrompt(message))
+      .then((response) => {
+        this.update(message, { status: 'delivered', response, deliveredAt: new Date().toISOString() });
+        if (message.kind === 'message' && (message.from === USER_ADDRESS || this.manager.getInstance(message.from))) {
+          this.enqueue({
+            threadId: message.threadId,
+            from: message.to,
+            to: message.from,
+            kind: 'reply',
+            body: response,
+            inReplyTo: message.id,
+          });
+        }
+      })
+      .catch((error) => {
+        this.update(message, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      });
+  }
+
+  private failQueued(instanceId: string): void {
+    for (const message of this.messages.values()) {
+      if (message.to === instanceId && message.status === 'queued') {
+        this.update(message, { status: 'failed', error: `Instance ${instanceId} stopped before delivery` });
+      }
+    }
+  }
+
+  private formatPrompt(message: AgentMessage): string {
+    const sender = this.describe(message.from);
+    const header = {
+      message: `Message ${message.id} from ${sender} (thread ${message.threadId}):`,
+      reply: `Reply from ${sender} to your message ${message.inReplyTo} (thread ${message.threadId}):`,
+      handoff: `Work handed off to you by ${sender} (thread ${message.threadId}):`,
+    }[message.kind];
+    const footer = {
+      message: 'Your answer is sent back to the sender.',
+      reply: 'Continue your work with this answer.',
+      handoff: 'Carry it out. Use send_message with this thread_id if you need to ask the sender anything.',
+    }[message.kind];
+    return `${header}\n\n${message.body}\n\n${footer}`;
+  }
+
+  private describe(address: string): string {
+    if (address === USER_ADDRESS) {
+      return 'the user';
+    }
+    const instance = this.manager.getInstance(address);
+    if (!instance) {
+      return address;
+    }
+    return `${instance.persona ? `${instance.persona.name} ` : ''}"${instance.name}" (${instance.id})`;
+  }
+}
@@ -0,0 +1,609 @@
+import { EventEmitter } from 'node:events';
+import { ClaudeCodeBackend } from './agent-backend.js';
+import { AgentBridge } from './agent-bridge.js';
+import { CassetteBackend } from './cassette-backend.js';
+import { CiMonitor } from './ci-monitor.js';
+import { type ClaudeInstance, ClaudeManager, type InstanceTransition } from './claude-manager.js';
+import type { ClaudeStreamEvent } from './claude-stream.js';
+import { isConfigKey } from './config-schema.js';
+import { type AppConfig, type ConfigChange, ConfigService } from './config.js';
+import { CredentialStore, type SecretCipher, maskCredentialFields } from './credential-store.js';
+import { GitHubIssueTracker } from './github-issue-tracker.js';
+import { InstanceStore } from './instance-store.js';
+import { InstanceWatchdog } from './instance-watchdog.js';
+import {
+  type IpcArgs,
+  type IpcChannel,
+  type IpcData,
+  type IpcEvents,
+  type IpcHandlerResult,
+  type IpcResult,
+  type ManagerEvent,
+  streamChannel,
+  toInstanceSummary,
+  validateIpcArgs,
+} from './ipc-contract.js';
+import type { IssueTracker } from './issue-tracker.js';
+import { LocalIssueTracker } from './local-issue-tracker.js';
+import { McpServerRegistry } from './mcp-servers.js';
+import { MergeQueue } from './merge-queue.js';
+import { type AgentMessage, MessageBus } from './message-bus.js';
+import { type ApprovalRequest, type ApprovalResolution, PermissionBroker } from './permission-broker.js';
+import { PersonaRegistry } from './personas.js';
+import { type Review, ReviewService } from './review-service.js';
+import { TaskDispatcher } from './task-dispatcher.js';
+import { TaskQueue } from './task-queue.js';
+import { TranscriptStore } from './transcript-store.js';
+import { type UsageRecord, UsageTracker } from './usage-tracker.js';
+import { WorkflowEngine, type WorkflowRun } from './workflow-engine.js';
+import { WorkflowRegistry } from './workflows.js';
+import { WorktreeManager } from './worktree-manager.js';
+
+export interface OrchestratorOptions {
+  // Encrypts stored secrets with the OS keyring; without it they are encrypted with a key file
+  keyring?: SecretCipher;
+}
+
+// The team: every service wired together, driven through the IPC contract.
+// Runs in Electron's main process (see ClaudeService) or headless in the daemon.
+export class Orchestrator extends EventEmitter {
+  private claudeManager: ClaudeManager;
+  private backend: CassetteBackend;
+  private agentBridge: AgentBridge;
+  private permissionBroker: PermissionBroker;
+  private messageBus: MessageBus;
+  private workflowRegistry: WorkflowRegistry;
+  private workflowEngine: WorkflowEngine;
+  private mcpServers: McpServerRegistry;
+  private configService: ConfigService;
+  private credentials: CredentialStore;
+  private personaRegistry: PersonaRegistry;
+  private worktreeManager: WorktreeManager;
+  private instanceStore: InstanceStore;
+  private transcriptStore: TranscriptStore;
+  private usageTracker: UsageTracker;
+  private issueTracker?: IssueTracker;
+  private taskQueue: TaskQueue;
+  private taskDispatcher: TaskDispatcher;
+  private watchdog: InstanceWatchdog;
+  private reviewService: ReviewService;
+  private mergeQueue: MergeQueue;
+  private ciMonitor?: CiMonitor;
+
+  private handlers: { [C in IpcChannel]: (...args: IpcArgs<C>) => IpcHandlerResult<C> };
+
+  constructor(options: OrchestratorOptions = {}) {
+    super();
+    this.configService = new ConfigService();
+    this.credentials = new CredentialStore({ keyring: options.keyring });
+    this.personaRegistry = new PersonaRegistry();
+    this.worktreeManager = new WorktreeManager();
+    this.instanceStore = new InstanceStore();
+    this.transcriptStore = new TranscriptStore();
+    this.usageTracker = new UsageTracker();
+    this.backend = new CassetteBackend({
+      live: new ClaudeCodeBackend({ executablePath: () => this.configService.getClaudeExecutablePath() }),
+      redact: (value) => this.credentials.redactValue(value),
+    });
+    this.mcpServers = new McpServerRegistry(this.configService.get('mcpServers'));
+    this.permissionBroker = new PermissionBroker({
+      contextFor: (instanceId) => {
+        const instance = this.claudeManager.getInstance(instanceId);
+        return (
+          instance && {
+            policy: this.claudeManager.getPermissionPolicy(instance),
+            workingDirectory: instance.workingDirectory,
+          }
+        );
+      },
+      redact: (input) => this.credentials.redactValue(input),
+    });
+    this.agentBridge = new AgentBridge();
+    this.agentBridge.register(this.permissionBroker.approvalTool());
+    this.claudeManager = new ClaudeManager({
+      backend: this.backend,
+      bridge: this.agentBridge,
+      mcpServers: this.mcpServers,
+      credentials: this.credentials,
+      claudeExecutablePath: this.configService.getClaudeExecutablePath(),
+      defaultModel: this.configService.get('defaultModel'),
+      maxConcurrentInstances: this.configService.get('maxConcurrentInstances'),
+      permissionPolicy: this.configService.get('permissionPolicy'),
+      personas: this.personaRegistry,
+      worktrees: this.worktreeManager,
+      store: this.instanceStore,
+    });
+
+    this.taskQueue = new TaskQueue();
+    this.taskDispatcher = new TaskDispatcher(this.claudeManager, this.taskQueue, { usage: this.usageTracker });
+    this.watchdog = this.createWatchdog();
+    this.reviewService = new ReviewService(this.claudeManager);
+    this.mergeQueue = this.createMergeQueue();
+    this.messageBus = new MessageBus(this.claudeManager);
+    for (const tool of this.messageBus.bridgeTools()) {
+      this.agentBridge.register(tool);
+    }
+    this.workflowRegistry = new WorkflowRegistry();
+    this.workflowEngine = new WorkflowEngine(this.claudeManager, this.workflowRegistry);
+
+    this.attachManagerEvents();
+    this.handlers = this.createHandlers();
+  }
+
+  async initialize(): Promise<void> {
+    await this.configService.initialize();
+    await this.credentials.load();
+    await this.migrateIssueTrackerToken();
+    await this.personaRegistry.load();
+
+    // The manager was created before the config was loaded; update it rather than replace it,
+    // so nothing holds on to a stale manager
+    this.claudeManager.updateOptions({
+      claudeExecutablePath: this.configService.getClaudeExecutablePath(),
+      defaultModel: this.configService.get('defaultModel'),
+      maxConcurrentInstances: this.configService.get('maxConcurrentInstances'),
+      permissionPolicy: this.configService.get('permissionPolicy'),
+    });
+    this.backend.setMode(this.configService.get('sessionMode'));
+    this.backend.setDirectory(this.configService.get('cassetteDirectory'));
+    this.permissionBroker.setApprovalTimeout(this.configService.get('approvalTimeout'));
+    await this.agentBridge.listen();
+    this.mcpServers.setServers(this.configService.get('mcpServers'));
+    this.issueTracker = this.createIssueTracker();
+    this.claudeManager.setIssueTracker(this.issueTracker);
+
+    // Restore instances before reconciling, so their worktrees are not mistaken for orphans
+    await this.claudeManager.restoreInstances();
+
+    // Clean up worktrees left behind by instances of a previous run that crashed
+    const { removed, archived } = await this.worktreeManager.reconcile();
+    if (removed.length > 0 || archived.length > 0) {
+      console.log(`Cleaned up orphaned worktrees: ${removed.length} removed, ${archived.length} archived`);
+    }
+
+    this.watchdog.setOptions({
+      timeout: this.configService.get('instanceTimeout'),
+      recoveryPolicy: this.configService.get('recoveryPolicy'),
+    });
+    this.watchdog.start();
+
+    await this.usageTracker.load();
+    this.usageTracker.setBudgets({
+      dailyBudgetUsd: this.configService.get('dailyBudgetUsd'),
+      taskBudgetUsd: this.configService.get('taskBudgetUsd'),
+    });
+    this.usageTracker.on('budgetExceeded', () => {
+      // Stop spending right away; the dispatcher stays paused until the budget resets
+      for (const instance of this.claudeManager.getAllInstances()) {
+        if (instance.status === 'busy') {
+          this.claudeManager.abortQuery(instance.id, 'daily budget exceeded');
+        }
+      }
+    });
+
+    await this.taskQueue.load();
+    this.taskDispatcher.start();
+
+    await this.reviewService.load();
+
+    // After instances are restored, so messages queued for them before the restart are delivered
+    await this.messageBus.load();
+    this.messageBus.start();
+
+    // Runs interrupted by the last shutdown continue from the stage they were in
+    await this.workflowRegistry.load();
+    await this.workflowEngine.load();
+    this.workflowEngine.start();
+
+    this.mergeQueue.setOptions({
+      verifyCommand: this.configService.get('verifyCommand'),
+      conflictPolicy: this.configService.get('conflictPolicy'),
+    });
+    await this.mergeQueue.load();
+    this.mergeQueue.start();
+    // Approved branches go straight to the merge queue
+    this.reviewService.on('reviewCompleted', (review: Review) => {
+      if (review.verdict?.decision === 'approve') {
+        this.mergeQueue.enqueue({
+          repository: review.repository,
+          branch: review.branch,
+          targetBranch: review.baseBranch,
+          authorInstanceId: review.authorInstanceId,
+          reviewId: review.id,
+          headCommit: review.headCommit,
+        });
+      }
+    });
+
+    await this.configureCiMonitor();
+
+    this.configService.on('change', (change: ConfigChange) => {
+      this.applyConfigChange(change).catch((error) => console.error(`Failed to apply ${change.key}:`, error));
+      this.broadcast('config:changed', this.redactConfig(change));
+    });
+    this.configService.watch();
+  }
+
+  // Apply a config change to the running services, without recreating the manager or its instances
+  private async applyConfigChange({ key }: ConfigChange): Promise<void> {
+    switch (key) {
+      case 'claudeExecutablePath':
+      case 'defaultModel':
+      case 'maxConcurrentInstances':
+        this.claudeManager.updateOptions({
+          claudeExecutablePath: this.configService.getClaudeExecutablePath(),
+          defaultModel: this.configService.get('defaultModel'),
+          maxConcurrentInstances: this.configService.get('maxConcurrentInstances'),
+        });
+        // A higher limit may let queued tasks start
+        this.taskDispatcher.schedule();
+        break;
+      case 'permissionPolicy':
+        this.claudeManager.updateOptions({ permissionPolicy: this.configService.get('permissionPolicy') });
+        break;
+      case 'instanceTimeout':
+      case 'recoveryPolicy':
+        this.watchdog.setOptions({
+          timeout: this.configService.get('instanceTimeout'),
+          recoveryPolicy: this.configService.get('recoveryPolicy'),
+        });
+        break;
+      case 'dailyBudgetUsd':
+      case 'taskBudgetUsd':
+        this.usageTracker.setBudgets({
+          dailyBudgetUsd: this.configService.get('dailyBudgetUsd'),
+          taskBudgetUsd: this.configService.get('taskBudgetUsd'),
+        });
+        this.taskDispatcher.schedule();
+        break;
+      case 'issueTracker':
+        this.issueTracker = this.createIssueTracker();
+        this.claudeManager.setIssueTracker(this.issueTracker);
+        break;
+      case 'verifyCommand':
+      case 'conflictPolicy':
+        this.mergeQueue.setOptions({
+          verifyCommand: this.configService.get('verifyCommand'),
+          conflictPolicy: this.configService.get('conflictPolicy'),
+        });
+        break;
+      case 'ciMonitor':
+        await this.configureCiMonitor();
+        break;
+      case 'mcpServers':
+        // Queries pick up changed servers; instances keep the names they were created with
+        this.mcpServers.setServers(this.configService.get('mcpServers'));
+        break;
+      case 'approvalTimeout':
+        this.permissionBroker.setApprovalTimeout(this.configService.get('approvalTimeout'));
+        break;
+      case 'sessionMode':
+        this.backend.setMode(this.configService.get('sessionMode'));
+        break;
+      case 'cassetteDirectory':
+        this.backend.setDirectory(this.configService.get('cassetteDirectory'));
+        break;
+    }
+  }
+
+  private async configureCiMonitor(): Promise<void> {
+    const ciConfig = this.configService.get('ciMonitor');
+    const previous = this.ciMonitor;
+    this.ciMonitor = undefined;
+    // A monitor of the same repository takes over its CI Monitor instance; otherwise nothing reports to it
+    if (previous?.getRepository() === ciConfig?.repository) {
+      previous?.stop();
+    } else {
+      await previous?.disable().catch((error) => console.error('Failed to stop the CI Monitor instance:', error));
+    }
+
+    if (ciConfig) {
+      this.ciMonitor = new CiMonitor(this.claudeManager, ciConfig);
+      await this.ciMonitor.load();
+      this.ciMonitor.start();
+    }
+  }
+
+  // Instances read their secrets on every query; only the issue tracker holds on to its token
+  private applySecretChange(name: string): void {
+    if (name === 'GITHUB_TOKEN' && this.configService.get('issueTracker')?.type === 'github') {
+      this.issueTracker = this.createIssueTracker();
+      this.claudeManager.setIssueTracker(this.issueTracker);
+    }
+  }
+
+  // Move a GitHub token written in the global config to the credential store, where it is encrypted.
+  // A token that differs from the stored one, or comes from another layer, is left for the user to remove.
+  private async migrateIssueTrackerToken(): Promise<void> {
+    const config = this.configService.get('issueTracker');
+    if (config?.type !== 'github' || !config.token) {
+      return;
+    }
+    const stored = this.credentials.get('GITHUB_TOKEN');
+    if (
+      this.configService.getSource('issueTracker') !== 'global' ||
+      (stored !== undefined && stored !== config.token)
+    ) {
+      console.warn(
+        'The issue tracker token in the config is not encrypted and the GITHUB_TOKEN secret takes precedence over it; ' +
+          'store it with `coding-team secret-set GITHUB_TOKEN` and remove it from the config',
+      );
+      return;
+    }
+    if (!stored) {
+      await this.credentials.set('GITHUB_TOKEN', config.token);
+    }
+    const { token: _token, ...rest } = config;
+    this.configService.set('issueTracker', rest);
+    console.warn('Moved the issue tracker token from the config to the GITHUB_TOKEN secret');
+  }
+
+  private createIssueTracker(): IssueTracker | undefined {
+    const config = this.configService.get('issueTracker');
+    switch (config?.type) {
+      case 'github':
+        return new GitHubIssueTracker({
+          ...config,
+          token: this.credentials.get('GITHUB_TOKEN') || config.token || process.env.GITHUB_TOKEN,
+        });
+      case 'local':
+        return new LocalIssueTracker(config.directory);
+      default:
+        return undefined;
+    }
+  }
+
+  private requireIssueTracker(): IssueTracker {
+    if (!this.issueTracker) {
+      throw new Error('No issue tracker is configured');
+    }
+    return this.issueTracker;
+  }
+
+  private createWatchdog(): InstanceWatchdog {
+    return new InstanceWatchdog(this.claudeManager, {
+      timeout: this.configService.get('instanceTimeout'),
+      recoveryPolicy: this.configService.get('recoveryPolicy'),
+    });
+  }
+
+  private requireCiMonitor(): CiMonitor {
+    if (!this.ciMonitor) {
+      throw new Error('The CI monitor is not configured');
+    }
+    return this.ciMonitor;
+  }
+
+  private createMergeQueue(): MergeQueue {
+    return new MergeQueue(this.claudeManager, {
+      verifyCommand: this.configService.get('verifyCommand'),
+      conflictPolicy: this.configService.get('conflictPolicy'),
+    });
+  }
+
+  // Config as shown outside the process: stored secrets and credential fields are masked
+  private redactConfig<T>(value: T): T {
+    return maskCredentialFields(this.credentials.redactValue(value));
+  }
+
+  // Emitted as 'event' with the channel and payload, for the windows or control socket clients to receive
+  private broadcast<E extends keyof IpcEvents>(channel: E, payload: IpcEvents[E]): void {
+    this.emit('event', channel, payload);
+  }
+
+  private attachManagerEvents(): void {
+    // Stream progress on a per-instance channel so each view only receives its own instance
+    // Secrets an agent printed or read are masked before they are shown or written to the transcript
+    this.claudeManager.on('instanceStream', (event: ClaudeStreamEvent) => {
+      const redacted = this.credentials.redactValue(event);
+      this.broadcast(streamChannel(event.instanceId), redacted);
+      this.transcriptStore.append(redacted).catch(console.error);
+    });
+
+    this.claudeManager.on('instanceUsage', (record: UsageRecord) => {
+      this.usageTracker.record(record);
+    });
+
+    // Keep instance lists in the windows up to date, including instances that were just created or stopped
+    this.claudeManager.on('instanceTransition', ({ instance, from, to, reason }: InstanceTransition) => {
+      this.broadcast('claude:instance-changed', { instance: toInstanceSummary(instance), from, to, reason });
+    });
+
+    // Lifecycle events, for views that react to them rather than to every status change
+    for (const type of ['instanceCreated', 'instanceBusy', 'instanceReady', 'instanceStopped'] as const) {
+      this.claudeManager.on(type, (instance: ClaudeInstance) => {
+        this.broadcast('claude:manager-event', { type, instance: toInstanceSummary(instance) });
+      });
+    }
+    this.claudeManager.on('instanceError', ({ instance, error }: { instance: ClaudeInstance; error: unknown }) => {
+      const event: ManagerEvent = {
+        type: 'instanceError',
+        instance: toInstanceSummary(instance),
+        error: this.credentials.redact(error instanceof Error ? error.message : String(error)),
+      };
+      this.broadcast('claude:manager-event', event);
+    });
+    this.claudeManager.on('instanceStopped', (instance: ClaudeInstance) => {
+      this.permissionBroker.forget(instance.id);
+    });
+
+    // Actions outside the permission policy wait for an answer from a window or the CLI
+    this.permissionBroker.on('approvalRequested', (request: ApprovalRequest) => {
+      this.broadcast('permissions:approval-requested', request);
+    });
+    this.permissionBroker.on('approvalResolved', (resolution: ApprovalResolution) => {
+      this.broadcast('permissions:approval-resolved', resolution);
+    });
+
+    for (const type of ['messageQueued', 'messageUpdated'] as const) {
+      this.messageBus.on(type, (message: AgentMessage) => this.broadcast('messages:changed', message));
+    }
+    this.workflowEngine.on('runUpdated', (run: WorkflowRun) => this.broadcast('workflows:run-updated', run));
+  }
+
+  // Run the handler of a contract channel. Arguments come from outside the process and are validated first;
+  // the result or error is wrapped in the { success, data } / { success, error } envelope.
+  async invoke<C extends IpcChannel>(channel: C, args: unknown[]): Promise<IpcResult<IpcData<C>>> {
+    try {
+      if (!Object.hasOwn(this.handlers, channel)) {
+        throw new Error(`Unknown channel ${channel}`);
+      }
+      const handler = this.handlers[channel] as (...args: IpcArgs<C>) => IpcHandlerResult<C>;
+      return { success: true, data: (await handler(...validateIpcArgs(channel, args))) as IpcData<C> };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private createHandlers(): Orchestrator['handlers'] {
+    return {
+      // Claude instances
+      'claude:create-instance': async (name, options) =>
+        toInstanceSummary(await this.claudeManager.createInstance(name, options)),
+      'claude:send-message': (instanceId, message) => this.claudeManager.sendMessage(instanceId, message),
+      'claude:send-structured': (instanceId, prompt, schema, options) =>
+        this.claudeManager.sendStructured(instanceId, prompt, schema, options),
+      'claude:stop-instance': (instanceId, options) => this.claudeManager.stopInstance(instanceId, options),
+      'claude:get-instances': () => this.claudeManager.getAllInstances().map(toInstanceSummary),
+      'claude:get-personas': () => this.claudeManager.getPersonas(),
+      'claude:assign-issue': async (instanceId, issueId) => {
+        const instance = await this.claudeManager.assignIssue(instanceId, issueId);
+        return instance.issue;
+      },
+
+      // Read a page of an instance transcript, optionally filtered by message type, or export all of it
+      'claude:get-transcript': (instanceId, query) => this.transcriptStore.read(instanceId, query),
+      'claude:export-transcript': (instanceId, format) => this.transcriptStore.export(instanceId, format),
+
+      // Work queue
+      'tasks:enqueue': (input) => this.taskDispatcher.enqueue(input),
+      'tasks:cancel': (taskId) => this.taskDispatcher.cancel(taskId),
+      'tasks:list': () => this.taskDispatcher.list(),
+
+      // Issues of the configured tracker
+      'issues:list': (filter) => this.requireIssueTracker().listIssues(filter),
+      'issues:get': (issueId) => this.requireIssueTracker().getIssue(issueId),
+      'issues:comment': (issueId, body) => this.requireIssueTracker().comment(issueId, body),
+      'issues:add-labels': (issueId, labels) => this.requireIssueTracker().addLabels(issueId, labels),
+      'issues:remove-label': (issueId, label) => this.requireIssueTracker().removeLabel(issueId, label),
+      'issues:assign': (issueId, assignees) => this.requireIssueTracker().assign(issueId, assignees),
+      'issues:close': (issueId) => this.requireIssueTracker().close(issueId),
+
+      // Review a branch against its base; the verdict is filled in once the reviewer replies
+      'reviews:request': (request) => {
+        const { review, done } = this.reviewService.request(request);
+        done.catch(console.error);
+        return review;
+      },
+      'reviews:list': () => this.reviewService.list(),
+      'reviews:get': (reviewId) => {
+        const review = this.reviewService.get(reviewId);
+        if (!review) {
+          throw new Error(`Review ${reviewId} not found`);
+        }
+        return review;
+      },
+
+      // Merge queue: land branches once the verification command passes
+      'merge-queue:enqueue': (input) => this.mergeQueue.enqueue(input),
+      'merge-queue:remove': (entryId) => this.mergeQueue.remove(entryId),
+      'merge-queue:list': () => this.mergeQueue.list(),
+      'merge-queue:get-log': (entryId) => this.mergeQueue.getLog(entryId),
+
+      // CI monitor runs and their failure reports
+      'ci:run-now': () => this.requireCiMonitor().runNow(),
+      'ci:get-runs': () => this.ciMonitor?.getRuns() ?? [],
+      'ci:get-report': (runId) => this.requireCiMonitor().getReport(runId),
+
+      // Usage and cost aggregated per instance, persona and day
+      'usage:get-summary': () => this.usageTracker.getSummary(),
+
+      // Approval of actions outside the permission policy, and the log of every decision
+      'permissions:list-pending': () => this.permissionBroker.getPending(),
+      'permissions:respond': (approvalId, response) => this.permissionBroker.respond(approvalId, response),
+      'permissions:get-audit': (query) => this.permissionBroker.readAudit(query),
+
+      // Messages and handoffs between instances and the user
+      'messages:send': (input) => this.messageBus.send(input),
+      'messages:list': (query) => this.messageBus.list(query),
+      'messages:get-graph': () => this.messageBus.getGraph(),
+
+      // Workflows and their runs, with the progress of each stage
+      'workflows:list': () => this.workflowRegistry.getAll(),
+      'workflows:start': (input) => this.workflowEngine.startRun(input),
+      'workflows:list-runs': () => this.workflowEngine.list(),
+      'workflows:get-run': (runId) => {
+        const run = this.workflowEngine.get(runId);
+        if (!run) {
+          throw new Error(`Workflow run ${runId} not found`);
+        }
+        return run;
+      },
+      'workflows:cancel-run': (runId) => this.workflowEngine.cancel(runId),
+
+      // Stored secrets; their values are never returned
+      'secrets:list': () => this.credentials.list(),
+      'secrets:set': async (name, value) => {
+        const secret = await this.credentials.set(name, value);
+        this.applySecretChange(name);
+        return secret;
+      },
+      'secrets:rotate': async (name, value) => {
+        const secret = await this.credentials.rotate(name, value);
+        this.applySecretChange(name);
+        return secret;
+      },
+      'secrets:delete': async (name) => {
+        await this.credentials.delete(name);
+        this.applySecretChange(name);
+      },
+
+      // Configured MCP servers, their health and the tools they expose
+      'mcp:list-servers': () => this.mcpServers.list(),
+      'mcp:check-server': (name) => this.mcpServers.check(name),
+
+      // Config; set values are validated and applied to the running services
+      'config:get': () => this.redactConfig(this.configService.getAll()),
+      'config:get-resolved': () => this.redactConfig(this.configService.getResolved()),
+      'config:set': (key, value) => {
+        if (!isConfigKey(key)) {
+          throw new Error(`Unknown config key "${key}"`);
+        }
+        // The config is written in plain text; the token belongs in the encrypted credential store
+        if (key === 'issueTracker' && typeof value === 'object' && value !== null && 'token' in value) {
+          throw new Error(
+            'The issue tracker token cannot be set in the config; store it with `coding-team secret-set GITHUB_TOKEN`',
+          );
+        }
+        this.configService.set(key, value as AppConfig[typeof key]);
+        return this.redactConfig(this.configService.getResolved()[key]);
+      },
+      'config:set-claude-path': (path) => this.configService.setClaudeExecutablePath(path),
+    };
+  }
+
+  async cleanup(): Promise<void> {
+    this.configService.unwatch();
+    this.taskDispatcher.stop();
+    this.messageBus.stop();
+    this.workflowEngine.stop();
+    this.watchdog.stop();
+    this.ciMonitor?.stop();
+    // Keep instances persisted so they resume their sessions on the next start
+    await this.claudeManager.shutdown();
+    await this.taskQueue.flush();
+    await this.transcriptStore.flush();
+    await this.usageTracker.flush();
+    await this.reviewService.flush();
+    await this.mergeQueue.flush();
+    await this.messageBus.flush();
+    await this.workflowEngine.flush();
+    await this.credentials.flush();
+    await this.backend.flush();
+    await this.permissionBroker.close();
+    await this.agentBridge.close();
+  }
+}
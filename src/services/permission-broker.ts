@@ -0,0 +1,302 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { BRIDGE_SERVER_NAME, type BridgeTool, bridgeToolName } from './agent-bridge.js';
+import { type PermissionPolicy, type PermissionRequest, evaluatePermission, requestPath } from './permission-policy.js';
+import { WriteQueue } from './write-queue.js';
+
+// The bridge tool the Claude Code CLI asks for permission, and the name it calls it by
+export const APPROVAL_TOOL = 'approve';
+export const PERMISSION_PROMPT_TOOL = bridgeToolName(APPROVAL_TOOL);
+
+// What the user answers to an approval request. always-allow also approves the same action
+// for the rest of the instance's life.
+export type ApprovalResponse = 'approve' | 'deny' | 'always-allow';
+
+// An action outside the policy, waiting for the user
+export interface ApprovalRequest {
+  id: string;
+  instanceId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  // Why the policy did not allow it
+  reason: string;
+  requestedAt: string;
+}
+
+// Who made a permission decision:
+// - policy: the configured rules
+// - remembered: an earlier always-allow answer
+// - user: an answer to an approval request
+// - timeout, cancelled: nobody answered in time, or the query ended first
+export type DecidedBy = 'policy' | 'remembered' | 'user' | 'timeout' | 'cancelled';
+
+export interface PermissionAuditEntry {
+  timestamp: string;
+  instanceId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  decision: 'allow' | 'deny';
+  decidedBy: DecidedBy;
+  reason: string;
+  approvalId?: string;
+}
+
+export interface ApprovalResolution {
+  id: string;
+  instanceId: string;
+  decision: 'allow' | 'deny';
+  decidedBy: DecidedBy;
+}
+
+export interface PermissionContext {
+  policy: PermissionPolicy;
+  workingDirectory: string;
+}
+
+export interface PermissionBrokerOptions {
+  // The policy and working directory of an instance, undefined when there is no such instance
+  contextFor: (instanceId: string) => PermissionContext | undefined;
+  // ~/.coding-team/permission-audit.jsonl by default
+  auditPath?: string;
+  // Milliseconds an approval request waits before the action is denied
+  approvalTimeout?: number;
+  // Masks secrets in the inputs shown for approval and written to the audit log
+  redact?: (input: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  instanceId?: string;
+  // Only the last `limit` entries
+  limit?: number;
+}
+
+// What the approval tool answers the Claude Code CLI
+type PromptDecision =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  timer: NodeJS.Timeout;
+  settle: (response: ApprovalResponse | 'timeout' | 'cancelled') => void;
+}
+
+// Identifies an action for always-allow: the exact command or file, or else the tool
+function actionKey(request: PermissionRequest, workingDirectory: string): string {
+  if (request.toolName === 'Bash' && typeof request.input.command === 'string') {
+    return `Bash(${request.input.command})`;
+  }
+  const file = requestPath(request);
+  return file === undefined ? request.toolName : `${request.toolName}(${path.resolve(workingDirectory, file)})`;
+}
+
+// Decides what instances may do: by policy when it can, by asking the user otherwise.
+// The Claude Code CLI of each query asks through the approval tool of the agent bridge.
+// Every decision is appended to the audit log.
+export class PermissionBroker extends EventEmitter {
+  private contextFor: (instanceId: string) => PermissionContext | undefined;
+  private auditPath: string;
+  private approvalTimeout: number;
+  private pending: Map<string, PendingApproval> = new Map();
+  private alwaysAllowed: Map<string, Set<string>> = new Map();
+  private approvalCounter = 0;
+  private audit = new WriteQueue();
+  private redact: (input: Record<string, unknown>) => Record<string, unknown>;
+
+  constructor(options: PermissionBrokerOptions) {
+    super();
+    this.contextFor = options.contextFor;
+    this.redact = options.redact ?? ((input) => input);
+    this.auditPath = options.auditPath || path.join(os.homedir(), '.coding-team', 'permission-audit.jsonl');
+    this.approvalTimeout = options.approvalTimeout ?? 300000;
+  }
+
+  setApprovalTimeout(approvalTimeout: number): void {
+    this.approvalTimeout = approvalTimeout;
+  }
+
+  // The permission prompt tool, to register with the agent bridge
+  approvalTool(): BridgeTool {
+    return {
+      name: APPROVAL_TOOL,
+      description: 'Asks Coding Team whether the agent may use a tool',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool_name: { type: 'string' },
+          input: { type: 'object' },
+          tool_use_id: { type: 'string' },
+        },
+        required: ['tool_name', 'input'],
+      },
+      call: async (instanceId, args, signal) => {
+        if (typeof args.tool_name !== 'string') {
+          throw new Error('Missing tool_name');
+        }
+        const input =
+          typeof args.input === 'object' && args.input !== null ? (args.input as Record<string, unknown>) : {};
+        const { decision, reason } = await this.decide(instanceId, { toolName: args.tool_name, input }, signal);
+        const answer: PromptDecision =
+          decision === 'allow'
+            ? { behavior: 'allow', updatedInput: input }
+            : { behavior: 'deny', message: `Permission denied: ${reason}` };
+        return JSON.stringify(answer);
+      },
+    };
+  }
+
+  // Decide whether an instance may run a tool. Resolves once the policy or the user decided;
+  // aborting `signal` denies a request that is still waiting for the user.
+  async decide(
+    instanceId: string,
+    request: PermissionRequest,
+    signal?: AbortSignal,
+  ): Promise<{ decision: 'allow' | 'deny'; reason: string }> {
+    const context = this.contextFor(instanceId);
+    if (!context) {
+      return this.record(instanceId, request, 'deny', 'policy', `instance ${instanceId} does not exist`);
+    }
+
+    // The agent bridge's own tools are how agents work with the team
+    if (request.toolName.startsWith(`mcp__${BRIDGE_SERVER_NAME}__`)) {
+      return this.record(instanceId, request, 'allow', 'policy', 'Coding Team tools are always allowed');
+    }
+
+    const evaluation = evaluatePermission(context.policy, request, context.workingDirectory);
+    if (evaluation.decision !== 'ask') {
+      return this.record(instanceId, request, evaluation.decision, 'policy', evaluation.reason);
+    }
+    const key = actionKey(request, context.workingDirectory);
+    if (this.alwaysAllowed.get(instanceId)?.has(key)) {
+      return this.record(instanceId, request, 'allow', 'remembered', `${key} was always allowed`);
+    }
+
+    const approval: ApprovalRequest = {
+      id: `approval-${++this.approvalCounter}`,
+      instanceId,
+      toolName: request.toolName,
+      input: this.redact(request.input),
+      reason: evaluation.reason,
+      requestedAt: new Date().toISOString(),
+    };
+    const response = await new Promise<ApprovalResponse | 'timeout' | 'cancelled'>((resolve) => {
+      const settle = (answer: ApprovalResponse | 'timeout' | 'cancelled') => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', cancel);
+        this.pending.delete(approval.id);
+        resolve(answer);
+      };
+      const cancel = () => settle('cancelled');
+      const timer = setTimeout(() => settle('timeout'), this.approvalTimeout);
+      this.pending.set(approval.id, { request: approval, timer, settle });
+      if (signal?.aborted) {
+        cancel();
+        return;
+      }
+      signal?.addEventListener('abort', cancel, { once: true });
+      this.emit('approvalRequested', approval);
+    });
+
+    if (response === 'always-allow') {
+      const allowed = this.alwaysAllowed.get(instanceId) ?? new Set();
+      allowed.add(key);
+      this.alwaysAllowed.set(instanceId, allowed);
+    }
+    const decision = response === 'approve' || response === 'always-allow' ? 'allow' : 'deny';
+    const decidedBy: DecidedBy = response === 'timeout' || response === 'cancelled' ? response : 'user';
+    const reasons: Record<typeof response, string> = {
+      approve: 'approved by the user',
+      deny: 'denied by the user',
+      'always-allow': 'always allowed by the user',
+      timeout: `no answer within ${Math.round(this.approvalTimeout / 1000)}s`,
+      cancelled: 'the query ended before an answer',
+    };
+    const resolution: ApprovalResolution = { id: approval.id, instanceId, decision, decidedBy };
+    this.emit('approvalResolved', resolution);
+    return this.record(instanceId, request, decision, decidedBy, reasons[response], approval.id);
+  }
+
+  // Answer an approval request
+  respond(approvalId: string, response: ApprovalResponse): void {
+    const pending = this.pending.get(approvalId);
+    if (!pending) {
+      throw new Error(`Approval request ${approvalId} not found or already answered`);
+    }
+    pending.settle(response);
+  }
+
+  getPending(): ApprovalRequest[] {
+    return [...this.pending.values()].map((pending) => pending.request);
+  }
+
+  // Drop the always-allow answers and pending requests of a stopped instance
+  forget(instanceId: string): void {
+    this.alwaysAllowed.delete(instanceId);
+    for (const pending of [...this.pending.values()]) {
+      if (pending.request.instanceId === instanceId) {
+        pending.settle('cancelled');
+      }
+    }
+  }
+
+  private record(
+    instanceId: string,
+    request: PermissionRequest,
+    decision: 'allow' | 'deny',
+    decidedBy: DecidedBy,
+    reason: string,
+    approvalId?: string,
+  ): { decision: 'allow' | 'deny'; reason: string } {
+    const entry: PermissionAuditEntry = {
+      timestamp: new Date().toISOString(),
+      instanceId,
+      toolName: request.toolName,
+      input: this.redact(request.input),
+      decision,
+      decidedBy,
+      reason,
+      approvalId,
+    };
+    const line = `${JSON.stringify(entry)}\n`;
+    this.audit
+      .run(async () => {
+        await fs.mkdir(path.dirname(this.auditPath), { recursive: true });
+        await fs.appendFile(this.auditPath, line);
+      })
+      .catch((error) => console.error(`Failed to write the permission audit log ${this.auditPath}:`, error));
+    return { decision, reason };
+  }
+
+  async readAudit(query: AuditQuery = {}): Promise<PermissionAuditEntry[]> {
+    await this.audit.flush();
+    let data: string;
+    try {
+      data = await fs.readFile(this.auditPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = data
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as PermissionAuditEntry)
+      .filter((entry) => !query.instanceId || entry.instanceId === query.instanceId);
+    return query.limit === undefined ? entries : entries.slice(Math.max(0, entries.length - query.limit));
+  }
+
+  async flush(): Promise<void> {
+    await this.audit.flush();
+  }
+
+  async close(): Promise<void> {
+    for (const pending of [...this.pending.values()]) {
+      pending.settle('cancelled');
+    }
+    await this.flush();
+  }
+}
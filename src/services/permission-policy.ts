@@ -0,0 +1,178 @@
+import path from 'node:path';
+
+// What instances may do without asking. Set globally in config and per persona; the rules add up.
+// Patterns are globs: `*` matches anything in tool names and commands, and anything but `/` in paths.
+export interface PermissionPolicy {
+  // Tools that run without asking, e.g. "WebSearch" or "mcp__github__*"
+  allowedTools?: string[];
+  // Tools that are always refused. Denials win over every allow rule.
+  deniedTools?: string[];
+  // Bash commands, e.g. "npm test*". A command chained with && ; or | must match for every part.
+  allowedCommands?: string[];
+  deniedCommands?: string[];
+  // Files inside the working directory, relative to it, e.g. "src/**". Files outside it always need approval.
+  allowedPaths?: string[];
+  deniedPaths?: string[];
+}
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+export interface PermissionRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export interface PermissionEvaluation {
+  decision: PermissionDecision;
+  reason: string;
+}
+
+const RULE_FIELDS = [
+  'allowedTools',
+  'deniedTools',
+  'allowedCommands',
+  'deniedCommands',
+  'allowedPaths',
+  'deniedPaths',
+] as const satisfies ReadonlyArray<keyof PermissionPolicy>;
+
+// Input fields holding the file or directory a tool works on
+const PATH_FIELDS = ['file_path', 'notebook_path', 'path'];
+
+// Returns why the value is not a valid policy, or undefined when it is
+export function validatePermissionPolicy(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object';
+  }
+  for (const [key, rules] of Object.entries(value)) {
+    if (!(RULE_FIELDS as readonly string[]).includes(key)) {
+      return `has an unknown field "${key}"`;
+    }
+    if (!Array.isArray(rules) || !rules.every((rule) => typeof rule === 'string' && rule !== '')) {
+      return `"${key}" must be an array of non-empty strings`;
+    }
+  }
+  return undefined;
+}
+
+export function mergePolicies(...policies: Array<PermissionPolicy | undefined>): PermissionPolicy {
+  const merged: PermissionPolicy = {};
+  for (const field of RULE_FIELDS) {
+    const rules = policies.flatMap((policy) => policy?.[field] ?? []);
+    if (rules.length > 0) {
+      merged[field] = [...new Set(rules)];
+    }
+  }
+  return merged;
+}
+
+export function globToRegExp(pattern: string, pathSeparators = false): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      // `**/` also matches no directory at all
+      source += pattern[index + 2] === '/' ? '(?:.*/)?' : '.*';
+      index += pattern[index + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += pathSeparators ? '[^/]*' : '.*';
+    } else if (char === '?') {
+      source += pathSeparators ? '[^/]' : '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function matchesAny(patterns: string[] | undefined, value: string, pathSeparators = false): boolean {
+  return (patterns ?? []).some((pattern) => globToRegExp(pattern, pathSeparators).test(value));
+}
+
+// The commands of a shell line, or undefined when it substitutes commands and cannot be checked part by part
+export function splitCommand(command: string): string[] | undefined {
+  if (/`|\$\(|<\(|>\(|\n/.test(command)) {
+    return undefined;
+  }
+  return command
+    .split(/&&|\|\||[;|&]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// The file a tool works on, or undefined for tools that do not take one
+export function requestPath(request: PermissionRequest): string | undefined {
+  for (const field of PATH_FIELDS) {
+    const value = request.input[field];
+    if (typeof value === 'string' && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function evaluateCommand(policy: PermissionPolicy, command: string): PermissionEvaluation {
+  const parts = splitCommand(command);
+  if (parts?.some((part) => matchesAny(policy.deniedCommands, part)) || matchesAny(policy.deniedCommands, command)) {
+    return { decision: 'deny', reason: `command "${command}" is denied by policy` };
+  }
+  if (matchesAny(policy.allowedTools, 'Bash')) {
+    return { decision: 'allow', reason: 'Bash is allowed by policy' };
+  }
+  // Patterns match the command, not the files a redirection reads or writes, e.g. `npm test > ~/.bashrc`
+  if (/[<>]/.test(command)) {
+    return { decision: 'ask', reason: `command "${command}" redirects its input or output` };
+  }
+  if (parts && parts.length > 0 && parts.every((part) => matchesAny(policy.allowedCommands, part))) {
+    return { decision: 'allow', reason: `command "${command}" is allowed by policy` };
+  }
+  return {
+    decision: 'ask',
+    reason: parts ? `command "${command}" is not in the allowed commands` : `command "${command}" cannot be checked`,
+  };
+}
+
+function evaluatePath(
+  policy: PermissionPolicy,
+  request: PermissionRequest,
+  file: string,
+  workingDirectory: string,
+): PermissionEvaluation {
+  const relative = path.relative(workingDirectory, path.resolve(workingDirectory, file));
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return { decision: 'ask', reason: `${file} is outside the working directory` };
+  }
+  const normalized = relative.split(path.sep).join('/') || '.';
+  if (matchesAny(policy.deniedPaths, normalized, true)) {
+    return { decision: 'deny', reason: `${normalized} is denied by policy` };
+  }
+  if (matchesAny(policy.allowedTools, request.toolName)) {
+    return { decision: 'allow', reason: `${request.toolName} is allowed by policy` };
+  }
+  if (matchesAny(policy.allowedPaths, normalized, true)) {
+    return { decision: 'allow', reason: `${normalized} is allowed by policy` };
+  }
+  return { decision: 'ask', reason: `${request.toolName} on ${normalized} is not allowed by policy` };
+}
+
+// Decide whether an instance working in `workingDirectory` may use a tool, or must ask first
+export function evaluatePermission(
+  policy: PermissionPolicy,
+  request: PermissionRequest,
+  workingDirectory: string,
+): PermissionEvaluation {
+  if (matchesAny(policy.deniedTools, request.toolName)) {
+    return { decision: 'deny', reason: `${request.toolName} is denied by policy` };
+  }
+  if (request.toolName === 'Bash' && typeof request.input.command === 'string') {
+    return evaluateCommand(policy, request.input.command);
+  }
+  const file = requestPath(request);
+  if (file !== undefined) {
+    return evaluatePath(policy, request, file, workingDirectory);
+  }
+  if (matchesAny(policy.allowedTools, request.toolName)) {
+    return { decision: 'allow', reason: `${request.toolName} is allowed by policy` };
+  }
+  return { decision: 'ask', reason: `${request.toolName} is not in the allowed tools` };
+}
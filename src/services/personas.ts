@@ -0,0 +1,238 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { type PermissionPolicy, validatePermissionPolicy } from './permission-policy.js';
+
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  model?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  maxTurns?: number;
+  permissionMode?: PermissionMode;
+  // Added to the configured permission policy for instances of this persona
+  permissions?: PermissionPolicy;
+  // Names of configured MCP servers attached to instances of this persona
+  mcpServers?: string[];
+  // Names of stored secrets set in the environment of instances of this persona
+  secrets?: string[];
+  builtIn?: boolean;
+}
+
+const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'bypassPermissions', 'plan'];
+
+// Tools that modify the working tree. Roles that only read and report get these disallowed.
+const EDITING_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'developer',
+    name: 'Developer',
+    description: 'Implements features and fixes for an assigned ticket',
+    systemPrompt:
+      'You are a developer on a software team. You are assigned one ticket at a time. ' +
+      'Implement it in the current working directory with small, focused commits, add or update tests, ' +
+      'and make sure the build, linter and tests pass before reporting that you are done.',
+    permissionMode: 'acceptEdits',
+    maxTurns: 50,
+  },
+  {
+    id: 'pr-reviewer',
+    name: 'PR Reviewer',
+    description: 'Reviews changes for correctness, quality and best practices',
+    systemPrompt:
+      'You are a code reviewer on a software team. Review the changes you are given for correctness, ' +
+      'readability, test coverage and consistency with the existing code. Do not modify files. ' +
+      'End your review with a clear decision: approve, request changes, or comment.',
+    disallowedTools: EDITING_TOOLS,
+    permissionMode: 'default',
+    maxTurns: 20,
+  },
+  {
+    id: 'landing-manager',
+    name: 'Landing Manager',
+    description: 'Merges approved changes once CI passes and resolves merge conflicts',
+    systemPrompt:
+      'You are the landing manager of a software team. You merge approved branches into the target branch. ' +
+      'Only land changes whose verification passes. When a rebase conflicts, resolve the conflict while ' +
+      'preserving the intent of both sides, or explain why it must go back to its author.',
+    permissionMode: 'acceptEdits',
+    maxTurns: 30,
+  },
+  {
+    id: 'ci-monitor',
+    name: 'CI Health Monitor',
+    description: 'Investigates CI failures and reports recurring problems',
+    systemPrompt:
+      'You are the CI health monitor of a software team. Investigate build, lint and test failures, ' +
+      'identify their root cause, distinguish flaky tests from real regressions, and describe a concrete fix.',
+    disallowedTools: EDITING_TOOLS,
+    permissionMode: 'default',
+    maxTurns: 30,
+  },
+  {
+    id: 'code-quality-manager',
+    name: 'Code Quality Manager',
+    description: 'Tracks technical debt and suggests refactoring opportunities',
+    systemPrompt:
+      'You are the code quality manager of a software team. Survey the codebase for technical debt, ' +
+      'duplicated logic, missing tests and risky areas. Propose small, prioritized refactoring tasks. ' +
+      'Do not modify files.',
+    disallowedTools: EDITING_TOOLS,
+    permissionMode: 'default',
+    maxTurns: 30,
+  },
+  {
+    id: 'spec-refiner',
+    name: 'Spec Refiner',
+    description: 'Turns issues into clear, actionable specifications',
+    systemPrompt:
+      'You are the spec refiner of a software team. Rewrite the issues you are given so that they are clear ' +
+      'and actionable: state the goal, add acceptance criteria, list open questions, and split large issues ' +
+      'into smaller tasks. Do not modify files.',
+    disallowedTools: EDITING_TOOLS,
+    permissionMode: 'default',
+    maxTurns: 20,
+  },
+];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// Validate a persona loaded from disk. The id defaults to the file name.
+export function parsePersona(raw: unknown, fallbackId: string): Persona {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('persona must be a JSON object');
+  }
+  const data = raw as Record<string, unknown>;
+
+  const id = data.id ?? fallbackId;
+  if (typeof id !== 'string' || id.length === 0) {
+    throw new Error('"id" must be a non-empty string');
+  }
+  if (typeof data.name !== 'string' || data.name.length === 0) {
+    throw new Error('"name" must be a non-empty string');
+  }
+  if (typeof data.systemPrompt !== 'string' || data.systemPrompt.length === 0) {
+    throw new Error('"systemPrompt" must be a non-empty string');
+  }
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    throw new Error('"description" must be a string');
+  }
+  if (data.model !== undefined && typeof data.model !== 'string') {
+    throw new Error('"model" must be a string');
+  }
+  if (data.allowedTools !== undefined && !isStringArray(data.allowedTools)) {
+    throw new Error('"allowedTools" must be an array of strings');
+  }
+  if (data.disallowedTools !== undefined && !isStringArray(data.disallowedTools)) {
+    throw new Error('"disallowedTools" must be an array of strings');
+  }
+  if (data.maxTurns !== undefined && (!Number.isInteger(data.maxTurns) || (data.maxTurns as number) <= 0)) {
+    throw new Error('"maxTurns" must be a positive integer');
+  }
+  if (data.permissionMode !== undefined && !PERMISSION_MODES.includes(data.permissionMode as PermissionMode)) {
+    throw new Error(`"permissionMode" must be one of ${PERMISSION_MODES.join(', ')}`);
+  }
+  if (data.mcpServers !== undefined && !isStringArray(data.mcpServers)) {
+    throw new Error('"mcpServers" must be an array of strings');
+  }
+  if (data.secrets !== undefined && !isStringArray(data.secrets)) {
+    throw new Error('"secrets" must be an array of strings');
+  }
+  const policyProblem = data.permissions === undefined ? undefined : validatePermissionPolicy(data.permissions);
+  if (policyProblem) {
+    throw new Error(`"permissions" ${policyProblem}`);
+  }
+
+  return {
+    id,
+    name: data.name,
+    description: (data.description as string | undefined) ?? '',
+    systemPrompt: data.systemPrompt,
+    model: data.model as string | undefined,
+    allowedTools: data.allowedTools as string[] | undefined,
+    disallowedTools: data.disallowedTools as string[] | undefined,
+    maxTurns: data.maxTurns as number | undefined,
+    permissionMode: data.permissionMode as PermissionMode | undefined,
+    permissions: data.permissions as PermissionPolicy | undefined,
+    mcpServers: data.mcpServers as string[] | undefined,
+    secrets: data.secrets as string[] | undefined,
+  };
+}
+
+export class PersonaRegistry {
+  private personasDir: string;
+  private personas: Map<string, Persona> = new Map();
+  // Files skipped by the last load, with the reason
+  private loadErrors: string[] = [];
+
+  constructor(personasDir?: string) {
+    this.personasDir = personasDir || path.join(os.homedir(), '.coding-team', 'personas');
+    this.reset();
+  }
+
+  private reset(): void {
+    this.personas.clear();
+    for (const persona of BUILT_IN_PERSONAS) {
+      this.personas.set(persona.id, { ...persona, builtIn: true });
+    }
+  }
+
+  // Load user-defined personas. A user persona with the id of a built-in one replaces it. An invalid file
+  // is skipped with a warning, so one mistake does not keep the app from starting.
+  async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.personasDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.reset();
+        return;
+      }
+      throw error;
+    }
+
+    const loaded: Persona[] = [];
+    const loadErrors: string[] = [];
+    for (const file of files.filter((name) => name.endsWith('.json')).sort()) {
+      const filePath = path.join(this.personasDir, file);
+      try {
+        const raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        loaded.push(parsePersona(raw, path.basename(file, '.json')));
+      } catch (error) {
+        const message = `Invalid persona file ${filePath}: ${error instanceof Error ? error.message : error}`;
+        console.warn(message);
+        loadErrors.push(message);
+      }
+    }
+
+    this.reset();
+    this.loadErrors = loadErrors;
+    for (const persona of loaded) {
+      this.personas.set(persona.id, persona);
+    }
+  }
+
+  get(id: string): Persona | undefined {
+    return this.personas.get(id);
+  }
+
+  getAll(): Persona[] {
+    return Array.from(this.personas.values());
+  }
+
+  getLoadErrors(): string[] {
+    return [...this.loadErrors];
+  }
+
+  getPersonasDir(): string {
+    return this.personasDir;
+  }
+}
@@ -0,0 +1,359 @@
+import { execFile } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { ClaudeInstance, ClaudeManager } from './claude-manager.js';
+import { WriteQueue } from './write-queue.js';
+
+const execFileAsync = promisify(execFile);
+
+export type ReviewDecision = 'approve' | 'request-changes' | 'comment';
+
+export interface ReviewComment {
+  file: string;
+  line?: number;
+  body: string;
+}
+
+export interface ReviewVerdict {
+  decision: ReviewDecision;
+  summary: string;
+  comments: ReviewComment[];
+}
+
+export interface Review {
+  id: string;
+  repository: string;
+  branch: string;
+  baseBranch: string;
+  baseCommit?: string;
+  headCommit?: string;
+  // Developer instance that produced the branch. Receives the comments when changes are requested.
+  authorInstanceId?: string;
+  reviewerInstanceId?: string;
+  // Set when the service created the reviewer. It is stopped, with its worktree, once the branch is approved
+  // or runs out of iterations.
+  ownsReviewer?: boolean;
+  // 1 for the first review of a branch, incremented on every round of requested changes
+  iteration: number;
+  maxIterations: number;
+  status: 'pending' | 'completed' | 'failed';
+  verdict?: ReviewVerdict;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface ReviewRequest {
+  repository: string;
+  branch: string;
+  baseBranch?: string;
+  authorInstanceId?: string;
+  // Reuse an existing reviewer instance instead of creating one
+  reviewerInstanceId?: string;
+  maxIterations?: number;
+}
+
+// Diffs larger than this are truncated before being sent to the reviewer
+const MAX_DIFF_LENGTH = 200_000;
+
+const DECISIONS: ReviewDecision[] = ['approve', 'request-changes', 'comment'];
+
+// Extract the verdict from the reviewer reply: the last ```json block, or the reply itself
+export function parseReviewVerdict(reply: string): ReviewVerdict {
+  const blocks = Array.from(reply.matchAll(/```(?:json)?\s*\n([\s\S]*?)\n```/g));
+  const candidate = blocks.length > 0 ? blocks[blocks.length - 1][1] : reply;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(candidate.trim());
+  } catch {
+    throw new Error('Reviewer reply does not contain a JSON verdict');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Reviewer verdict must be a JSON object');
+  }
+
+  const raw = data as Record<string, unknown>;
+  if (!DECISIONS.includes(raw.decision as ReviewDecision)) {
+    throw new Error(`Reviewer verdict "decision" must be one of ${DECISIONS.join(', ')}`);
+  }
+  const comments = raw.comments ?? [];
+  if (!Array.isArray(comments)) {
+    throw new Error('Reviewer verdict "comments" must be an array');
+  }
+
+  return {
+    decision: raw.decision as ReviewDecision,
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    comments: comments.map((comment, index) => {
+      if (typeof comment?.file !== 'string' || typeof comment?.body !== 'string') {
+        throw new Error(`Reviewer comment ${index} must have a "file" and a "body"`);
+      }
+      return {
+        file: comment.file,
+        line: Number.isInteger(comment.line) ? comment.line : undefined,
+        body: comment.body,
+      };
+    }),
+  };
+}
+
+export function buildReviewPrompt(review: Review, log: string, diff: string): string {
+  const truncated = diff.length > MAX_DIFF_LENGTH;
+  return [
+    `Review the changes of branch ${review.branch} against ${review.baseBranch} in ${review.repository}.`,
+    review.iteration > 1 ? `This is review round ${review.iteration}; earlier comments were sent to the author.` : '',
+    '',
+    'Commits:',
+    log || '(none)',
+    '',
+    `Diff${truncated ? ` (truncated to the first ${MAX_DIFF_LENGTH} characters)` : ''}:`,
+    '```diff',
+    truncated ? diff.slice(0, MAX_DIFF_LENGTH) : diff,
+    '```',
+    '',
+    'End your reply with your verdict as a JSON code block of this shape:',
+    '```json',
+    '{"decision": "approve" | "request-changes" | "comment", "summary": "...", "comments": [{"file": "path/in/repo", "line": 12, "body": "..."}]}',
+    '```',
+  ]
+    .filter((line, index, lines) => line !== '' || lines[index - 1] !== '')
+    .join('\n');
+}
+
+export function formatReviewFeedback(review: Review, verdict: ReviewVerdict): string {
+  const comments = verdict.comments.map(
+    (comment) => `- ${comment.file}${comment.line !== undefined ? `:${comment.line}` : ''}: ${comment.body}`,
+  );
+  return [
+    `The review of branch ${review.branch} requested changes.`,
+    '',
+    verdict.summary,
+    '',
+    ...comments,
+    '',
+    'Address these comments, commit the changes on the same branch, and reply when you are done.',
+  ].join('\n');
+}
+
+export class ReviewService extends EventEmitter {
+  private manager: ClaudeManager;
+  private storePath: string;
+  private reviews: Map<string, Review> = new Map();
+  private reviewCounter = 0;
+  private writes = new WriteQueue();
+
+  constructor(manager: ClaudeManager, storePath?: string) {
+    super();
+    this.manager = manager;
+    this.storePath = storePath || path.join(os.homedir(), '.coding-team', 'reviews.json');
+  }
+
+  async load(): Promise<void> {
+    let stored: Review[];
+    try {
+      stored = JSON.parse(await fs.readFile(this.storePath, 'utf-8')) as Review[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    for (const review of stored) {
+      // A review interrupted by a restart has lost its reviewer query, and nothing will use its reviewer again
+      if (review.status === 'pending') {
+        review.status = 'failed';
+        review.error = 'Interrupted by an application restart';
+        await this.releaseReviewer(review);
+      }
+      this.reviews.set(review.id, review);
+      this.reviewCounter = Math.max(this.reviewCounter, Number.parseInt(review.id.replace(/^review-/, ''), 10) || 0);
+    }
+  }
+
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      await fs.writeFile(this.storePath, snapshot);
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+
+  list(): Review[] {
+    return Array.from(this.reviews.values());
+  }
+
+  get(reviewId: string): Review | undefined {
+    return this.reviews.get(reviewId);
+  }
+
+  // Start a review and return it right away; it completes in the background.
+  // `done` resolves once the review and any follow-up iterations are finished.
+  request(request: ReviewRequest): { review: Review; done: Promise<void> } {
+    const review = this.createReview(request, 1, false);
+    return { review, done: this.run(review) };
+  }
+
+  private createReview(request: ReviewRequest, iteration: number, ownsReviewer: boolean): Review {
+    const review: Review = {
+      id: `review-${++this.reviewCounter}`,
+      repository: request.repository,
+      branch: request.branch,
+      baseBranch: request.baseBranch || 'main',
+      authorInstanceId: request.authorInstanceId,
+      reviewerInstanceId: request.reviewerInstanceId,
+      ownsReviewer: ownsReviewer || undefined,
+      iteration,
+      maxIterations: request.maxIterations ?? 3,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+    this.reviews.set(review.id, review);
+    this.save().catch(console.error);
+    this.emit('reviewStarted', review);
+    return review;
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout.trim();
+  }
+
+  private async checkBranchName(repository: string, name: string): Promise<void> {
+    await this.git(repository, ['check-ref-format', '--branch', name]).catch(() => {
+      throw new Error(`${name} is not a valid branch name`);
+    });
+  }
+
+  private async run(review: Review): Promise<void> {
+    let verdict: ReviewVerdict;
+    try {
+      // The branches come from the caller: a name starting with - would be taken for an option
+      await this.checkBranchName(review.repository, review.baseBranch);
+      await this.checkBranchName(review.repository, review.branch);
+      review.baseCommit = await this.git(review.repository, [
+        'rev-parse',
+        '--verify',
+        '--end-of-options',
+        review.baseBranch,
+      ]);
+      review.headCommit = await this.git(review.repository, [
+        'rev-parse',
+        '--verify',
+        '--end-of-options',
+        review.branch,
+      ]);
+      const range = `${review.baseBranch}...${review.branch}`;
+      const diff = await this.git(review.repository, ['diff', '--end-of-options', range]);
+      const log = await this.git(review.repository, [
+        'log',
+        '--oneline',
+        '--end-of-options',
+        `${review.baseBranch}..${review.branch}`,
+      ]);
+      if (!diff) {
+        throw new Error(`Branch ${review.branch} has no changes against ${review.baseBranch}`);
+      }
+
+      const reviewer = await this.getReviewer(review);
+      review.reviewerInstanceId = reviewer.id;
+      const reply = await this.manager.sendWhenReady(reviewer.id, buildReviewPrompt(review, log, diff));
+      verdict = parseReviewVerdict(reply);
+    } catch (error) {
+      this.complete(review, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      await this.releaseReviewer(review);
+      return;
+    }
+
+    this.complete(review, { status: 'completed', verdict });
+
+    if (verdict.decision === 'request-changes' && review.authorInstanceId) {
+      await this.iterate(review, verdict);
+    } else {
+      await this.releaseReviewer(review);
+    }
+  }
+
+  // The reviewer of the previous iteration, or a new one in its own worktree of the branch, so it
+  // neither sees nor touches what is checked out in the repository
+  private async getReviewer(review: Review): Promise<ClaudeInstance> {
+    const existing = review.reviewerInstanceId ? this.manager.getInstance(review.reviewerInstanceId) : undefined;
+    if (existing) {
+      if (review.ownsReviewer && existing.worktree) {
+        // Bring its checkout up to the commits the author added since the last round
+        await this.git(existing.worktree.worktreePath, ['reset', '--hard', '--quiet', review.headCommit as string]);
+      }
+      return existing;
+    }
+    const reviewer = await this.manager.createInstance(`Reviewer of ${review.branch}`, {
+      personaId: 'pr-reviewer',
+      repository: review.repository,
+      ticket: `review ${review.branch}`,
+      baseRef: review.headCommit,
+    });
+    review.ownsReviewer = true;
+    return reviewer;
+  }
+
+  // Stop the reviewer the service created for a branch once no iteration needs it any more
+  private async releaseReviewer(review: Review): Promise<void> {
+    const reviewerId = review.reviewerInstanceId;
+    if (!review.ownsReviewer || !reviewerId || !this.manager.getInstance(reviewerId)) {
+      return;
+    }
+    await this.manager
+      .stopInstance(reviewerId, { worktree: 'remove', reason: `review ${review.id} finished` })
+      .catch((error) => console.error(`Failed to stop reviewer ${reviewerId} of ${review.id}:`, error));
+  }
+
+  // Send the comments to the author, then review the branch again
+  private async iterate(review: Review, verdict: ReviewVerdict): Promise<void> {
+    const author = review.authorInstanceId ? this.manager.getInstance(review.authorInstanceId) : undefined;
+    if (!author) {
+      await this.releaseReviewer(review);
+      return;
+    }
+
+    try {
+      await this.manager.sendWhenReady(author.id, formatReviewFeedback(review, verdict));
+      this.emit('feedbackSent', review);
+    } catch (error) {
+      console.error(`Failed to send review ${review.id} feedback to ${author.id}:`, error);
+      await this.releaseReviewer(review);
+      return;
+    }
+
+    if (review.iteration >= review.maxIterations) {
+      this.emit('maxIterationsReached', review);
+      await this.releaseReviewer(review);
+      return;
+    }
+
+    const next = this.createReview(
+      {
+        repository: review.repository,
+        branch: review.branch,
+        baseBranch: review.baseBranch,
+        authorInstanceId: review.authorInstanceId,
+        reviewerInstanceId: review.reviewerInstanceId,
+        maxIterations: review.maxIterations,
+      },
+      review.iteration + 1,
+      review.ownsReviewer ?? false,
+    );
+    await this.run(next);
+  }
+
+  private complete(review: Review, result: Pick<Review, 'status' | 'verdict' | 'error'>): void {
+    Object.assign(review, result, { completedAt: new Date().toISOString() });
+    this.save().catch(console.error);
+    this.emit(result.status === 'completed' ? 'reviewCompleted' : 'reviewFailed', review);
+  }
+}
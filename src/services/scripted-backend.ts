@@ -0,0 +1,110 @@
+import type { AgentBackend, AgentQuery } from './agent-backend.js';
+import type { SDKMessage } from './claude-stream.js';
+
+// One step of a scripted reply: yield a message, wait, or fail the query
+export type ScriptStep = { message: SDKMessage } | { delayMs: number } | { error: string };
+
+// The steps of one query, or a function that picks them from the query
+export type ScriptedReply = ScriptStep[] | ((query: AgentQuery) => ScriptStep[]);
+
+export interface ReplyOptions {
+  sessionId?: string;
+  costUsd?: number;
+  // Wait this long before the reply, e.g. to abort or stop the instance meanwhile
+  delayMs?: number;
+}
+
+// The steps of a query that answers `text` and succeeds
+export function textReply(text: string, options: ReplyOptions = {}): ScriptStep[] {
+  const sessionId = options.sessionId ?? 'scripted-session';
+  const steps: ScriptStep[] = options.delayMs ? [{ delayMs: options.delayMs }] : [];
+  steps.push(
+    {
+      message: {
+        type: 'assistant',
+        message: { content: [{ type: 'text', text }] },
+        parent_tool_use_id: null,
+        session_id: sessionId,
+      },
+    },
+    {
+      message: {
+        type: 'result',
+        subtype: 'success',
+        result: text,
+        is_error: false,
+        duration_ms: options.delayMs ?? 0,
+        duration_api_ms: 0,
+        num_turns: 1,
+        session_id: sessionId,
+        total_cost_usd: options.costUsd ?? 0,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    },
+  );
+  return steps;
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// In-process backend that plays scripted replies in order, for tests and demos without the Claude Code CLI
+export class ScriptedBackend implements AgentBackend {
+  // Every query received, in order
+  readonly queries: AgentQuery[] = [];
+  private replies: ScriptedReply[];
+  private fallback?: ScriptedReply;
+
+  // `fallback` answers the queries once the scripted replies are used up; without it they fail
+  constructor(replies: ScriptedReply[] = [], fallback?: ScriptedReply) {
+    this.replies = [...replies];
+    this.fallback = fallback;
+  }
+
+  enqueue(...replies: ScriptedReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  async *query(query: AgentQuery): AsyncIterable<SDKMessage> {
+    this.queries.push(query);
+    const reply = this.replies.shift() ?? this.fallback;
+    if (!reply) {
+      throw new Error(`No scripted reply left for query ${this.queries.length}`);
+    }
+
+    const signal = query.abortController.signal;
+    for (const step of typeof reply === 'function' ? reply(query) : reply) {
+      if (signal.aborted) {
+        throw abortError();
+      }
+      if ('delayMs' in step) {
+        await delay(step.delayMs, signal);
+      } else if ('error' in step) {
+        throw new Error(step.error);
+      } else {
+        yield step.message;
+      }
+    }
+  }
+}
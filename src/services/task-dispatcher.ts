@@ -0,0 +1,259 @@
+import { EventEmitter } from 'node:events';
+import type { ClaudeInstance, ClaudeManager } from './claude-manager.js';
+import type { EnqueueTaskInput, Task, TaskQueue } from './task-queue.js';
+import type { UsageRecord, UsageTracker } from './usage-tracker.js';
+
+export interface TaskDispatcherOptions {
+  // Delay before the first retry of a failed task. Doubles on every further attempt.
+  retryBaseDelay?: number;
+  // Enforces the daily and per-task budgets when given
+  usage?: UsageTracker;
+}
+
+export class TaskDispatcher extends EventEmitter {
+  private manager: ClaudeManager;
+  private queue: TaskQueue;
+  private retryBaseDelay: number;
+  private usage?: UsageTracker;
+  // Instances currently running a task, mapped to that task
+  private assignments: Map<string, string> = new Map();
+  // Instances the dispatcher created to run tasks. Only those are reused, never the instances created by
+  // the user, reviews or workflows.
+  private workers: Set<string> = new Set();
+  private running = false;
+  private dispatching = false;
+  private redispatch = false;
+  private wakeTimer?: NodeJS.Timeout;
+  private onInstanceReady = () => this.schedule();
+  private onInstanceUsage = (record: UsageRecord) => this.addTaskCost(record);
+
+  constructor(manager: ClaudeManager, queue: TaskQueue, options: TaskDispatcherOptions = {}) {
+    super();
+    this.manager = manager;
+    this.queue = queue;
+    this.retryBaseDelay = options.retryBaseDelay ?? 5000;
+    this.usage = options.usage;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.manager.on('instanceReady', this.onInstanceReady);
+    this.manager.on('instanceUsage', this.onInstanceUsage);
+    this.schedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.manager.off('instanceReady', this.onInstanceReady);
+    this.manager.off('instanceUsage', this.onInstanceUsage);
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+  }
+
+  enqueue(input: EnqueueTaskInput): Task {
+    if (input.personaId && !this.manager.getPersonas().some((persona) => persona.id === input.personaId)) {
+      throw new Error(`Persona ${input.personaId} not found`);
+    }
+    const task = this.queue.enqueue(input);
+    this.emit('taskQueued', task);
+    this.schedule();
+    return task;
+  }
+
+  async cancel(taskId: string): Promise<Task> {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    if (task.status !== 'pending' && task.status !== 'running') {
+      throw new Error(`Task ${taskId} cannot be cancelled. Current status: ${task.status}`);
+    }
+
+    const instanceId = task.instanceId;
+    this.queue.update(taskId, { status: 'cancelled' });
+    this.emit('taskCancelled', task);
+
+    if (instanceId && this.assignments.get(instanceId) === taskId) {
+      this.assignments.delete(instanceId);
+      this.manager.abortQuery(instanceId, `task ${taskId} cancelled`);
+    }
+
+    this.schedule();
+    return task;
+  }
+
+  list(): Task[] {
+    return this.queue.list();
+  }
+
+  isPaused(): boolean {
+    return this.usage?.isDailyBudgetExceeded() ?? false;
+  }
+
+  private addTaskCost(record: UsageRecord): void {
+    const taskId = this.assignments.get(record.instanceId);
+    const task = taskId ? this.queue.get(taskId) : undefined;
+    if (!task) {
+      return;
+    }
+    // Reported with the result of a query, once its cost is spent: a task over its cap keeps its answer,
+    // but is not retried if the query failed
+    this.queue.update(task.id, { costUsd: (task.costUsd ?? 0) + record.costUsd });
+  }
+
+  // Coalesce dispatch requests: if a pass is already running, run one more when it finishes
+  schedule(): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.dispatching) {
+      this.redispatch = true;
+      return;
+    }
+    this.dispatching = true;
+    this.dispatch()
+      .catch((error) => console.error('Task dispatch failed:', error))
+      .finally(() => {
+        this.dispatching = false;
+        if (this.redispatch) {
+          this.redispatch = false;
+          this.schedule();
+        }
+      });
+  }
+
+  private async dispatch(): Promise<void> {
+    for (const task of this.queue.getBlocked()) {
+      this.queue.update(task.id, { status: 'failed', error: 'A dependency failed or was cancelled' });
+      this.emit('taskFailed', task);
+    }
+
+    if (this.isPaused()) {
+      // Resume once the daily budget resets
+      this.scheduleTimer(this.usage?.getDailyResetAt());
+      return;
+    }
+
+    for (const task of this.queue.getRunnable()) {
+      let instance: ClaudeInstance | undefined;
+      try {
+        instance = await this.acquireInstance(task);
+      } catch (error) {
+        // E.g. its persona was removed or its worktree cannot be created; the tasks after it still run
+        const message = error instanceof Error ? error.message : String(error);
+        this.queue.update(task.id, { status: 'failed', error: `Cannot start an instance: ${message}` });
+        this.emit('taskFailed', task);
+        continue;
+      }
+      if (!instance) {
+        // Leave the task pending; it is picked up when an instance becomes ready
+        continue;
+      }
+      this.run(task, instance);
+    }
+
+    this.scheduleTimer(this.queue.getNextRetryAt());
+  }
+
+  private async acquireInstance(task: Task): Promise<ClaudeInstance | undefined> {
+    const idle = this.manager
+      .getAllInstances()
+      .filter(
+        (instance) =>
+          instance.status === 'ready' &&
+          this.isWorker(instance.id) &&
+          !this.assignments.has(instance.id) &&
+          instance.persona?.id === task.personaId &&
+          (!task.workingDirectory || instance.workingDirectory === task.workingDirectory),
+      );
+    // A task interrupted by a restart goes back to its instance, which resumes the conversation
+    const available = idle.find((instance) => instance.id === task.instanceId) ?? idle[0];
+    if (available) {
+      return available;
+    }
+
+    if (!this.manager.hasCapacity()) {
+      return undefined;
+    }
+
+    const instance = await this.manager.createInstance(`${task.personaId ?? 'worker'} for ${task.id}`, {
+      personaId: task.personaId,
+      workingDirectory: task.workingDirectory,
+    });
+    this.workers.add(instance.id);
+    return instance;
+  }
+
+  // Instances that ran a task before a restart were created by the dispatcher too
+  private isWorker(instanceId: string): boolean {
+    return this.workers.has(instanceId) || this.queue.list().some((task) => task.instanceId === instanceId);
+  }
+
+  private run(task: Task, instance: ClaudeInstance): void {
+    this.assignments.set(instance.id, task.id);
+    this.queue.update(task.id, {
+      status: 'running',
+      instanceId: instance.id,
+      attempts: task.attempts + 1,
+      nextAttemptAt: undefined,
+    });
+    this.emit('taskStarted', task);
+
+    this.manager
+      .sendMessage(instance.id, task.prompt)
+      .then((result) => {
+        if (task.status !== 'running') {
+          return;
+        }
+        this.queue.update(task.id, { status: 'completed', result, error: undefined });
+        this.emit('taskCompleted', task);
+      })
+      .catch((error) => {
+        if (task.status !== 'running') {
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (this.usage?.isTaskBudgetExceeded(task.costUsd ?? 0)) {
+          this.queue.update(task.id, { status: 'failed', error: `${message} (task budget exceeded, not retrying)` });
+          this.emit('taskFailed', task);
+        } else if (task.attempts < task.maxAttempts) {
+          const delay = this.retryBaseDelay * 2 ** (task.attempts - 1);
+          this.queue.update(task.id, {
+            status: 'pending',
+            error: message,
+            nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+          });
+          this.emit('taskRetrying', task);
+        } else {
+          this.queue.update(task.id, { status: 'failed', error: message });
+          this.emit('taskFailed', task);
+        }
+      })
+      .finally(() => {
+        if (this.assignments.get(instance.id) === task.id) {
+          this.assignments.delete(instance.id);
+        }
+        this.schedule();
+      });
+  }
+
+  private scheduleTimer(at: Date | undefined): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+    if (!at || !this.running) {
+      return;
+    }
+    const delay = Math.max(0, at.getTime() - Date.now());
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = undefined;
+      this.schedule();
+    }, delay);
+  }
+}
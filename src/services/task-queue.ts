@@ -0,0 +1,165 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { WriteQueue } from './write-queue.js';
+
+export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Task {
+  id: string;
+  prompt: string;
+  personaId?: string;
+  workingDirectory?: string;
+  // Higher runs first
+  priority: number;
+  dependsOn: string[];
+  status: TaskStatus;
+  attempts: number;
+  maxAttempts: number;
+  // ISO timestamp before which a failed task is not retried
+  nextAttemptAt?: string;
+  instanceId?: string;
+  // Spend of all attempts so far, in USD
+  costUsd?: number;
+  result?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnqueueTaskInput {
+  prompt: string;
+  personaId?: string;
+  workingDirectory?: string;
+  priority?: number;
+  dependsOn?: string[];
+  maxAttempts?: number;
+}
+
+export class TaskQueue {
+  private queuePath: string;
+  private tasks: Map<string, Task> = new Map();
+  private taskCounter = 0;
+  private writes = new WriteQueue();
+
+  constructor(queuePath?: string) {
+    this.queuePath = queuePath || path.join(os.homedir(), '.coding-team', 'tasks.json');
+  }
+
+  async load(): Promise<void> {
+    let stored: Task[];
+    try {
+      stored = JSON.parse(await fs.readFile(this.queuePath, 'utf-8')) as Task[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    this.tasks.clear();
+    for (const task of stored) {
+      // The query of a running task did not survive the restart, so it runs again. Its instance is
+      // restored with its session, so instanceId is kept for the dispatcher to reattach the task to it.
+      if (task.status === 'running') {
+        task.status = 'pending';
+      }
+      this.tasks.set(task.id, task);
+      const counter = Number.parseInt(task.id.replace(/^task-/, ''), 10);
+      if (!Number.isNaN(counter)) {
+        this.taskCounter = Math.max(this.taskCounter, counter);
+      }
+    }
+  }
+
+  save(): Promise<void> {
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(path.dirname(this.queuePath), { recursive: true });
+      await fs.writeFile(this.queuePath, snapshot);
+    });
+  }
+
+  // Wait for pending writes to reach the disk
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+
+  enqueue(input: EnqueueTaskInput): Task {
+    if (!input.prompt) {
+      throw new Error('Task prompt is required');
+    }
+    const dependsOn = input.dependsOn ?? [];
+    for (const dependency of dependsOn) {
+      if (!this.tasks.has(dependency)) {
+        throw new Error(`Task dependency ${dependency} not found`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const task: Task = {
+      id: `task-${++this.taskCounter}`,
+      prompt: input.prompt,
+      personaId: input.personaId,
+      workingDirectory: input.workingDirectory,
+      priority: input.priority ?? 0,
+      dependsOn,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? 3,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.tasks.set(task.id, task);
+    this.save().catch(console.error);
+    return task;
+  }
+
+  update(taskId: string, changes: Partial<Omit<Task, 'id' | 'createdAt'>>): Task {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    Object.assign(task, changes, { updatedAt: new Date().toISOString() });
+    this.save().catch(console.error);
+    return task;
+  }
+
+  get(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  list(status?: TaskStatus): Task[] {
+    const tasks = Array.from(this.tasks.values());
+    return status ? tasks.filter((task) => task.status === status) : tasks;
+  }
+
+  // Pending tasks whose dependencies completed and whose retry delay elapsed,
+  // highest priority first and oldest first within a priority.
+  getRunnable(now: Date = new Date()): Task[] {
+    return this.list('pending')
+      .filter((task) => !task.nextAttemptAt || new Date(task.nextAttemptAt) <= now)
+      .filter((task) => task.dependsOn.every((dependency) => this.tasks.get(dependency)?.status === 'completed'))
+      .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Pending tasks that can never run because a dependency failed or was cancelled
+  getBlocked(): Task[] {
+    return this.list('pending').filter((task) =>
+      task.dependsOn.some((dependency) => {
+        const status = this.tasks.get(dependency)?.status;
+        return status === 'failed' || status === 'cancelled';
+      }),
+    );
+  }
+
+  // Earliest future time at which a task waiting on its retry delay becomes runnable
+  getNextRetryAt(now: Date = new Date()): Date | undefined {
+    const times = this.list('pending')
+      .filter((task) => task.nextAttemptAt)
+      .map((task) => new Date(task.nextAttemptAt as string).getTime())
+      .filter((time) => time > now.getTime());
+    return times.length > 0 ? new Date(Math.min(...times)) : undefined;
+  }
+}
@@ -0,0 +1,144 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { ClaudeStreamEvent, ClaudeStreamEventType } from './claude-stream.js';
+import { WriteQueue } from './write-queue.js';
+
+export type TranscriptEntry = ClaudeStreamEvent & { timestamp: string };
+
+export type TranscriptFormat = 'markdown' | 'json';
+
+export interface TranscriptQuery {
+  offset?: number;
+  limit?: number;
+  types?: ClaudeStreamEventType[];
+}
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  // Number of entries matching the type filter, before pagination
+  total: number;
+}
+
+const HEADINGS: Record<ClaudeStreamEventType, string> = {
+  prompt: 'Prompt',
+  text: 'Assistant',
+  'tool-use': 'Tool use',
+  'tool-result': 'Tool result',
+  result: 'Result',
+  error: 'Error',
+};
+
+function fence(content: string, language = ''): string {
+  // Use a fence longer than any backtick run in the content so it cannot be closed early
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+export function toMarkdown(instanceId: string, entries: TranscriptEntry[]): string {
+  const sections = [`# Transcript of ${instanceId}`];
+
+  for (const entry of entries) {
+    const heading = `## ${HEADINGS[entry.type]} (${entry.timestamp})`;
+    let body: string;
+    switch (entry.type) {
+      case 'prompt':
+      case 'text':
+        body = entry.text;
+        break;
+      case 'tool-use':
+        body = `\`${entry.name}\`\n\n${fence(JSON.stringify(entry.input, null, 2), 'json')}`;
+        break;
+      case 'tool-result':
+        body = `${entry.isError ? 'Failed' : 'Succeeded'}\n\n${fence(entry.content)}`;
+        break;
+      case 'result':
+        body = entry.isError ? `Finished with ${entry.subtype}` : entry.result;
+        break;
+      case 'error':
+        body = entry.message;
+        break;
+    }
+    sections.push(`${heading}\n\n${body}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Append-only JSONL transcript of every instance, one file per instance
+export class TranscriptStore {
+  private transcriptsDir: string;
+  private writes: Map<string, WriteQueue> = new Map();
+
+  constructor(transcriptsDir?: string) {
+    this.transcriptsDir = transcriptsDir || path.join(os.homedir(), '.coding-team', 'transcripts');
+  }
+
+  private transcriptPath(instanceId: string): string {
+    if (!/^[\w.-]+$/.test(instanceId)) {
+      throw new Error(`Invalid instance id ${instanceId}`);
+    }
+    return path.join(this.transcriptsDir, `${instanceId}.jsonl`);
+  }
+
+  append(event: ClaudeStreamEvent): Promise<void> {
+    const entry: TranscriptEntry = { ...event, timestamp: new Date().toISOString() };
+    const filePath = this.transcriptPath(event.instanceId);
+
+    // Serialize appends per file so lines keep the order events were emitted in
+    let writes = this.writes.get(filePath);
+    if (!writes) {
+      writes = new WriteQueue();
+      this.writes.set(filePath, writes);
+    }
+    return writes.run(async () => {
+      await fs.mkdir(this.transcriptsDir, { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`);
+    });
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.writes.values()].map((writes) => writes.flush()));
+  }
+
+  async readAll(instanceId: string): Promise<TranscriptEntry[]> {
+    const filePath = this.transcriptPath(instanceId);
+    await this.writes.get(filePath)?.flush();
+
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return data
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as TranscriptEntry);
+  }
+
+  async read(instanceId: string, query: TranscriptQuery = {}): Promise<TranscriptPage> {
+    let entries = await this.readAll(instanceId);
+    if (query.types && query.types.length > 0) {
+      const types = query.types;
+      entries = entries.filter((entry) => types.includes(entry.type));
+    }
+
+    const offset = Math.max(0, query.offset ?? 0);
+    const end = query.limit === undefined ? undefined : offset + Math.max(0, query.limit);
+    return { entries: entries.slice(offset, end), total: entries.length };
+  }
+
+  async export(instanceId: string, format: TranscriptFormat): Promise<string> {
+    const entries = await this.readAll(instanceId);
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+    return toMarkdown(instanceId, entries);
+  }
+}
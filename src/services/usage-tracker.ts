@@ -0,0 +1,210 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from './claude-stream.js';
+import { WriteQueue } from './write-queue.js';
+
+// Usage of one query, as reported by the SDK result message
+export interface UsageRecord {
+  timestamp: string;
+  instanceId: string;
+  personaId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+}
+
+export interface UsageBudgets {
+  // Maximum spend per UTC day across all instances
+  dailyBudgetUsd?: number;
+  // Maximum spend of a single dispatched task across its attempts
+  taskBudgetUsd?: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byInstance: Record<string, UsageTotals>;
+  byPersona: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>;
+  budgets: UsageBudgets;
+  spentToday: number;
+  dailyBudgetExceeded: boolean;
+}
+
+// Key of instances created without a persona in the per-persona aggregate
+export const NO_PERSONA = 'none';
+
+type SDKResultMessage = Extract<SDKMessage, { type: 'result' }>;
+
+export function toUsageRecord(instanceId: string, personaId: string | undefined, msg: SDKResultMessage): UsageRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    instanceId,
+    personaId,
+    inputTokens: msg.usage?.input_tokens ?? 0,
+    outputTokens: msg.usage?.output_tokens ?? 0,
+    cacheCreationInputTokens: msg.usage?.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: msg.usage?.cache_read_input_tokens ?? 0,
+    costUsd: msg.total_cost_usd ?? 0,
+    durationMs: msg.duration_ms ?? 0,
+    numTurns: msg.num_turns ?? 0,
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+    numTurns: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheCreationInputTokens += record.cacheCreationInputTokens;
+  totals.cacheReadInputTokens += record.cacheReadInputTokens;
+  totals.costUsd += record.costUsd;
+  totals.durationMs += record.durationMs;
+  totals.numTurns += record.numTurns;
+}
+
+function dayOf(timestamp: string | Date): string {
+  return (typeof timestamp === 'string' ? timestamp : timestamp.toISOString()).slice(0, 10);
+}
+
+// Records the usage of every query and enforces spending budgets
+export class UsageTracker extends EventEmitter {
+  private usagePath: string;
+  private records: UsageRecord[] = [];
+  private budgets: UsageBudgets = {};
+  private writes = new WriteQueue();
+  // Day for which budgetExceeded was already emitted, so it fires once per day
+  private exceededDay?: string;
+
+  constructor(usagePath?: string) {
+    super();
+    this.usagePath = usagePath || path.join(os.homedir(), '.coding-team', 'usage.jsonl');
+  }
+
+  async load(): Promise<void> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.usagePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    this.records = data
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as UsageRecord);
+  }
+
+  setBudgets(budgets: UsageBudgets): void {
+    this.budgets = { ...budgets };
+  }
+
+  getBudgets(): UsageBudgets {
+    return { ...this.budgets };
+  }
+
+  record(record: UsageRecord): void {
+    this.records.push(record);
+    this.writes
+      .run(async () => {
+        await fs.mkdir(path.dirname(this.usagePath), { recursive: true });
+        await fs.appendFile(this.usagePath, `${JSON.stringify(record)}\n`);
+      })
+      .catch(console.error);
+    this.emit('usageRecorded', record);
+
+    const today = dayOf(record.timestamp);
+    if (this.isDailyBudgetExceeded(new Date(record.timestamp)) && this.exceededDay !== today) {
+      this.exceededDay = today;
+      this.emit('budgetExceeded', {
+        scope: 'daily',
+        limitUsd: this.budgets.dailyBudgetUsd,
+        spentUsd: this.getSpent(today),
+      });
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+
+  getSpent(day: string = dayOf(new Date())): number {
+    return this.records
+      .filter((record) => dayOf(record.timestamp) === day)
+      .reduce((sum, record) => sum + record.costUsd, 0);
+  }
+
+  isDailyBudgetExceeded(now: Date = new Date()): boolean {
+    const limit = this.budgets.dailyBudgetUsd;
+    return limit !== undefined && this.getSpent(dayOf(now)) >= limit;
+  }
+
+  isTaskBudgetExceeded(taskCostUsd: number): boolean {
+    const limit = this.budgets.taskBudgetUsd;
+    return limit !== undefined && taskCostUsd >= limit;
+  }
+
+  // Start of the next UTC day, when the daily budget resets
+  getDailyResetAt(now: Date = new Date()): Date {
+    const reset = new Date(now);
+    reset.setUTCHours(24, 0, 0, 0);
+    return reset;
+  }
+
+  getSummary(now: Date = new Date()): UsageSummary {
+    const summary: UsageSummary = {
+      total: emptyTotals(),
+      byInstance: {},
+      byPersona: {},
+      byDay: {},
+      budgets: this.getBudgets(),
+      spentToday: this.getSpent(dayOf(now)),
+      dailyBudgetExceeded: this.isDailyBudgetExceeded(now),
+    };
+
+    for (const record of this.records) {
+      const persona = record.personaId ?? NO_PERSONA;
+      const day = dayOf(record.timestamp);
+      summary.byInstance[record.instanceId] ??= emptyTotals();
+      summary.byPersona[persona] ??= emptyTotals();
+      summary.byDay[day] ??= emptyTotals();
+
+      addTo(summary.total, record);
+      addTo(summary.byInstance[record.instanceId], record);
+      addTo(summary.byPersona[persona], record);
+      addTo(summary.byDay[day], record);
+    }
+
+    return summary;
+  }
+}
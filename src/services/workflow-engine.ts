@@ -0,0 +1,377 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { ClaudeInstance, ClaudeManager } from './claude-manager.js';
+import {
+  OUTCOME_ERROR,
+  WORKFLOW_DONE,
+  WORKFLOW_FAILED,
+  type WorkflowDefinition,
+  type WorkflowRegistry,
+  type WorkflowStage,
+  type WorkflowTransition,
+  meetsCondition,
+  renderTemplate,
+  valueAt,
+} from './workflows.js';
+import { WriteQueue } from './write-queue.js';
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type StageStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface StageProgress {
+  status: StageStatus;
+  // Times the stage ran, counting loops back to it
+  iterations: number;
+  instanceId?: string;
+  // Of the last iteration
+  outcome?: string;
+  output?: unknown;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface WorkflowStep {
+  stage: string;
+  outcome: string;
+  to: string;
+  at: string;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  // The definition the run started with, so editing the file does not change runs in flight
+  definition: WorkflowDefinition;
+  status: WorkflowRunStatus;
+  input: Record<string, string>;
+  workingDirectory: string;
+  issueId?: string;
+  currentStage?: string;
+  stages: Record<string, StageProgress>;
+  history: WorkflowStep[];
+  // Instance of each persona the run uses
+  instances: Record<string, string>;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StartWorkflowInput {
+  workflowId: string;
+  input?: Record<string, string>;
+  workingDirectory: string;
+  // Issue assigned to every instance of the run
+  issueId?: string;
+}
+
+function transitionOf(stage: WorkflowStage, outcome: string): WorkflowTransition | undefined {
+  const transition = stage.transitions?.[outcome];
+  return typeof transition === 'string' ? { to: transition } : transition;
+}
+
+// Runs workflows on top of ClaudeManager: each stage sends its prompt to an instance of its persona,
+// and the outcome picks the next stage. Runs are persisted after every step and resume after a restart
+// from the stage they were in.
+export class WorkflowEngine extends EventEmitter {
+  private manager: ClaudeManager;
+  private registry: WorkflowRegistry;
+  private runsPath: string;
+  private runs: Map<string, WorkflowRun> = new Map();
+  private runCounter = 0;
+  private writes = new WriteQueue();
+  private running = false;
+
+  constructor(manager: ClaudeManager, registry: WorkflowRegistry, runsPath?: string) {
+    super();
+    this.manager = manager;
+    this.registry = registry;
+    this.runsPath = runsPath || path.join(os.homedir(), '.coding-team', 'workflow-runs.json');
+  }
+
+  async load(): Promise<void> {
+    let stored: WorkflowRun[];
+    try {
+      stored = JSON.parse(await fs.readFile(this.runsPath, 'utf-8')) as WorkflowRun[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    this.runs.clear();
+    for (const run of stored) {
+      this.runs.set(run.id, run);
+      const counter = Number.parseInt(run.id.replace(/^run-/, ''), 10);
+      if (!Number.isNaN(counter)) {
+        this.runCounter = Math.max(this.runCounter, counter);
+      }
+    }
+  }
+
+  save(): Promise<void> {
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    return this.writes.run(async () => {
+      await fs.mkdir(path.dirname(this.runsPath), { recursive: true });
+      await fs.writeFile(this.runsPath, snapshot);
+    });
+  }
+
+  // Wait for pending writes to reach the disk
+  async flush(): Promise<void> {
+    await this.writes.flush();
+  }
+
+  // Resume the runs that were in progress
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    for (const run of this.runs.values()) {
+      if (run.status === 'running') {
+        this.drive(run);
+      }
+    }
+  }
+
+  // Stop driving runs without changing their state, so they resume on the next start
+  stop(): void {
+    this.running = false;
+  }
+
+  startRun(input: StartWorkflowInput): WorkflowRun {
+    const definition = this.registry.get(input.workflowId);
+    if (!definition) {
+      throw new Error(`Workflow ${input.workflowId} not found`);
+    }
+    const values = input.input ?? {};
+    const missing = definition.inputs.filter((name) => values[name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Workflow ${definition.id} needs the input ${missing.join(', ')}`);
+    }
+    for (const stage of Object.values(definition.stages)) {
+      if (!this.manager.getPersonas().some((persona) => persona.id === stage.persona)) {
+        throw new Error(`Persona ${stage.persona} of workflow ${definition.id} not found`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const stages: Record<string, StageProgress> = {};
+    for (const stageId of Object.keys(definition.stages)) {
+      stages[stageId] = { status: 'pending', iterations: 0 };
+    }
+    const run: WorkflowRun = {
+      id: `run-${++this.runCounter}`,
+      workflowId: definition.id,
+      definition,
+      status: 'running',
+      input: values,
+      workingDirectory: input.workingDirectory,
+      issueId: input.issueId,
+      currentStage: definition.start,
+      stages,
+      history: [],
+      instances: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.runs.set(run.id, run);
+    this.update(run);
+    if (this.running) {
+      this.drive(run);
+    }
+    return run;
+  }
+
+  async cancel(runId: string): Promise<WorkflowRun> {
+    const run = this.requireRun(runId);
+    if (run.status !== 'running') {
+      throw new Error(`Workflow run ${runId} cannot be cancelled. Current status: ${run.status}`);
+    }
+    const stage = run.currentStage ? run.stages[run.currentStage] : undefined;
+    run.status = 'cancelled';
+    run.error = 'cancelled';
+    if (stage?.status === 'running') {
+      stage.status = 'failed';
+      stage.error = 'cancelled';
+      stage.finishedAt = new Date().toISOString();
+    }
+    this.update(run);
+    if (stage?.instanceId && this.manager.getInstance(stage.instanceId)) {
+      this.manager.abortQuery(stage.instanceId, `workflow run ${runId} cancelled`);
+    }
+    await this.release(run);
+    return run;
+  }
+
+  get(runId: string): WorkflowRun | undefined {
+    return this.runs.get(runId);
+  }
+
+  list(): WorkflowRun[] {
+    return Array.from(this.runs.values());
+  }
+
+  private requireRun(runId: string): WorkflowRun {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+    return run;
+  }
+
+  private update(run: WorkflowRun): void {
+    run.updatedAt = new Date().toISOString();
+    this.save().catch(console.error);
+    this.emit('runUpdated', run);
+  }
+
+  private drive(run: WorkflowRun): void {
+    this.advance(run).catch((error) => {
+      console.error(`Workflow run ${run.id} failed:`, error);
+    });
+  }
+
+  // Run stages until the run ends, is cancelled or the engine stops
+  private async advance(run: WorkflowRun): Promise<void> {
+    while (this.running && run.status === 'running' && run.currentStage) {
+      const stageId = run.currentStage;
+      const stage = run.definition.stages[stageId];
+      const progress = run.stages[stageId];
+      Object.assign(progress, {
+        status: 'running',
+        iterations: progress.iterations + 1,
+        outcome: undefined,
+        error: undefined,
+        startedAt: new Date().toISOString(),
+        finishedAt: undefined,
+      });
+      this.update(run);
+
+      let outcome: string;
+      let failure: string | undefined;
+      try {
+        const instance = await this.instanceFor(run, stage.persona, stageId);
+        progress.instanceId = instance.id;
+        this.update(run);
+        const prompt = renderTemplate(stage.prompt, this.templateContext(run));
+        progress.output = stage.schema
+          ? await this.manager.sendStructured(instance.id, prompt, stage.schema, {
+              maxRetries: stage.maxRetries,
+              whenReady: true,
+            })
+          : await this.manager.sendWhenReady(instance.id, prompt);
+        outcome = this.outcomeOf(stage, progress.output);
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+        outcome = OUTCOME_ERROR;
+      }
+      // Stopped or cancelled while the stage ran: leave the run as it is
+      if (!this.running || run.status !== 'running') {
+        return;
+      }
+
+      progress.error = failure;
+      progress.outcome = outcome;
+      progress.status = outcome === OUTCOME_ERROR ? 'failed' : 'completed';
+      progress.finishedAt = new Date().toISOString();
+      const next = this.nextStage(run, stageId, outcome);
+      run.history.push({ stage: stageId, outcome, to: next.to, at: progress.finishedAt });
+
+      if (next.to === WORKFLOW_DONE) {
+        run.status = 'completed';
+        run.currentStage = undefined;
+      } else if (next.to === WORKFLOW_FAILED) {
+        run.status = 'failed';
+        run.error = failure ?? next.error ?? `stage ${stageId} ended with outcome ${outcome}`;
+        run.currentStage = undefined;
+      } else {
+        run.currentStage = next.to;
+      }
+      if (run.status !== 'running') {
+        await this.release(run);
+      }
+      this.update(run);
+    }
+  }
+
+  private outcomeOf(stage: WorkflowStage, output: unknown): string {
+    if (stage.outcome) {
+      const value = valueAt(output, stage.outcome);
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        throw new Error(`Output has no outcome at "${stage.outcome}"`);
+      }
+      return String(value);
+    }
+    if (stage.success) {
+      return meetsCondition(output, stage.success) ? 'success' : 'failure';
+    }
+    return 'success';
+  }
+
+  private nextStage(run: WorkflowRun, stageId: string, outcome: string): { to: string; error?: string } {
+    const transition = transitionOf(run.definition.stages[stageId], outcome);
+    if (!transition) {
+      return outcome === 'success'
+        ? { to: WORKFLOW_DONE }
+        : { to: WORKFLOW_FAILED, error: `stage ${stageId} ended with outcome ${outcome}, which has no transition` };
+    }
+    if (transition.maxLoops !== undefined) {
+      const taken = run.history.filter((step) => step.stage === stageId && step.outcome === outcome).length;
+      if (taken >= transition.maxLoops) {
+        return {
+          to: transition.exhausted ?? WORKFLOW_FAILED,
+          error: `stage ${stageId} ended with outcome ${outcome} more than ${transition.maxLoops} times`,
+        };
+      }
+    }
+    return { to: transition.to };
+  }
+
+  private templateContext(run: WorkflowRun): Record<string, unknown> {
+    return {
+      input: run.input,
+      run: { id: run.id, workingDirectory: run.workingDirectory, issueId: run.issueId },
+      workflow: { id: run.definition.id, name: run.definition.name },
+      stages: run.stages,
+    };
+  }
+
+  // The run's instance of a persona, created on first use and brought back if a query left it in error. It may
+  // be busy with a message from another agent: stages send through its queue rather than waiting for it first.
+  private async instanceFor(run: WorkflowRun, personaId: string, stageId: string): Promise<ClaudeInstance> {
+    const existing = run.instances[personaId] ? this.manager.getInstance(run.instances[personaId]) : undefined;
+    if (existing) {
+      if (existing.status === 'error') {
+        await this.manager.recoverInstance(existing.id, 'reset');
+      }
+      return existing;
+    }
+    const instance = await this.manager.createInstance(`${stageId} of ${run.id}`, {
+      personaId,
+      workingDirectory: run.workingDirectory,
+      issueId: run.issueId,
+    });
+    run.instances[personaId] = instance.id;
+    if (instance.status === 'error') {
+      throw new Error(instance.statusReason);
+    }
+    return instance;
+  }
+
+  // Stop the instances of a run that ended, so they do not hold on to instance slots
+  private async release(run: WorkflowRun): Promise<void> {
+    for (const instanceId of Object.values(run.instances)) {
+      if (this.manager.getInstance(instanceId)) {
+        await this.manager
+          .stopInstance(instanceId, { reason: `workflow run ${run.id} ${run.status}` })
+          .catch((error) => console.error(`Failed to stop instance ${instanceId} of ${run.id}:`, error));
+      }
+    }
+  }
+}
@@ -0,0 +1,396 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { type JsonSchema, checkJsonSchema } from './json-schema.js';
+
+// Where a transition leads: another stage, or the end of the run
+export const WORKFLOW_DONE = 'done';
+export const WORKFLOW_FAILED = 'failed';
+
+// Outcome of a stage whose agent query failed
+export const OUTCOME_ERROR = 'error';
+
+// A test on the output of a stage. The value is the output, or the value at `path` in a structured output;
+// every test given must pass.
+export interface WorkflowCondition {
+  path?: string;
+  equals?: unknown;
+  in?: unknown[];
+  // Regular expression the value, as text, must match
+  matches?: string;
+}
+
+export interface WorkflowTransition {
+  to: string;
+  // Times the transition may be taken in a run. Once used up, the run goes to `exhausted` instead.
+  maxLoops?: number;
+  // WORKFLOW_FAILED by default
+  exhausted?: string;
+}
+
+// One step of a workflow, run by an instance of `persona`. The run keeps one instance per persona,
+// so a stage that is looped back to continues its conversation.
+export interface WorkflowStage {
+  persona: string;
+  // Template: {{input.x}}, {{run.id}}, {{run.workingDirectory}}, {{workflow.name}},
+  // {{stages.<id>.output}}, {{stages.<id>.output.<path>}}, {{stages.<id>.outcome}}, {{stages.<id>.iterations}}
+  prompt: string;
+  // Ask for JSON matching this schema; the output of the stage is then the parsed value
+  schema?: JsonSchema;
+  // Path in the structured output whose value names the outcome, e.g. "decision"
+  outcome?: string;
+  // Without `outcome`: the outcome is success when the output meets the condition, failure otherwise.
+  // With neither, the outcome is success once the agent answered.
+  success?: WorkflowCondition;
+  // Next stage by outcome. A success without a transition ends the run; any other outcome fails it.
+  transitions?: Record<string, string | WorkflowTransition>;
+  // Corrections asked for when a structured answer does not match the schema
+  maxRetries?: number;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // Input variables a run must be started with
+  inputs: string[];
+  // The first stage; the first one listed by default
+  start: string;
+  stages: Record<string, WorkflowStage>;
+  builtIn?: boolean;
+}
+
+const REVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    decision: { enum: ['approve', 'request-changes'] },
+    summary: { type: 'string' },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { file: { type: 'string' }, line: { type: 'integer' }, body: { type: 'string' } },
+        required: ['file', 'body'],
+      },
+    },
+  },
+  required: ['decision', 'summary'],
+};
+
+export const BUILT_IN_WORKFLOWS: WorkflowDefinition[] = [
+  {
+    id: 'issue-to-land',
+    name: 'Issue to landed change',
+    description: 'Refine a request into a spec, implement it, review it until approved, then land it',
+    inputs: ['request'],
+    start: 'refine',
+    stages: {
+      refine: {
+        persona: 'spec-refiner',
+        prompt: 'Refine this request into a specification with acceptance criteria:\n\n{{input.request}}',
+        schema: {
+          type: 'object',
+          properties: {
+            spec: { type: 'string', minLength: 1 },
+            acceptanceCriteria: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          },
+          required: ['spec', 'acceptanceCriteria'],
+        },
+        transitions: { success: 'develop' },
+      },
+      develop: {
+        persona: 'developer',
+        prompt:
+          'Implement this specification in {{run.workingDirectory}}:\n\n{{stages.refine.output.spec}}\n\n' +
+          'Acceptance criteria: {{stages.refine.output.acceptanceCriteria}}\n\n' +
+          'Review comments to address, if any: {{stages.review.output.comments}}',
+        transitions: { success: 'review' },
+      },
+      review: {
+        persona: 'pr-reviewer',
+        prompt:
+          'Review the uncommitted changes in {{run.workingDirectory}} against this specification:\n\n' +
+          '{{stages.refine.output.spec}}\n\nAcceptance criteria: {{stages.refine.output.acceptanceCriteria}}',
+        schema: REVIEW_SCHEMA,
+        outcome: 'decision',
+        transitions: {
+          approve: 'land',
+          'request-changes': { to: 'develop', maxLoops: 3 },
+        },
+      },
+      land: {
+        persona: 'landing-manager',
+        prompt:
+          'The changes in {{run.workingDirectory}} were approved: {{stages.review.output.summary}}\n\n' +
+          'Verify them, commit them with a message describing the specification, and land them.',
+      },
+    },
+  },
+];
+
+const TEMPLATE_VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The value at a dotted path, e.g. "comments.0.body"
+export function valueAt(value: unknown, dottedPath: string | undefined): unknown {
+  let current = value;
+  for (const key of dottedPath ? dottedPath.split('.') : []) {
+    if (Array.isArray(current) && /^\d+$/.test(key)) {
+      current = current[Number(key)];
+    } else if (isObject(current) && Object.hasOwn(current, key)) {
+      current = current[key];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// Fill in the {{variables}} of a template. Undefined variables, such as the output of a stage
+// that has not run yet, are left empty; objects are written as JSON.
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(TEMPLATE_VARIABLE, (_match, variable: string) => {
+    const value = valueAt(context, variable);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+export function meetsCondition(output: unknown, condition: WorkflowCondition): boolean {
+  const value = valueAt(output, condition.path);
+  if (Object.hasOwn(condition, 'equals') && JSON.stringify(value) !== JSON.stringify(condition.equals)) {
+    return false;
+  }
+  if (condition.in !== undefined && !condition.in.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    return false;
+  }
+  if (condition.matches !== undefined) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+    return new RegExp(condition.matches).test(text);
+  }
+  return true;
+}
+
+function parseCondition(raw: unknown, where: string, structured: boolean): WorkflowCondition {
+  if (!isObject(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+  for (const key of Object.keys(raw)) {
+    if (!['path', 'equals', 'in', 'matches'].includes(key)) {
+      throw new Error(`${where} has an unknown field "${key}"`);
+    }
+  }
+  if (raw.path !== undefined && (typeof raw.path !== 'string' || !structured)) {
+    throw new Error(`${where}.path must be a string, and needs a "schema" on the stage`);
+  }
+  if (raw.in !== undefined && !Array.isArray(raw.in)) {
+    throw new Error(`${where}.in must be an array`);
+  }
+  if (raw.matches !== undefined) {
+    try {
+      new RegExp(raw.matches as string);
+    } catch {
+      throw new Error(`${where}.matches must be a valid regular expression`);
+    }
+  }
+  return raw as WorkflowCondition;
+}
+
+function parseTransition(raw: unknown, where: string, targets: string[]): WorkflowTransition {
+  const transition = typeof raw === 'string' ? { to: raw } : raw;
+  if (!isObject(transition) || typeof transition.to !== 'string') {
+    throw new Error(`${where} must be a stage id or an object with "to"`);
+  }
+  for (const key of ['to', 'exhausted'] as const) {
+    if (transition[key] !== undefined && !targets.includes(transition[key] as string)) {
+      throw new Error(`${where} goes to unknown stage "${transition[key]}"`);
+    }
+  }
+  if (
+    transition.maxLoops !== undefined &&
+    (!Number.isInteger(transition.maxLoops) || (transition.maxLoops as number) <= 0)
+  ) {
+    throw new Error(`${where}.maxLoops must be a positive integer`);
+  }
+  return {
+    to: transition.to,
+    maxLoops: transition.maxLoops as number | undefined,
+    exhausted: transition.exhausted as string | undefined,
+  };
+}
+
+function parseStage(raw: unknown, id: string, stageIds: string[], inputs: string[]): WorkflowStage {
+  const where = `stage "${id}"`;
+  if (!isObject(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+  if (typeof raw.persona !== 'string' || raw.persona.length === 0) {
+    throw new Error(`${where} needs a "persona"`);
+  }
+  if (typeof raw.prompt !== 'string' || raw.prompt.length === 0) {
+    throw new Error(`${where} needs a "prompt"`);
+  }
+  for (const [, variable] of raw.prompt.matchAll(TEMPLATE_VARIABLE)) {
+    const [root, name] = variable.split('.');
+    const known =
+      (root === 'input' && inputs.includes(name)) ||
+      (root === 'stages' && stageIds.includes(name)) ||
+      ['run', 'workflow'].includes(root);
+    if (!known) {
+      throw new Error(`${where} uses an unknown variable {{${variable}}}`);
+    }
+  }
+
+  const schemaProblem = raw.schema === undefined ? undefined : checkJsonSchema(raw.schema);
+  if (schemaProblem) {
+    throw new Error(`${where} has an invalid "schema": ${schemaProblem}`);
+  }
+  const structured = raw.schema !== undefined;
+  if (raw.outcome !== undefined && (typeof raw.outcome !== 'string' || !structured)) {
+    throw new Error(`${where} "outcome" must be a path in the output, and needs a "schema"`);
+  }
+  if (raw.maxRetries !== undefined && (!Number.isInteger(raw.maxRetries) || (raw.maxRetries as number) < 0)) {
+    throw new Error(`${where} "maxRetries" must be a non-negative integer`);
+  }
+
+  const targets = [...stageIds, WORKFLOW_DONE, WORKFLOW_FAILED];
+  let transitions: Record<string, WorkflowTransition> | undefined;
+  if (raw.transitions !== undefined) {
+    if (!isObject(raw.transitions)) {
+      throw new Error(`${where} "transitions" must be an object of transitions by outcome`);
+    }
+    transitions = {};
+    for (const [outcome, transition] of Object.entries(raw.transitions)) {
+      transitions[outcome] = parseTransition(transition, `${where} transition "${outcome}"`, targets);
+    }
+  }
+
+  return {
+    persona: raw.persona,
+    prompt: raw.prompt,
+    schema: raw.schema as JsonSchema | undefined,
+    outcome: raw.outcome as string | undefined,
+    success: raw.success === undefined ? undefined : parseCondition(raw.success, `${where} "success"`, structured),
+    transitions,
+    maxRetries: raw.maxRetries as number | undefined,
+  };
+}
+
+// Validate a workflow loaded from disk. The id defaults to the file name.
+export function parseWorkflow(raw: unknown, fallbackId: string): WorkflowDefinition {
+  if (!isObject(raw)) {
+    throw new Error('workflow must be a JSON object');
+  }
+  const id = raw.id ?? fallbackId;
+  if (typeof id !== 'string' || id.length === 0) {
+    throw new Error('"id" must be a non-empty string');
+  }
+  if (typeof raw.name !== 'string' || raw.name.length === 0) {
+    throw new Error('"name" must be a non-empty string');
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    throw new Error('"description" must be a string');
+  }
+  const inputs = raw.inputs ?? [];
+  if (!Array.isArray(inputs) || !inputs.every((input) => typeof input === 'string')) {
+    throw new Error('"inputs" must be an array of strings');
+  }
+  if (!isObject(raw.stages) || Object.keys(raw.stages).length === 0) {
+    throw new Error('"stages" must be an object with at least one stage');
+  }
+
+  const stageIds = Object.keys(raw.stages);
+  const reserved = stageIds.find((stageId) => stageId === WORKFLOW_DONE || stageId === WORKFLOW_FAILED);
+  if (reserved) {
+    throw new Error(`"${reserved}" cannot be a stage id`);
+  }
+  const start = raw.start ?? stageIds[0];
+  if (typeof start !== 'string' || !stageIds.includes(start)) {
+    throw new Error(`"start" must be one of the stages: ${stageIds.join(', ')}`);
+  }
+
+  const stages: Record<string, WorkflowStage> = {};
+  for (const stageId of stageIds) {
+    stages[stageId] = parseStage(raw.stages[stageId], stageId, stageIds, inputs);
+  }
+  return { id, name: raw.name, description: (raw.description as string | undefined) ?? '', inputs, start, stages };
+}
+
+const WORKFLOW_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export class WorkflowRegistry {
+  private workflowsDir: string;
+  private workflows: Map<string, WorkflowDefinition> = new Map();
+  // Files skipped by the last load, with the reason
+  private loadErrors: string[] = [];
+
+  constructor(workflowsDir?: string) {
+    this.workflowsDir = workflowsDir || path.join(os.homedir(), '.coding-team', 'workflows');
+    this.reset();
+  }
+
+  private reset(): void {
+    this.workflows.clear();
+    for (const workflow of BUILT_IN_WORKFLOWS) {
+      this.workflows.set(workflow.id, { ...workflow, builtIn: true });
+    }
+  }
+
+  // Load user-defined workflows, written in JSON or YAML. A user workflow with the id of a built-in one replaces it.
+  // Invalid files are skipped, so one broken workflow does not keep the others from loading.
+  async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.workflowsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.reset();
+        return;
+      }
+      throw error;
+    }
+
+    const loaded: WorkflowDefinition[] = [];
+    const loadErrors: string[] = [];
+    for (const file of files.filter((name) => WORKFLOW_EXTENSIONS.includes(path.extname(name))).sort()) {
+      const filePath = path.join(this.workflowsDir, file);
+      const id = path.basename(file, path.extname(file));
+      try {
+        if (loaded.some((workflow) => workflow.id === id)) {
+          throw new Error(`another file already defines workflow ${id}`);
+        }
+        const content = await fs.readFile(filePath, 'utf-8');
+        const raw = path.extname(file) === '.json' ? JSON.parse(content) : parseYaml(content);
+        loaded.push(parseWorkflow(raw, id));
+      } catch (error) {
+        const message = `Invalid workflow file ${filePath}: ${error instanceof Error ? error.message : error}`;
+        console.warn(message);
+        loadErrors.push(message);
+      }
+    }
+
+    this.reset();
+    this.loadErrors = loadErrors;
+    for (const workflow of loaded) {
+      this.workflows.set(workflow.id, workflow);
+    }
+  }
+
+  get(id: string): WorkflowDefinition | undefined {
+    return this.workflows.get(id);
+  }
+
+  getAll(): WorkflowDefinition[] {
+    return Array.from(this.workflows.values());
+  }
+
+  getLoadErrors(): string[] {
+    return [...this.loadErrors];
+  }
+}
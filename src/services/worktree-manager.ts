@@ -0,0 +1,233 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { WriteQueue } from './write-queue.js';
+
+const execFileAsync = promisify(execFile);
+
+export type WorktreeDisposition = 'keep' | 'remove' | 'archive';
+
+export interface WorktreeInfo {
+  instanceId: string;
+  repositoryPath: string;
+  worktreePath: string;
+  branch: string;
+  // Commit the branch started from, to tell whether it holds work of its own
+  baseCommit?: string;
+  createdAt: string;
+  // Process that owns the worktree. Used to detect worktrees left behind by a crashed app.
+  pid: number;
+  status: 'active' | 'kept';
+}
+
+export interface ReconcileResult {
+  removed: WorktreeInfo[];
+  archived: WorktreeInfo[];
+}
+
+export function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return slug || 'instance';
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class WorktreeManager {
+  private rootDir: string;
+  private registryPath: string;
+  private worktrees: WorktreeInfo[] = [];
+  private loaded = false;
+  private writes = new WriteQueue();
+
+  constructor(rootDir?: string) {
+    this.rootDir = rootDir || path.join(os.homedir(), '.coding-team', 'worktrees');
+    this.registryPath = path.join(this.rootDir, 'worktrees.json');
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout.trim();
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    try {
+      const data = await fs.readFile(this.registryPath, 'utf-8');
+      this.worktrees = JSON.parse(data) as WorktreeInfo[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.worktrees = [];
+    }
+    this.loaded = true;
+  }
+
+  private save(): Promise<void> {
+    // Serialize writes so concurrent create/release calls never interleave
+    return this.writes.run(async () => {
+      await fs.mkdir(this.rootDir, { recursive: true });
+      await fs.writeFile(this.registryPath, JSON.stringify(this.worktrees, null, 2));
+    });
+  }
+
+  // Create a dedicated worktree and branch of `repositoryPath` for an instance.
+  // `label` is usually the instance name or ticket and only shapes the branch name.
+  async create(repositoryPath: string, instanceId: string, label: string, baseRef = 'HEAD'): Promise<WorktreeInfo> {
+    await this.load();
+
+    const repoRoot = await this.git(repositoryPath, ['rev-parse', '--show-toplevel']).catch(() => {
+      throw new Error(`${repositoryPath} is not a git repository`);
+    });
+
+    // The instance id keeps two instances with the same label created at once apart
+    const name = `${slugify(label)}-${slugify(instanceId)}-${Date.now().toString(36)}`;
+    const branch = `coding-team/${name}`;
+    const worktreePath = path.join(this.rootDir, `${slugify(path.basename(repoRoot))}-${name}`);
+
+    const baseCommit = await this.git(repoRoot, ['rev-parse', '--verify', `${baseRef}^{commit}`]);
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await this.git(repoRoot, ['worktree', 'add', '-b', branch, worktreePath, baseRef]);
+
+    const info: WorktreeInfo = {
+      instanceId,
+      repositoryPath: repoRoot,
+      worktreePath,
+      branch,
+      baseCommit,
+      createdAt: new Date().toISOString(),
+      pid: process.pid,
+      status: 'active',
+    };
+    this.worktrees.push(info);
+    await this.save();
+
+    return info;
+  }
+
+  async hasUncommittedChanges(worktreePath: string): Promise<boolean> {
+    const status = await this.git(worktreePath, ['status', '--porcelain']);
+    return status.length > 0;
+  }
+
+  // Whether the branch has commits that are not in the commit it started from
+  async hasUnmergedCommits(info: WorktreeInfo): Promise<boolean> {
+    if (!info.baseCommit) {
+      // Recorded before base commits were: assume it has
+      return true;
+    }
+    const count = await this.git(info.repositoryPath, ['rev-list', '--count', `${info.baseCommit}..${info.branch}`]);
+    return Number.parseInt(count, 10) > 0;
+  }
+
+  // Dispose of an instance's worktree.
+  // - keep: leave the worktree and branch in place
+  // - remove: delete the worktree and its branch, discarding uncommitted changes
+  // - archive: stash uncommitted changes, then delete the worktree but keep the branch
+  async release(worktreePath: string, disposition: WorktreeDisposition): Promise<void> {
+    await this.load();
+
+    const info = this.worktrees.find((worktree) => worktree.worktreePath === worktreePath);
+    if (!info) {
+      throw new Error(`Worktree ${worktreePath} is not managed by coding-team`);
+    }
+
+    if (disposition === 'keep') {
+      info.status = 'kept';
+      await this.save();
+      return;
+    }
+
+    const exists = await fs
+      .stat(info.worktreePath)
+      .then(() => true)
+      .catch(() => false);
+
+    if (exists) {
+      if (disposition === 'archive' && (await this.hasUncommittedChanges(info.worktreePath))) {
+        await this.git(info.worktreePath, [
+          'stash',
+          'push',
+          '--include-untracked',
+          '-m',
+          `coding-team archive of ${info.branch}`,
+        ]);
+      }
+      await this.git(info.repositoryPath, ['worktree', 'remove', '--force', info.worktreePath]);
+    } else {
+      await this.git(info.repositoryPath, ['worktree', 'prune']);
+    }
+
+    if (disposition === 'remove') {
+      await this.git(info.repositoryPath, ['branch', '-D', info.branch]).catch(() => {
+        // The branch may already be gone
+      });
+    }
+
+    this.worktrees = this.worktrees.filter((worktree) => worktree !== info);
+    await this.save();
+  }
+
+  // Find worktrees whose owning process is gone and clean them up. Only worktrees whose branch holds no
+  // work are removed with it; those with uncommitted changes or commits of their own, or that cannot be
+  // checked, are archived so no work is lost.
+  async reconcile(): Promise<ReconcileResult> {
+    await this.load();
+
+    const result: ReconcileResult = { removed: [], archived: [] };
+    const orphans = this.worktrees.filter((worktree) => worktree.status === 'active' && !isProcessAlive(worktree.pid));
+
+    for (const orphan of orphans) {
+      try {
+        const hasWork = await this.hasUnmergedCommits(orphan)
+          .then(async (committed) => committed || (await this.hasUncommittedChanges(orphan.worktreePath)))
+          .catch(() => true);
+        await this.release(orphan.worktreePath, hasWork ? 'archive' : 'remove');
+        (hasWork ? result.archived : result.removed).push(orphan);
+      } catch (error) {
+        console.error(`Failed to clean up orphaned worktree ${orphan.worktreePath}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  // Take ownership of a worktree created by a previous run, so reconciliation leaves it alone
+  async adopt(worktreePath: string): Promise<WorktreeInfo | undefined> {
+    await this.load();
+
+    const info = this.worktrees.find((worktree) => worktree.worktreePath === worktreePath);
+    if (!info) {
+      return undefined;
+    }
+    info.pid = process.pid;
+    info.status = 'active';
+    await this.save();
+    return { ...info };
+  }
+
+  async getAll(): Promise<WorktreeInfo[]> {
+    await this.load();
+    return this.worktrees.map((worktree) => ({ ...worktree }));
+  }
+
+  getRootDir(): string {
+    return this.rootDir;
+  }
+}
@@ -0,0 +1,16 @@
+// Runs the writes of a file one after the other, so concurrent saves never interleave. A failed write
+// only rejects its own promise: the writes queued after it still run.
+export class WriteQueue {
+  private tail: Promise<void> = Promise.resolve();
+
+  run(write: () => Promise<void>): Promise<void> {
+    const written = this.tail.then(write);
+    this.tail = written.catch(() => undefined);
+    return written;
+  }
+
+  // Wait for the queued writes to finish, whether or not they succeed
+  async flush(): Promise<void> {
+    await this.tail;
+  }
+}
@@ -32,15 +32,15 @@ test.describe('Coding Team App', () => {
 
     // Verify status message using data-testid
     const status = window.getByTestId('app-status');
-    await expect(status).toContainText('Electron app successfully initialized');
+    await expect(status).toContainText('Connected');
 
     // Verify subtitle using data-testid
     const subtitle = window.getByTestId('app-subtitle');
     await expect(subtitle).toContainText('AI-powered collaborative development orchestrator');
 
-    // Check that features list is present using data-testid
-    const features = window.getByTestId('features-list');
-    await expect(features).toBeVisible();
+    // Check that the dashboard is shown using data-testid
+    await expect(window.getByTestId('dashboard-view')).toBeVisible();
+    await expect(window.getByTestId('instance-list')).toBeVisible();
 
     // Close the app
     await electronApp.close();
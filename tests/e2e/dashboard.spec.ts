@@ -0,0 +1,112 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { type ElectronApplication, type Page, expect, test } from '@playwright/test';
+import { _electron as electron } from 'playwright';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Stand-in for the Claude Code CLI that answers every message with the same reply
+const FAKE_CLI = `
+const message = (fields) => process.stdout.write(JSON.stringify({ session_id: 'e2e-session', ...fields }) + '\\n');
+message({ type: 'assistant', parent_tool_use_id: null, message: { content: [{ type: 'text', text: 'Hello from the team' }] } });
+message({
+  type: 'result', subtype: 'success', is_error: false, result: 'Hello from the team',
+  duration_ms: 1, duration_api_ms: 1, num_turns: 1, total_cost_usd: 0, usage: { input_tokens: 0, output_tokens: 0 },
+});
+`;
+
+test.describe('Team dashboard', () => {
+  let homeDir: string;
+  let cliPath: string;
+  let electronApp: ElectronApplication;
+  let window: Page;
+
+  test.beforeEach(async () => {
+    // A fresh home directory keeps config, instances and transcripts away from the developer's own
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'coding-team-e2e-'));
+    cliPath = path.join(homeDir, 'fake-claude.js');
+    await fs.writeFile(cliPath, FAKE_CLI);
+
+    electronApp = await electron
+      .launch({
+        args: [
+          path.join(__dirname, '../../dist/main.js'),
+          ...(process.env.CI ? ['--no-sandbox', '--disable-setuid-sandbox'] : []),
+        ],
+        env: { ...process.env, HOME: homeDir, CLAUDE_EXECUTABLE_PATH: cliPath },
+      })
+      .catch((error) => {
+        throw new Error(`Failed to launch Electron app. Ensure 'npm run build' was run first. Error: ${error.message}`);
+      });
+    window = await electronApp.firstWindow();
+    await expect(window.getByTestId('app-status')).toContainText('Connected · 0 instances');
+  });
+
+  test.afterEach(async () => {
+    await electronApp.close();
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  async function createInstance(name: string, persona?: string): Promise<void> {
+    await window.getByTestId('new-instance-name').fill(name);
+    if (persona) {
+      await window.getByTestId('new-instance-persona').selectOption({ label: persona });
+    }
+    await window.getByTestId('create-instance').click();
+  }
+
+  test('should create an instance and show it with its persona and live status', async () => {
+    await expect(window.getByTestId('instance-list')).toContainText('No instances yet');
+    await createInstance('Reviewer', 'PR Reviewer');
+
+    const item = window.getByTestId('instance-list').locator('li').filter({ hasText: 'Reviewer' });
+    await expect(item).toContainText('PR Reviewer');
+    await expect(item.locator('.badge')).toHaveText('ready');
+    await expect(window.getByTestId('chat-title')).toHaveText('Reviewer · PR Reviewer');
+    await expect(window.getByTestId('app-status')).toContainText('Connected · 1 instance');
+  });
+
+  test('should send a message and show the response in the chat panel', async () => {
+    await createInstance('Developer');
+    await expect(window.getByTestId('chat-status')).toHaveText('ready');
+
+    await window.getByTestId('chat-input').fill('Say hello');
+    await window.getByTestId('send-message').click();
+
+    const messages = window.getByTestId('chat-messages');
+    await expect(messages.getByTestId('message-prompt')).toHaveText('Say hello');
+    await expect(messages.getByTestId('message-text')).toHaveText('Hello from the team');
+    await expect(window.getByTestId('chat-status')).toHaveText('ready');
+  });
+
+  test('should stop the selected instance and remove it from the list', async () => {
+    await createInstance('Short-lived');
+    await expect(window.getByTestId('chat-status')).toHaveText('ready');
+
+    await window.getByTestId('stop-instance').click();
+
+    await expect(window.getByTestId('instance-list')).toContainText('No instances yet');
+    await expect(window.getByTestId('chat-title')).toHaveText('No instance selected');
+    await expect(window.getByTestId('stop-instance')).toBeDisabled();
+  });
+
+  test('should load and save settings', async () => {
+    await window.getByTestId('nav-settings').click();
+    await expect(window.getByTestId('settings-view')).toBeVisible();
+    await expect(window.getByTestId('dashboard-view')).toBeHidden();
+    await expect(window.getByTestId('settings-max-instances')).toHaveValue('5');
+
+    await window.getByTestId('settings-claude-path').fill(cliPath);
+    await window.getByTestId('settings-max-instances').fill('3');
+    await window.getByTestId('save-settings').click();
+    await expect(window.getByTestId('settings-saved')).toBeVisible();
+
+    const saved = JSON.parse(await fs.readFile(path.join(homeDir, '.coding-team', 'config.json'), 'utf-8'));
+    expect(saved).toMatchObject({ claudeExecutablePath: cliPath, maxConcurrentInstances: 3 });
+
+    await window.getByTestId('nav-dashboard').click();
+    await expect(window.getByTestId('dashboard-view')).toBeVisible();
+  });
+});
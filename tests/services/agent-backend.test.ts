@@ -0,0 +1,64 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeCodeBackend } from '../../src/services/agent-backend.js';
+
+// Stands in for the Claude Code CLI: answers with the secret it finds in its environment
+const FAKE_CLI = `process.stdout.write(JSON.stringify({
+  type: 'result',
+  subtype: 'success',
+  result: process.env.CODING_TEAM_TEST_SECRET ?? 'unset',
+  session_id: 'session-1',
+}) + '\\n');`;
+
+describe('ClaudeCodeBackend', () => {
+  let testDir: string;
+  let cliPath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-backend-test-'));
+    cliPath = path.join(testDir, 'cli.js');
+    await fs.writeFile(cliPath, FAKE_CLI);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function run(backend: ClaudeCodeBackend, env?: Record<string, string>): Promise<string[]> {
+    const results: string[] = [];
+    for await (const message of backend.query({
+      instanceId: 'claude-1',
+      prompt: 'hi',
+      cwd: testDir,
+      model: 'test-model',
+      abortController: new AbortController(),
+      env,
+    })) {
+      results.push((message as { result?: string }).result ?? '');
+    }
+    return results;
+  }
+
+  it('should set the environment of a query in its CLI only', async () => {
+    const backend = new ClaudeCodeBackend({ executablePath: () => cliPath });
+    const leftBefore = await envFiles();
+
+    const results = await Promise.all([
+      run(backend, { CODING_TEAM_TEST_SECRET: 'ghp_first' }),
+      run(backend, { CODING_TEAM_TEST_SECRET: 'ghp_second' }),
+      run(backend),
+    ]);
+
+    assert.deepStrictEqual(results, [['ghp_first'], ['ghp_second'], ['unset']]);
+    assert.strictEqual(process.env.CODING_TEAM_TEST_SECRET, undefined);
+    // The files that carried the variables are gone
+    assert.deepStrictEqual(await envFiles(), leftBefore);
+  });
+});
+
+async function envFiles(): Promise<string[]> {
+  return (await fs.readdir(os.tmpdir())).filter((name) => name.startsWith('coding-team-env-'));
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert';
+import { type ChildProcessWithoutNullStreams, spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { AgentBridge, bridgeToolName } from '../../src/services/agent-bridge.js';
+
+describe('AgentBridge', () => {
+  let testDir: string;
+  let bridge: AgentBridge;
+  let child: ChildProcessWithoutNullStreams;
+  let responses: AsyncIterator<string>;
+  let messageId = 0;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-bridge-test-'));
+    bridge = new AgentBridge(path.join(testDir, 'bridge.sock'));
+    bridge.register({
+      name: 'echo',
+      description: 'Repeats its text',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+      call: async (instanceId, args) => {
+        if (typeof args.text !== 'string') {
+          throw new Error('text is required');
+        }
+        return `${instanceId}: ${args.text}`;
+      },
+    });
+    await bridge.listen();
+  });
+
+  afterEach(async () => {
+    child?.kill();
+    await bridge.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function start(instanceId: string): void {
+    const { command, args, env } = bridge.serverConfig(instanceId) as {
+      command: string;
+      args: string[];
+      env: Record<string, string>;
+    };
+    child = spawn(command, args, { env: { ...process.env, ...env } });
+    responses = readline.createInterface({ input: child.stdout })[Symbol.asyncIterator]();
+  }
+
+  async function call(method: string, params: Record<string, unknown> = {}) {
+    const id = ++messageId;
+    child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    const { value } = await responses.next();
+    const response = JSON.parse(value as string);
+    assert.strictEqual(response.id, id);
+    return response;
+  }
+
+  it('should refuse to register a tool twice', () => {
+    assert.ok(bridge.has('echo'));
+    assert.throws(
+      () => bridge.register({ name: 'echo', description: '', inputSchema: {}, call: async () => '' }),
+      /Bridge tool echo is already registered/,
+    );
+    assert.strictEqual(bridgeToolName('echo'), 'mcp__coding-team__echo');
+  });
+
+  it('should serve the registered tools to an agent over MCP', async () => {
+    start('claude-1');
+
+    const initialized = await call('initialize', { protocolVersion: '2025-03-26' });
+    assert.strictEqual(initialized.result.protocolVersion, '2025-03-26');
+    const listed = await call('tools/list');
+    assert.deepStrictEqual(listed.result.tools, [
+      {
+        name: 'echo',
+        description: 'Repeats its text',
+        inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+      },
+    ]);
+
+    const echoed = await call('tools/call', { name: 'echo', arguments: { text: 'hello' } });
+    assert.deepStrictEqual(echoed.result, { content: [{ type: 'text', text: 'claude-1: hello' }] });
+
+    const failed = await call('tools/call', { name: 'echo', arguments: {} });
+    assert.deepStrictEqual(failed.result, { content: [{ type: 'text', text: 'text is required' }], isError: true });
+
+    const unknown = await call('tools/call', { name: 'approve', arguments: {} });
+    assert.strictEqual(unknown.error.message, 'Unknown tool approve');
+  });
+});
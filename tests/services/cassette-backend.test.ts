@@ -0,0 +1,167 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { type Cassette, CassetteBackend, type SessionMode } from '../../src/services/cassette-backend.js';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import type { SDKMessage } from '../../src/services/claude-stream.js';
+import { CredentialStore, REDACTED } from '../../src/services/credential-store.js';
+import { ScriptedBackend, textReply } from '../../src/services/scripted-backend.js';
+
+describe('CassetteBackend', () => {
+  let testDir: string;
+  let cassetteDir: string;
+  let live: ScriptedBackend;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-backend-test-'));
+    cassetteDir = path.join(testDir, 'cassettes');
+    live = new ScriptedBackend();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function team(mode: SessionMode) {
+    const backend = new CassetteBackend({ live, directory: cassetteDir, mode });
+    const manager = new ClaudeManager({ backend });
+    return { backend, manager };
+  }
+
+  async function readCassette(instanceId: string): Promise<Cassette> {
+    return JSON.parse(await fs.readFile(path.join(cassetteDir, `${instanceId}.json`), 'utf-8'));
+  }
+
+  it('should record sessions and replay them without the live backend', async () => {
+    const recording = team('record');
+    live.enqueue(textReply('first', { sessionId: 'session-1' }), textReply('second', { sessionId: 'session-1' }));
+    const recorded = await recording.manager.createInstance('dev', { workingDirectory: testDir });
+    assert.strictEqual(await recording.manager.sendMessage(recorded.id, 'one'), 'first');
+    assert.strictEqual(await recording.manager.sendMessage(recorded.id, 'two'), 'second');
+    await recording.backend.flush();
+
+    const cassette = await readCassette('claude-1');
+    assert.deepStrictEqual(
+      cassette.exchanges.map((exchange) => [exchange.prompt, exchange.options.resume, exchange.messages.length]),
+      [
+        ['one', undefined, 2],
+        ['two', 'session-1', 2],
+      ],
+    );
+    assert.strictEqual(cassette.exchanges[0].options.cwd, testDir);
+    assert.ok(!('abortController' in cassette.exchanges[0].options));
+
+    const replaying = team('replay');
+    const replayed = await replaying.manager.createInstance('dev', { workingDirectory: testDir });
+    assert.strictEqual(await replaying.manager.sendMessage(replayed.id, 'one'), 'first');
+    assert.strictEqual(replayed.sessionId, 'session-1');
+    assert.strictEqual(await replaying.manager.sendMessage(replayed.id, 'two'), 'second');
+    assert.strictEqual(live.queries.length, 2);
+
+    await assert.rejects(
+      () => replaying.manager.sendMessage(replayed.id, 'three'),
+      /has no exchange left for prompt "three": all 2 recorded exchanges were replayed/,
+    );
+  });
+
+  it('should report a prompt that does not match the recording', async () => {
+    const recording = team('record');
+    live.enqueue(textReply('done'));
+    const instance = await recording.manager.createInstance('dev', { workingDirectory: testDir });
+    await recording.manager.sendMessage(instance.id, 'Fix the login bug');
+    await recording.backend.flush();
+
+    const replaying = team('replay');
+    const replayed = await replaying.manager.createInstance('dev', { workingDirectory: testDir });
+    await assert.rejects(
+      () => replaying.manager.sendMessage(replayed.id, 'Fix the logout bug'),
+      /does not match exchange 1 of claude-1: recorded prompt "Fix the login bug", got "Fix the logout bug" \(first difference at character 12\)/,
+    );
+    assert.strictEqual(replayed.status, 'error');
+  });
+
+  it('should replay recorded failures and fail without a cassette', async () => {
+    const recording = team('record');
+    live.enqueue([{ error: 'rate limited' }]);
+    const instance = await recording.manager.createInstance('dev', { workingDirectory: testDir });
+    await assert.rejects(() => recording.manager.sendMessage(instance.id, 'hi'), /rate limited/);
+    await recording.backend.flush();
+    assert.strictEqual((await readCassette('claude-1')).exchanges[0].error, 'rate limited');
+
+    const replaying = team('replay');
+    const replayed = await replaying.manager.createInstance('dev', { workingDirectory: testDir });
+    await assert.rejects(() => replaying.manager.sendMessage(replayed.id, 'hi'), /rate limited/);
+    const other = await replaying.manager.createInstance('other', { workingDirectory: testDir });
+    await assert.rejects(
+      () => replaying.manager.sendMessage(other.id, 'hi'),
+      /No cassette to replay for claude-2: .*claude-2\.json does not exist/,
+    );
+  });
+
+  it('should let an instance choose its own mode', async () => {
+    const { backend, manager } = team('live');
+    live.enqueue(textReply('recorded'), textReply('live'));
+    const recorded = await manager.createInstance('recorded', { workingDirectory: testDir, sessionMode: 'record' });
+    const plain = await manager.createInstance('plain', { workingDirectory: testDir });
+    await manager.sendMessage(recorded.id, 'one');
+    await manager.sendMessage(plain.id, 'two');
+    await backend.flush();
+
+    assert.deepStrictEqual(await fs.readdir(cassetteDir), ['claude-1.json']);
+
+    // A replaying instance never reaches the live backend, even when the team runs live
+    const replayed = await manager.createInstance('replayed', { workingDirectory: testDir, sessionMode: 'replay' });
+    await fs.copyFile(path.join(cassetteDir, 'claude-1.json'), backend.cassettePath(replayed.id));
+    assert.strictEqual(await manager.sendMessage(replayed.id, 'one'), 'recorded');
+    assert.strictEqual(live.queries.length, 2);
+  });
+
+  it('should mask secrets in what it records', async () => {
+    const credentials = new CredentialStore({
+      storePath: path.join(testDir, 'credentials.json'),
+      keyPath: path.join(testDir, 'credentials.key'),
+    });
+    await credentials.set('GITHUB_TOKEN', 'ghp_secret');
+    const redact = <T>(value: T): T => credentials.redactValue(value);
+    const backend = new CassetteBackend({ live, directory: cassetteDir, mode: 'record', redact });
+    const manager = new ClaudeManager({ backend });
+    live.enqueue(textReply('Pushed with ghp_secret'));
+    const instance = await manager.createInstance('dev', { workingDirectory: testDir });
+    assert.strictEqual(await manager.sendMessage(instance.id, 'Push with ghp_secret'), 'Pushed with ghp_secret');
+    // Credentials of MCP servers written in the config are not stored secrets
+    live.enqueue(textReply('Found it'));
+    const looked: SDKMessage[] = [];
+    for await (const message of backend.query({
+      instanceId: 'claude-9',
+      prompt: 'Look it up',
+      cwd: testDir,
+      model: 'test-model',
+      abortController: new AbortController(),
+      mcpServers: { docs: { type: 'http', url: 'http://docs', headers: { Authorization: 'Bearer plain' } } },
+    })) {
+      looked.push(message);
+    }
+    await backend.flush();
+
+    const file = await fs.readFile(backend.cassettePath(instance.id), 'utf-8');
+    assert.doesNotMatch(file, /ghp_secret/);
+    assert.strictEqual((await readCassette(instance.id)).exchanges[0].prompt, 'Push with [secret GITHUB_TOKEN]');
+    const [lookup] = (await readCassette('claude-9')).exchanges;
+    assert.deepStrictEqual(lookup.messages, looked);
+    assert.deepStrictEqual(lookup.options.mcpServers, {
+      docs: { type: 'http', url: 'http://docs', headers: { Authorization: REDACTED } },
+    });
+
+    // The prompt is masked the same way to be replayed
+    const replaying = new ClaudeManager({
+      backend: new CassetteBackend({ live, directory: cassetteDir, mode: 'replay', redact }),
+    });
+    const replayed = await replaying.createInstance('dev', { workingDirectory: testDir });
+    assert.strictEqual(
+      await replaying.sendMessage(replayed.id, 'Push with ghp_secret'),
+      'Pushed with [secret GITHUB_TOKEN]',
+    );
+  });
+});
@@ -0,0 +1,367 @@
+import assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { CiMonitor, type CiRun, flakinessOf } from '../../src/services/ci-monitor.js';
+import {
+  parseBiomeOutput,
+  parsePlaywrightJson,
+  parseSpecOutput,
+  parseTapOutput,
+} from '../../src/services/ci-output-parsers.js';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+const TAP_OUTPUT = `TAP version 13
+# Subtest: Suite
+    # Subtest: passes
+    ok 1 - passes
+      ---
+      duration_ms: 0.77
+      ...
+    # Subtest: Inner
+        # Subtest: deep fail
+        not ok 1 - deep fail
+          ---
+          duration_ms: 0.16
+          location: '/repo/a.test.mjs:6:29'
+          failureType: 'testCodeFailure'
+          error: |-
+            boom
+            second line
+          code: 'ERR_TEST_FAILURE'
+          stack: |-
+            TestContext.<anonymous> (file:///repo/a.test.mjs:6:59)
+          ...
+        1..1
+    not ok 2 - Inner
+      ---
+      duration_ms: 0.38
+      type: 'suite'
+      location: '/repo/a.test.mjs:6:3'
+      failureType: 'subtestsFailed'
+      error: '1 subtest failed'
+      ...
+    1..2
+not ok 1 - Suite
+  ---
+  duration_ms: 4.0
+  type: 'suite'
+  failureType: 'subtestsFailed'
+  ...
+# Subtest: top fail
+not ok 2 - top fail
+  ---
+  duration_ms: 0.21
+  location: '/repo/a.test.mjs:8:1'
+  failureType: 'testCodeFailure'
+  error: "it's broken"
+  ...
+1..2
+# fail 2
+`;
+
+const SPEC_OUTPUT = `▶ Suite
+  ✔ passes (0.7ms)
+▶ Suite (4.1ms)
+
+ℹ tests 2
+ℹ fail 1
+
+✖ failing tests:
+
+test at a.test.mjs:8:1
+✖ top fail (0.21774ms)
+  AssertionError [ERR_ASSERTION]: it's broken
+      at TestContext.<anonymous> (file:///repo/a.test.mjs:8:31)
+`;
+
+const BIOME_OUTPUT = `./src/app.ts:12:5 lint/style/useTemplate  FIXABLE  ━━━━━━━━━━━━━━━━━━━━
+
+  × Template literals are preferred over string concatenation.
+
+./src/app.ts:20:1 lint/suspicious/noConsole ━━━━━━━━━━━━━━━━━━━━
+
+  ! Don't use console.
+
+./src/other.ts format ━━━━━━━━━━━━━━━━━━━━
+
+  × Formatter would have printed the following content:
+
+Checked 2 files in 10ms. No fixes applied.
+Found 2 errors.
+check ━━━━━━━━━━━━━━━━━━━━
+
+  × Some errors were emitted while running checks.
+`;
+
+describe('CI output parsers', () => {
+  it('should read leaf failures with their suites from node:test TAP output', () => {
+    assert.deepStrictEqual(parseTapOutput(TAP_OUTPUT), [
+      { name: 'Suite > Inner > deep fail', file: '/repo/a.test.mjs', line: 6, message: 'boom\nsecond line' },
+      { name: 'top fail', file: '/repo/a.test.mjs', line: 8, message: "it's broken" },
+    ]);
+  });
+
+  it('should read the failing tests summary of the spec reporter', () => {
+    assert.deepStrictEqual(parseSpecOutput(SPEC_OUTPUT), [
+      { name: 'top fail', file: 'a.test.mjs', line: 8, message: "AssertionError [ERR_ASSERTION]: it's broken" },
+    ]);
+  });
+
+  it('should read unexpected and flaky tests from a Playwright JSON report', () => {
+    const report = {
+      suites: [
+        {
+          title: 'app.spec.ts',
+          file: 'app.spec.ts',
+          specs: [
+            {
+              title: 'loads',
+              file: 'app.spec.ts',
+              line: 3,
+              tests: [{ status: 'expected', results: [{ status: 'passed' }] }],
+            },
+          ],
+          suites: [
+            {
+              title: 'Dashboard',
+              file: 'app.spec.ts',
+              specs: [
+                {
+                  title: 'shows instances',
+                  file: 'app.spec.ts',
+                  line: 10,
+                  tests: [
+                    { status: 'unexpected', results: [{ status: 'failed', error: { message: 'Timeout\nmore' } }] },
+                  ],
+                },
+                {
+                  title: 'shows tasks',
+                  file: 'app.spec.ts',
+                  line: 20,
+                  tests: [
+                    {
+                      status: 'flaky',
+                      results: [{ status: 'failed', error: { message: 'Detached' } }, { status: 'passed' }],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    assert.deepStrictEqual(parsePlaywrightJson(`Running 3 tests\n${JSON.stringify(report)}`), [
+      { name: 'Dashboard > shows instances', file: 'app.spec.ts', line: 10, message: 'Timeout', flaky: undefined },
+      { name: 'Dashboard > shows tasks', file: 'app.spec.ts', line: 20, message: 'Detached', flaky: true },
+    ]);
+    assert.throws(() => parsePlaywrightJson('no report'), /not a JSON report/);
+  });
+
+  it('should read Biome errors and skip warnings', () => {
+    assert.deepStrictEqual(parseBiomeOutput(BIOME_OUTPUT), [
+      {
+        name: 'lint/style/useTemplate',
+        file: 'src/app.ts',
+        line: 12,
+        message: 'Template literals are preferred over string concatenation.',
+      },
+      {
+        name: 'format',
+        file: 'src/other.ts',
+        line: undefined,
+        message: 'Formatter would have printed the following content:',
+      },
+    ]);
+  });
+});
+
+// Stand-in for the Claude Code CLI that logs the prompts it receives
+const LOGGING_CLI = `
+const fs = require('node:fs');
+const path = require('node:path');
+fs.appendFileSync(path.join(__dirname, 'prompts.log'), process.argv.slice(2).join(' ') + '\\n');
+process.stdout.write(JSON.stringify({
+  type: 'result', subtype: 'success', is_error: false, result: 'Investigated.', session_id: 's',
+  duration_ms: 1, duration_api_ms: 1, num_turns: 1, total_cost_usd: 0, usage: { input_tokens: 0, output_tokens: 0 },
+}) + '\\n');
+`;
+
+describe('CiMonitor', () => {
+  let testDir: string;
+  let repoPath: string;
+  let manager: ClaudeManager;
+  let monitor: CiMonitor;
+
+  // The check prints lint.txt from the test directory and exits with the code in exit.txt
+  async function setLintResult(output: string, exitCode: number): Promise<void> {
+    await fs.writeFile(path.join(testDir, 'lint.txt'), output);
+    await fs.writeFile(path.join(testDir, 'exit.txt'), String(exitCode));
+  }
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `ci-monitor-test-${Date.now()}`);
+    repoPath = path.join(testDir, 'repo');
+    await fs.mkdir(repoPath, { recursive: true });
+
+    git(repoPath, 'init', '-q', '-b', 'main');
+    git(repoPath, 'config', 'user.email', 'test@example.com');
+    git(repoPath, 'config', 'user.name', 'Test');
+    await fs.writeFile(path.join(repoPath, 'README.md'), '# Test\n');
+    git(repoPath, 'add', '.');
+    git(repoPath, 'commit', '-q', '-m', 'initial');
+
+    const cliPath = path.join(testDir, 'cli.js');
+    await fs.writeFile(cliPath, LOGGING_CLI);
+    manager = new ClaudeManager({ claudeExecutablePath: cliPath });
+    monitor = new CiMonitor(
+      manager,
+      {
+        repository: repoPath,
+        checks: [
+          {
+            name: 'lint',
+            command: `cat ${testDir}/lint.txt; exit $(cat ${testDir}/exit.txt)`,
+            format: 'biome',
+          },
+          { name: 'readme', command: 'test -f README.md', format: 'exit-code' },
+        ],
+      },
+      { rootDir: path.join(testDir, 'ci') },
+    );
+  });
+
+  afterEach(async () => {
+    monitor.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should classify failures across runs and hand reports to a CI Monitor instance', async () => {
+    await setLintResult(BIOME_OUTPUT, 1);
+    const handedOff = once(monitor, 'reportHandedOff');
+    const first = await monitor.runNow();
+
+    assert.deepStrictEqual(
+      first.failures.map((failure) => [failure.check, failure.name, failure.kind]),
+      [
+        ['lint', 'lint/style/useTemplate', 'new'],
+        ['lint', 'format', 'new'],
+      ],
+    );
+    assert.deepStrictEqual(
+      first.checks.map((check) => [check.name, check.exitCode, check.failureCount]),
+      [
+        ['lint', 1, 2],
+        ['readme', 0, 0],
+      ],
+    );
+    assert.strictEqual(manager.getInstance(first.instanceId as string)?.persona?.id, 'ci-monitor');
+    await handedOff;
+    await manager.waitForReady(first.instanceId as string);
+    const prompts = await fs.readFile(path.join(testDir, 'prompts.log'), 'utf-8');
+    assert.match(prompts, /CI run ci-1 on [0-9a-f]{40} has failures/);
+    assert.match(prompts, /## New failures[\s\S]*\*\*lint\*\*: lint\/style\/useTemplate \(src\/app\.ts:12\)/);
+
+    const second = await monitor.runNow();
+    assert.deepStrictEqual(
+      second.failures.map((failure) => failure.kind),
+      ['recurring', 'recurring'],
+    );
+    // Already handed off for this commit
+    assert.strictEqual(second.instanceId, undefined);
+
+    await setLintResult('', 0);
+    const third = await monitor.runNow();
+    assert.deepStrictEqual(third.failures, []);
+    assert.strictEqual(third.reportPath, undefined);
+
+    // Failing again on a commit it passed on makes it flaky, which is reported but not handed off
+    await setLintResult(BIOME_OUTPUT, 1);
+    const fourth = await monitor.runNow();
+    assert.deepStrictEqual(
+      fourth.failures.map((failure) => failure.kind),
+      ['flaky', 'flaky'],
+    );
+    assert.strictEqual(fourth.instanceId, undefined);
+    assert.match(await monitor.getReport(fourth.id), /## Flaky failures[\s\S]*flakiness 67%/);
+    await manager.waitForReady(first.instanceId as string);
+  });
+
+  it('should hand reports to the same instance after a restart and stop it once disabled', async () => {
+    await setLintResult(BIOME_OUTPUT, 1);
+    const handedOff = once(monitor, 'reportHandedOff');
+    const first = await monitor.runNow();
+    await handedOff;
+    monitor.stop();
+
+    git(repoPath, 'commit', '-q', '--allow-empty', '-m', 'still failing');
+    const restarted = new CiMonitor(
+      manager,
+      { repository: repoPath, checks: [{ name: 'lint', command: `cat ${testDir}/lint.txt; exit 1`, format: 'biome' }] },
+      { rootDir: path.join(testDir, 'ci') },
+    );
+    await restarted.load();
+    const handedOffAgain = once(restarted, 'reportHandedOff');
+    const second = await restarted.runNow();
+    await handedOffAgain;
+    assert.strictEqual(second.instanceId, first.instanceId);
+
+    await restarted.disable();
+    assert.strictEqual(manager.getInstance(first.instanceId as string), undefined);
+  });
+
+  it('should run right away on start when no run happened within the interval', async () => {
+    await setLintResult('', 0);
+    const completed = once(monitor, 'runCompleted');
+    monitor.start();
+    const [run] = (await completed) as [CiRun];
+    assert.deepStrictEqual(run.failures, []);
+  });
+
+  it('should fall back to the exit code and output when nothing can be parsed', async () => {
+    await setLintResult('Segmentation fault', 139);
+    const run = await monitor.runNow();
+
+    assert.deepStrictEqual(
+      run.failures.map((failure) => [failure.name, failure.message]),
+      [['lint', `cat ${testDir}/lint.txt; exit $(cat ${testDir}/exit.txt) exited with 139`]],
+    );
+    assert.match(await monitor.getReport(run.id), /## Output of lint\n\n```\nSegmentation fault\n```/);
+    await manager.waitForReady(run.instanceId as string);
+
+    const restored = new CiMonitor(
+      manager,
+      { repository: repoPath, checks: [] },
+      { rootDir: path.join(testDir, 'ci') },
+    );
+    await restored.load();
+    assert.deepStrictEqual(
+      restored.getRuns().map((previous) => previous.id),
+      [run.id],
+    );
+    assert.doesNotMatch(git(repoPath, 'worktree', 'list'), /checkouts/);
+  });
+
+  it('should measure flakiness as the share of flips between runs', () => {
+    const run = (failing: boolean): CiRun => ({
+      id: 'ci',
+      commit: 'c',
+      startedAt: '',
+      finishedAt: '',
+      checks: [{ name: 'unit', command: 'npm test', exitCode: failing ? 1 : 0, durationMs: 1, failureCount: 0 }],
+      failures: failing ? [{ check: 'unit', name: 't', message: '', kind: 'new' }] : [],
+    });
+
+    assert.strictEqual(flakinessOf('unit::::t', [run(true), run(true), run(true)]), 0);
+    assert.strictEqual(flakinessOf('unit::::t', [run(true), run(false), run(true), run(false), run(false)]), 0.75);
+  });
+});
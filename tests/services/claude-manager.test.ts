@@ -1,10 +1,463 @@
-// ClaudeManager tests are temporarily disabled as they require Electron
-// which is not available in the Node.js test environment.
-// These tests will be re-enabled when we have a proper testing strategy
-// for Electron-dependent code.
-
-import { describe } from 'node:test';
+import assert from 'node:assert';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { AgentBridge } from '../../src/services/agent-bridge.js';
+import { type ClaudeInstance, ClaudeManager, type InstanceTransition } from '../../src/services/claude-manager.js';
+import type { ClaudeStreamEvent } from '../../src/services/claude-stream.js';
+import { CredentialStore } from '../../src/services/credential-store.js';
+import { InstanceStore } from '../../src/services/instance-store.js';
+import type { JsonSchema } from '../../src/services/json-schema.js';
+import { McpServerRegistry } from '../../src/services/mcp-servers.js';
+import { APPROVAL_TOOL, PermissionBroker } from '../../src/services/permission-broker.js';
+import { ScriptedBackend, textReply } from '../../src/services/scripted-backend.js';
+import type { UsageRecord } from '../../src/services/usage-tracker.js';
 
 describe('ClaudeManager', () => {
-  // Tests disabled - see comment above
+  let testDir: string;
+  let backend: ScriptedBackend;
+  let manager: ClaudeManager;
+  let transitions: string[];
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `claude-manager-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    backend = new ScriptedBackend();
+    manager = new ClaudeManager({ backend, defaultModel: 'test-model', maxConcurrentInstances: 2 });
+    transitions = [];
+    manager.on('instanceTransition', ({ instance, from, to }: InstanceTransition) => {
+      transitions.push(`${instance.id}: ${from ?? 'none'} -> ${to}`);
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function create(name = 'dev', personaId?: string): Promise<ClaudeInstance> {
+    return manager.createInstance(name, { workingDirectory: testDir, personaId });
+  }
+
+  describe('createInstance', () => {
+    it('should create ready instances with their persona', async () => {
+      const created = once(manager, 'instanceCreated');
+      const instance = await create('reviewer', 'pr-reviewer');
+
+      assert.strictEqual(instance.id, 'claude-1');
+      assert.strictEqual(instance.status, 'ready');
+      assert.strictEqual(instance.persona?.name, 'PR Reviewer');
+      assert.deepStrictEqual(await created, [instance]);
+      assert.deepStrictEqual(transitions, ['claude-1: none -> ready']);
+    });
+
+    it('should reject unknown personas and instances beyond the limit', async () => {
+      await assert.rejects(() => create('dev', 'astronaut'), /Persona astronaut not found/);
+      await create('one');
+      await create('two');
+      await assert.rejects(() => create('three'), /limit of 2 concurrent instances reached/);
+
+      manager.updateOptions({ maxConcurrentInstances: 3 });
+      await create('three');
+    });
+
+    it('should count instances still being created towards the limit', async () => {
+      const results = await Promise.allSettled([create('one'), create('two'), create('three')]);
+      assert.deepStrictEqual(
+        results.map((result) => result.status),
+        ['fulfilled', 'fulfilled', 'rejected'],
+      );
+      assert.strictEqual(manager.getActiveInstances().length, 2);
+      assert.strictEqual(manager.hasCapacity(), false);
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should run a query and stream its progress', async () => {
+      const instance = await create('reviewer', 'pr-reviewer');
+      backend.enqueue(textReply('Looks good', { sessionId: 'session-1', costUsd: 0.25 }));
+      const events: ClaudeStreamEvent[] = [];
+      manager.on('instanceStream', (event: ClaudeStreamEvent) => events.push(event));
+      const usage = once(manager, 'instanceUsage');
+
+      assert.strictEqual(await manager.sendMessage(instance.id, 'Review this'), 'Looks good');
+
+      assert.strictEqual(instance.status, 'ready');
+      assert.strictEqual(instance.sessionId, 'session-1');
+      assert.deepStrictEqual(
+        events.map((event) => event.type),
+        ['prompt', 'text', 'result'],
+      );
+      const [record] = (await usage) as [UsageRecord];
+      assert.strictEqual(record.costUsd, 0.25);
+      assert.deepStrictEqual(transitions, [
+        'claude-1: none -> ready',
+        'claude-1: ready -> busy',
+        'claude-1: busy -> ready',
+      ]);
+
+      const [query] = backend.queries;
+      assert.strictEqual(query.prompt, 'Review this');
+      assert.strictEqual(query.cwd, testDir);
+      assert.strictEqual(query.model, 'test-model');
+      assert.strictEqual(query.resume, undefined);
+      assert.match(query.appendSystemPrompt ?? '', /code reviewer/);
+    });
+
+    it('should resume the session and pick up new options on the next query', async () => {
+      const instance = await create();
+      backend.enqueue(textReply('first', { sessionId: 'session-1' }), textReply('second', { sessionId: 'session-1' }));
+
+      await manager.sendMessage(instance.id, 'one');
+      manager.updateOptions({ defaultModel: 'other-model' });
+      await manager.sendMessage(instance.id, 'two');
+
+      assert.deepStrictEqual(
+        backend.queries.map((query) => [query.resume, query.model]),
+        [
+          [undefined, 'test-model'],
+          ['session-1', 'other-model'],
+        ],
+      );
+    });
+
+    it('should refuse messages to busy or unknown instances', async () => {
+      const instance = await create();
+      backend.enqueue(textReply('done', { delayMs: 50 }));
+
+      const first = manager.sendMessage(instance.id, 'one');
+      await assert.rejects(() => manager.sendMessage(instance.id, 'two'), /is not ready. Current status: busy/);
+      await first;
+      await assert.rejects(() => manager.sendMessage('claude-9', 'hi'), /Instance claude-9 not found/);
+    });
+
+    it('should move the instance to error when the query fails', async () => {
+      const instance = await create();
+      backend.enqueue([{ error: 'rate limited' }]);
+      const events: ClaudeStreamEvent[] = [];
+      manager.on('instanceStream', (event: ClaudeStreamEvent) => events.push(event));
+      const failed = once(manager, 'instanceError');
+
+      await assert.rejects(() => manager.sendMessage(instance.id, 'hi'), /rate limited/);
+
+      assert.strictEqual(instance.status, 'error');
+      assert.strictEqual(instance.statusReason, 'rate limited');
+      assert.deepStrictEqual(events.at(-1), { type: 'error', instanceId: instance.id, message: 'rate limited' });
+      const [{ error }] = (await failed) as [{ error: Error }];
+      assert.strictEqual(error.message, 'rate limited');
+      await assert.rejects(() => manager.sendMessage(instance.id, 'again'), /Current status: error/);
+    });
+
+    it('should report a query that ends without a result', async () => {
+      const instance = await create();
+      backend.enqueue([]);
+
+      assert.strictEqual(await manager.sendMessage(instance.id, 'hi'), 'Query completed without result');
+      assert.strictEqual(instance.statusReason, 'query completed without result');
+    });
+  });
+
+  describe('sendStructured', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { tasks: { type: 'array', items: { type: 'string' }, minItems: 1 } },
+      required: ['tasks'],
+    };
+
+    it('should ask for JSON matching the schema and send the errors back until it matches', async () => {
+      const instance = await create();
+      backend.enqueue(
+        textReply('Here is the breakdown: {"tasks": []}'),
+        textReply('Sorry, the tasks are: write the parser, then the tests.'),
+        textReply('```json\n{"tasks": ["Write the parser", "Test it"]}\n```'),
+      );
+
+      const answer = await manager.sendStructured<{ tasks: string[] }>(instance.id, 'Break the work down', schema);
+      assert.deepStrictEqual(answer, { tasks: ['Write the parser', 'Test it'] });
+
+      const prompts = backend.queries.map((query) => query.prompt);
+      assert.match(prompts[0], /^Break the work down\n\nAnswer with a single JSON value matching this JSON Schema/);
+      assert.match(prompts[0], /"minItems": 1/);
+      assert.strictEqual(
+        prompts[1],
+        'Your answer does not match the JSON Schema:\n- $.tasks must have at least 1 items, has 0\n\n' +
+          'Answer again with only the corrected JSON in a ```json code block.',
+      );
+      assert.match(prompts[2], /- \$ The reply does not contain valid JSON/);
+    });
+
+    it('should give up with the last errors after the retries', async () => {
+      const instance = await create();
+      backend.enqueue(textReply('{"tasks": "all of it"}'), textReply('{"todo": ["x"]}'));
+
+      await assert.rejects(
+        () => manager.sendStructured(instance.id, 'Break the work down', schema, { maxRetries: 1 }),
+        {
+          message:
+            'Instance claude-1 did not answer with JSON matching the schema after 2 attempts:\n- $.tasks is required',
+        },
+      );
+      assert.strictEqual(backend.queries.length, 2);
+      await assert.rejects(
+        () => manager.sendStructured(instance.id, 'x', { type: 'list' } as unknown as JsonSchema),
+        /Invalid JSON Schema: #\/type has an unknown type "list"/,
+      );
+    });
+  });
+
+  describe('abortQuery and recoverInstance', () => {
+    it('should abort a running query with a reason', async () => {
+      const instance = await create();
+      backend.enqueue(textReply('too late', { delayMs: 10_000 }));
+
+      const query = manager.sendMessage(instance.id, 'hi');
+      assert.strictEqual(manager.abortQuery(instance.id, 'watchdog timeout'), true);
+
+      await assert.rejects(query, /Query aborted: watchdog timeout/);
+      assert.strictEqual(instance.status, 'error');
+      assert.strictEqual(instance.statusReason, 'watchdog timeout');
+      assert.strictEqual(manager.abortQuery(instance.id, 'again'), false);
+    });
+
+    it('should reset, restart or retire an instance in error', async () => {
+      backend = new ScriptedBackend([], [{ error: 'boom' }]);
+      manager = new ClaudeManager({ backend });
+      const instance = await create();
+      instance.sessionId = 'session-1';
+
+      await assert.rejects(() => manager.sendMessage(instance.id, 'hi'));
+      await manager.recoverInstance(instance.id, 'reset');
+      assert.strictEqual(instance.status, 'ready');
+      assert.strictEqual(instance.sessionId, 'session-1');
+
+      await assert.rejects(() => manager.sendMessage(instance.id, 'hi'));
+      await manager.recoverInstance(instance.id, 'restart');
+      assert.strictEqual(instance.statusReason, 'recovered: session restarted');
+      assert.strictEqual(instance.sessionId, undefined);
+
+      await assert.rejects(() => manager.recoverInstance(instance.id, 'reset'), /is not in error/);
+      await assert.rejects(() => manager.sendMessage(instance.id, 'hi'));
+      await manager.recoverInstance(instance.id, 'retire');
+      assert.strictEqual(instance.status, 'stopped');
+      assert.strictEqual(manager.getInstance(instance.id), undefined);
+    });
+  });
+
+  describe('stopInstance and waitForReady', () => {
+    it('should stop an instance mid-query without reporting an error', async () => {
+      const instance = await create();
+      backend.enqueue(textReply('too late', { delayMs: 10_000 }));
+      let errors = 0;
+      manager.on('instanceError', () => errors++);
+
+      const query = manager.sendMessage(instance.id, 'hi');
+      const stopped = once(manager, 'instanceStopped');
+      await manager.stopInstance(instance.id, { reason: 'no longer needed' });
+
+      await assert.rejects(query, /aborted/);
+      assert.deepStrictEqual(await stopped, [instance]);
+      assert.strictEqual(instance.statusReason, 'no longer needed');
+      assert.strictEqual(errors, 0);
+      assert.deepStrictEqual(manager.getAllInstances(), []);
+    });
+
+    it('should wait until an instance is ready, and fail if it is stopped first', async () => {
+      const instance = await create();
+      backend.enqueue(textReply('done', { delayMs: 20 }), textReply('never', { delayMs: 10_000 }));
+
+      const query = manager.sendMessage(instance.id, 'one');
+      assert.strictEqual(await manager.waitForReady(instance.id), instance);
+      await query;
+
+      const second = manager.sendMessage(instance.id, 'two').catch(() => undefined);
+      const waiting = manager.waitForReady(instance.id);
+      await manager.stopInstance(instance.id);
+      await assert.rejects(waiting, /stopped/);
+      await second;
+    });
+
+    it('should queue messages sent when ready and deliver them one after the other', async () => {
+      const instance = await create();
+      backend.enqueue(
+        textReply('busy', { delayMs: 20 }),
+        textReply('first'),
+        textReply('second'),
+        textReply('third', { delayMs: 10_000 }),
+      );
+
+      const running = manager.sendMessage(instance.id, 'zero');
+      const first = manager.sendWhenReady(instance.id, 'one');
+      const second = manager.sendWhenReady(instance.id, 'two');
+      assert.deepStrictEqual(await Promise.all([running, first, second]), ['busy', 'first', 'second']);
+      assert.deepStrictEqual(
+        backend.queries.map((query) => query.prompt),
+        ['zero', 'one', 'two'],
+      );
+
+      const third = manager.sendMessage(instance.id, 'three').catch(() => undefined);
+      const fourth = manager.sendWhenReady(instance.id, 'four');
+      await new Promise((resolve) => setImmediate(resolve));
+      await manager.stopInstance(instance.id);
+      await assert.rejects(fourth, /Instance claude-1 was stopped/);
+      await third;
+    });
+  });
+
+  describe('MCP servers', () => {
+    // Answers initialize and tools/list like an MCP server with no tools
+    const healthy = `require('node:readline').createInterface({ input: process.stdin }).on('line', (line) => {
+      const { id } = JSON.parse(line);
+      if (id !== undefined) process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result: { tools: [] } }) + '\\n');
+    });`;
+
+    beforeEach(() => {
+      const mcpServers = new McpServerRegistry({
+        docs: { command: process.execPath, args: ['-e', healthy] },
+        broken: { command: process.execPath, args: ['-e', 'process.exit(1)'] },
+      });
+      manager = new ClaudeManager({ backend, mcpServers });
+    });
+
+    it('should pass the servers of an instance to every query', async () => {
+      const instance = await manager.createInstance('dev', { workingDirectory: testDir, mcpServers: ['docs'] });
+      assert.strictEqual(instance.status, 'ready');
+      backend.enqueue(textReply('done'));
+      await manager.sendMessage(instance.id, 'hi');
+
+      assert.deepStrictEqual(Object.keys(backend.queries[0].mcpServers ?? {}), ['docs']);
+      await assert.rejects(
+        () => manager.createInstance('dev', { workingDirectory: testDir, mcpServers: ['wiki'] }),
+        /MCP server wiki is not configured/,
+      );
+    });
+
+    it('should put an instance whose server fails to start in error', async () => {
+      const errors = once(manager, 'instanceError');
+      const instance = await manager.createInstance('dev', { workingDirectory: testDir, mcpServers: ['broken'] });
+      assert.strictEqual(instance.status, 'error');
+      assert.strictEqual(instance.statusReason, 'MCP server broken failed to start: exited with code 1');
+      await errors;
+      await assert.rejects(
+        () => manager.recoverInstance(instance.id, 'reset'),
+        /Cannot recover instance claude-\d+: MCP server broken failed to start/,
+      );
+      assert.strictEqual(instance.status, 'error');
+
+      // The agent reports servers that failed when its query starts
+      const other = await manager.createInstance('other', { workingDirectory: testDir, mcpServers: ['docs'] });
+      backend.enqueue([
+        {
+          message: {
+            type: 'system',
+            subtype: 'init',
+            session_id: 's',
+            mcp_servers: [{ name: 'docs', status: 'failed' }],
+          },
+        },
+        { delayMs: 1000 },
+      ]);
+      await assert.rejects(() => manager.sendMessage(other.id, 'hi'), /Query aborted: MCP server docs failed to start/);
+      assert.strictEqual(other.status, 'error');
+    });
+  });
+
+  describe('secrets', () => {
+    it('should set the secrets of an instance in the environment of its queries', async () => {
+      const credentials = new CredentialStore({
+        storePath: path.join(testDir, 'credentials.json'),
+        keyPath: path.join(testDir, 'credentials.key'),
+      });
+      await credentials.set('GITHUB_TOKEN', 'ghp_first');
+      manager = new ClaudeManager({ backend, credentials });
+      const instance = await manager.createInstance('dev', { workingDirectory: testDir, secrets: ['GITHUB_TOKEN'] });
+      const other = await manager.createInstance('other', { workingDirectory: testDir });
+
+      backend.enqueue(textReply('one'), textReply('two'), textReply('three'));
+      await manager.sendMessage(instance.id, 'hi');
+      await manager.sendMessage(other.id, 'hi');
+      await credentials.rotate('GITHUB_TOKEN', 'ghp_second');
+      await manager.sendMessage(instance.id, 'hi');
+
+      assert.deepStrictEqual(
+        backend.queries.map((query) => query.env),
+        [{ GITHUB_TOKEN: 'ghp_first' }, undefined, { GITHUB_TOKEN: 'ghp_second' }],
+      );
+      await assert.rejects(
+        () => manager.createInstance('dev', { workingDirectory: testDir, secrets: ['NPM_TOKEN'] }),
+        /Secret NPM_TOKEN is not set/,
+      );
+
+      await credentials.delete('GITHUB_TOKEN');
+      await assert.rejects(() => manager.sendMessage(instance.id, 'hi'), /Secret GITHUB_TOKEN is not set/);
+      assert.strictEqual(instance.status, 'error');
+    });
+  });
+
+  describe('permissions', () => {
+    it('should refuse the denied paths of the policy to a developer instance', async () => {
+      const bridge = new AgentBridge(path.join(testDir, 'bridge.sock'));
+      const broker = new PermissionBroker({
+        contextFor: (instanceId) => {
+          const instance = manager.getInstance(instanceId);
+          return instance && { policy: manager.getPermissionPolicy(instance), workingDirectory: testDir };
+        },
+        auditPath: path.join(testDir, 'audit.jsonl'),
+      });
+      bridge.register(broker.approvalTool());
+      manager = new ClaudeManager({
+        backend,
+        bridge,
+        permissionPolicy: { deniedTools: ['WebFetch'], deniedPaths: ['**/.env'] },
+      });
+      const developer = await create('dev', 'developer');
+      backend.enqueue(textReply('done'));
+      await manager.sendMessage(developer.id, 'hi');
+
+      // Edits are no longer accepted without asking, and denials are given to the CLI too
+      const [query] = backend.queries;
+      assert.strictEqual(query.permissionMode, 'default');
+      assert.deepStrictEqual(query.disallowedTools, ['WebFetch', 'Read(**/.env)', 'Edit(**/.env)']);
+      assert.strictEqual(
+        (await broker.decide(developer.id, { toolName: 'Edit', input: { file_path: path.join(testDir, '.env') } }))
+          .decision,
+        'deny',
+      );
+      await broker.close();
+    });
+
+    it('should leave the persona settings alone without a policy', async () => {
+      const bridge = new AgentBridge(path.join(testDir, 'bridge.sock'));
+      bridge.register({ name: APPROVAL_TOOL, description: '', inputSchema: {}, call: async () => '' });
+      manager = new ClaudeManager({ backend, bridge });
+      const developer = await create('dev', 'developer');
+      backend.enqueue(textReply('done'));
+      await manager.sendMessage(developer.id, 'hi');
+
+      assert.strictEqual(backend.queries[0].permissionMode, 'acceptEdits');
+      assert.strictEqual(backend.queries[0].disallowedTools, undefined);
+    });
+  });
+
+  describe('restoreInstances', () => {
+    it('should restore persisted instances with their sessions', async () => {
+      const store = new InstanceStore(path.join(testDir, 'instances.json'));
+      manager = new ClaudeManager({ backend, store });
+      const instance = await create('dev', 'developer');
+      backend.enqueue(textReply('hi', { sessionId: 'session-7' }));
+      await manager.sendMessage(instance.id, 'hello');
+      await store.flush();
+
+      const restarted = new ClaudeManager({ backend, store });
+      const [restored] = await restarted.restoreInstances();
+      assert.strictEqual(restored.id, 'claude-1');
+      assert.strictEqual(restored.sessionId, 'session-7');
+      assert.strictEqual(restored.persona?.id, 'developer');
+
+      // New instances continue the numbering
+      const next = await restarted.createInstance('next', { workingDirectory: testDir });
+      assert.strictEqual(next.id, 'claude-2');
+      await store.flush();
+    });
+  });
 });
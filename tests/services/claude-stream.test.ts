@@ -0,0 +1,86 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { type SDKMessage, toStreamEvents } from '../../src/services/claude-stream.js';
+
+describe('toStreamEvents', () => {
+  it('should emit text and tool-use events from assistant messages', () => {
+    const msg: SDKMessage = {
+      type: 'assistant',
+      parent_tool_use_id: null,
+      session_id: 'session-1',
+      message: {
+        content: [
+          { type: 'text', text: 'Let me look at the file.' },
+          { type: 'tool_use', id: 'tool-1', name: 'Read', input: { file_path: 'README.md' } },
+        ],
+      },
+    };
+
+    assert.deepStrictEqual(toStreamEvents('claude-1', msg), [
+      { type: 'text', instanceId: 'claude-1', text: 'Let me look at the file.' },
+      {
+        type: 'tool-use',
+        instanceId: 'claude-1',
+        toolUseId: 'tool-1',
+        name: 'Read',
+        input: { file_path: 'README.md' },
+      },
+    ]);
+  });
+
+  it('should flatten tool results into text', () => {
+    const msg: SDKMessage = {
+      type: 'user',
+      parent_tool_use_id: null,
+      session_id: 'session-1',
+      message: {
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'tool-1',
+            content: [
+              { type: 'text', text: 'line 1' },
+              { type: 'text', text: 'line 2' },
+            ],
+            is_error: true,
+          },
+        ],
+      },
+    };
+
+    assert.deepStrictEqual(toStreamEvents('claude-1', msg), [
+      { type: 'tool-result', instanceId: 'claude-1', toolUseId: 'tool-1', content: 'line 1\nline 2', isError: true },
+    ]);
+  });
+
+  it('should ignore plain user prompts and system messages', () => {
+    const prompt: SDKMessage = {
+      type: 'user',
+      parent_tool_use_id: null,
+      session_id: 'session-1',
+      message: { content: 'Hello' },
+    };
+    const init: SDKMessage = { type: 'system', subtype: 'init', session_id: 'session-1' };
+
+    assert.deepStrictEqual(toStreamEvents('claude-1', prompt), []);
+    assert.deepStrictEqual(toStreamEvents('claude-1', init), []);
+  });
+
+  it('should emit a result event with an empty result on error subtypes', () => {
+    const msg: SDKMessage = {
+      type: 'result',
+      subtype: 'error_max_turns',
+      is_error: true,
+      duration_ms: 10,
+      duration_api_ms: 8,
+      num_turns: 3,
+      session_id: 'session-1',
+      total_cost_usd: 0.01,
+      usage: { input_tokens: 1, output_tokens: 2 },
+    };
+
+    assert.deepStrictEqual(toStreamEvents('claude-1', msg), [
+      { type: 'result', instanceId: 'claude-1', subtype: 'error_max_turns', result: '', isError: true },
+    ]);
+  });
+});
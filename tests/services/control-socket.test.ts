@@ -0,0 +1,128 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { ClaudeStreamEvent } from '../../src/services/claude-stream.js';
+import { ControlClient, ControlServer } from '../../src/services/control-socket.js';
+import { Orchestrator } from '../../src/services/orchestrator.js';
+
+// Stand-in for the Claude Code CLI that answers every message with the same reply
+const FAKE_CLI = `
+const message = (fields) => process.stdout.write(JSON.stringify({ session_id: 's', ...fields }) + '\\n');
+message({ type: 'assistant', parent_tool_use_id: null, message: { content: [{ type: 'text', text: 'On it.' }] } });
+message({
+  type: 'result', subtype: 'success', is_error: false, result: 'On it.',
+  duration_ms: 1, duration_api_ms: 1, num_turns: 1, total_cost_usd: 0, usage: { input_tokens: 0, output_tokens: 0 },
+});
+`;
+
+describe('Control socket', () => {
+  let testDir: string;
+  let socketPath: string;
+  let orchestrator: Orchestrator;
+  let server: ControlServer;
+  let client: ControlClient;
+  const originalHome = process.env.HOME;
+
+  before(async () => {
+    // The orchestrator keeps its state under the home directory
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'control-socket-test-'));
+    process.env.HOME = testDir;
+    process.env.CODING_TEAM_CLAUDE_EXECUTABLE_PATH = path.join(testDir, 'cli.js');
+    await fs.writeFile(path.join(testDir, 'cli.js'), FAKE_CLI);
+
+    orchestrator = new Orchestrator();
+    await orchestrator.initialize();
+    socketPath = path.join(testDir, 'control.sock');
+    server = new ControlServer(orchestrator, socketPath);
+    await server.listen();
+    client = new ControlClient(socketPath);
+    await client.connect();
+  });
+
+  after(async () => {
+    client.close();
+    await server.close();
+    await orchestrator.cleanup();
+    process.env.HOME = originalHome;
+    Reflect.deleteProperty(process.env, 'CODING_TEAM_CLAUDE_EXECUTABLE_PATH');
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should create, list, message and stop instances of a running daemon', async () => {
+    const created = await client.invoke('claude:create-instance', 'dev', { personaId: 'developer' });
+    assert.ok(created.success);
+    const instanceId = created.data.id;
+    assert.strictEqual(created.data.personaName, 'Developer');
+
+    const listed = await client.invoke('claude:get-instances');
+    assert.ok(listed.success);
+    assert.deepStrictEqual(
+      listed.data.map((instance) => [instance.id, instance.status]),
+      [[instanceId, 'ready']],
+    );
+
+    const streamed: ClaudeStreamEvent[] = [];
+    await client.subscribe();
+    client.on('event', (channel: string, payload: ClaudeStreamEvent) => {
+      if (channel === `claude:stream:${instanceId}`) {
+        streamed.push(payload);
+      }
+    });
+    assert.deepStrictEqual(await client.invoke('claude:send-message', instanceId, 'Hello'), {
+      success: true,
+      data: 'On it.',
+    });
+    assert.deepStrictEqual(
+      streamed.map((event) => event.type),
+      ['prompt', 'text', 'result'],
+    );
+
+    assert.deepStrictEqual(await client.invoke('claude:stop-instance', instanceId, undefined), { success: true });
+  });
+
+  it('should enqueue tasks', async () => {
+    const result = await client.invoke('tasks:enqueue', { prompt: 'Write docs', priority: 2 });
+    assert.ok(result.success);
+    assert.strictEqual(result.data.priority, 2);
+
+    const tasks = await client.invoke('tasks:list');
+    assert.ok(tasks.success);
+    assert.ok(tasks.data.some((task) => task.id === result.data.id));
+  });
+
+  it('should answer invalid requests with an error', async () => {
+    assert.deepStrictEqual(await client.invoke('claude:send-message', 'claude-1', ''), {
+      success: false,
+      error: 'message must be a non-empty string',
+    });
+
+    const socket = net.connect(socketPath);
+    socket.write('not json\n{"id": 7, "channel": "shell:exec", "args": ["ls"]}\n');
+    let replies = '';
+    for await (const chunk of socket) {
+      replies += chunk;
+      if (replies.split('\n').length > 2) {
+        break;
+      }
+    }
+    socket.destroy();
+    const [invalid, unknown] = replies
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    assert.strictEqual(invalid.id, -1);
+    assert.match(invalid.result.error, /Invalid request/);
+    assert.deepStrictEqual(unknown, { id: 7, result: { success: false, error: 'Unknown channel shell:exec' } });
+  });
+
+  it('should refuse to start a second daemon on the same socket', async () => {
+    await assert.rejects(() => new ControlServer(orchestrator, socketPath).listen(), /already listening/);
+    await assert.rejects(
+      () => new ControlClient(path.join(testDir, 'missing.sock')).connect(),
+      /No daemon is running on .*missing\.sock/,
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import { InstanceStore } from '../../src/services/instance-store.js';
+
+// Stand-in for the Claude Code CLI: replies with the arguments it was started with,
+// in a session whose id is fixed unless --resume is passed
+const ECHO_CLI = `
+const args = process.argv.slice(2);
+const resumeIndex = args.indexOf('--resume');
+const sessionId = resumeIndex >= 0 ? args[resumeIndex + 1] : 'session-abc';
+const print = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+print({ type: 'system', subtype: 'init', session_id: sessionId });
+print({
+  type: 'result', subtype: 'success', is_error: false, result: args.join(' '), session_id: sessionId,
+  duration_ms: 1, duration_api_ms: 1, num_turns: 1, total_cost_usd: 0, usage: { input_tokens: 0, output_tokens: 0 },
+});
+`;
+
+describe('Instance persistence', () => {
+  let testDir: string;
+  let store: InstanceStore;
+  let cliPath: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `instance-store-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    cliPath = path.join(testDir, 'cli.js');
+    await fs.writeFile(cliPath, ECHO_CLI);
+    store = new InstanceStore(path.join(testDir, 'instances.json'));
+  });
+
+  afterEach(async () => {
+    await store.flush();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should resume the captured session on later messages', async () => {
+    const manager = new ClaudeManager({ claudeExecutablePath: cliPath, store });
+    const instance = await manager.createInstance('dev', { workingDirectory: testDir });
+
+    const first = await manager.sendMessage(instance.id, 'hello');
+    assert.ok(!first.includes('--resume'));
+    assert.strictEqual(instance.sessionId, 'session-abc');
+
+    const second = await manager.sendMessage(instance.id, 'again');
+    assert.match(second, /--resume session-abc/);
+  });
+
+  it('should restore instances and their sessions after a restart', async () => {
+    const manager = new ClaudeManager({ claudeExecutablePath: cliPath, store });
+    const instance = await manager.createInstance('reviewer', { workingDirectory: testDir, personaId: 'pr-reviewer' });
+    await manager.sendMessage(instance.id, 'hello');
+    await manager.shutdown();
+
+    const restarted = new ClaudeManager({ claudeExecutablePath: cliPath, store });
+    const [restored] = await restarted.restoreInstances();
+
+    assert.strictEqual(restored.id, instance.id);
+    assert.strictEqual(restored.name, 'reviewer');
+    assert.strictEqual(restored.status, 'ready');
+    assert.strictEqual(restored.statusReason, 'restored');
+    assert.strictEqual(restored.persona?.id, 'pr-reviewer');
+    assert.strictEqual(restored.sessionId, 'session-abc');
+
+    // New instances must not reuse restored ids
+    const next = await restarted.createInstance('dev', { workingDirectory: testDir });
+    assert.notStrictEqual(next.id, restored.id);
+  });
+
+  it('should forget stopped instances', async () => {
+    const manager = new ClaudeManager({ claudeExecutablePath: cliPath, store });
+    const kept = await manager.createInstance('kept', { workingDirectory: testDir });
+    const stopped = await manager.createInstance('stopped', { workingDirectory: testDir });
+    await manager.stopInstance(stopped.id);
+    await store.flush();
+
+    const records = await store.load();
+    assert.deepStrictEqual(
+      records.map((record) => record.id),
+      [kept.id],
+    );
+  });
+
+  it('should start a fresh session when recovering with the restart policy', async () => {
+    const manager = new ClaudeManager({ claudeExecutablePath: cliPath, store });
+    const instance = await manager.createInstance('dev', { workingDirectory: testDir });
+    await manager.sendMessage(instance.id, 'hello');
+
+    await fs.writeFile(cliPath, 'process.exit(1);\n');
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'fail'));
+    await manager.recoverInstance(instance.id, 'restart');
+
+    assert.strictEqual(instance.status, 'ready');
+    assert.strictEqual(instance.sessionId, undefined);
+  });
+});
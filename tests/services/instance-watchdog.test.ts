@@ -0,0 +1,106 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager, type InstanceTransition } from '../../src/services/claude-manager.js';
+import { InstanceWatchdog } from '../../src/services/instance-watchdog.js';
+
+// Stand-ins for the Claude Code CLI that the SDK spawns
+const HANGING_CLI = 'setInterval(() => {}, 1000);\n';
+const FAILING_CLI = 'process.exit(1);\n';
+
+async function waitFor(predicate: () => boolean, timeout = 5000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('InstanceWatchdog', () => {
+  let testDir: string;
+  let watchdog: InstanceWatchdog | undefined;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `watchdog-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    watchdog?.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function createManager(cli: string): Promise<ClaudeManager> {
+    const cliPath = path.join(testDir, 'cli.js');
+    await fs.writeFile(cliPath, cli);
+    return new ClaudeManager({ claudeExecutablePath: cliPath });
+  }
+
+  it('should abort queries that run past the timeout and reset the instance', async () => {
+    const manager = await createManager(HANGING_CLI);
+    const transitions: InstanceTransition[] = [];
+    manager.on('instanceTransition', (transition: InstanceTransition) => transitions.push({ ...transition }));
+
+    watchdog = new InstanceWatchdog(manager, { timeout: 100, recoveryPolicy: 'reset' });
+    watchdog.start();
+
+    const instance = await manager.createInstance('slow', { workingDirectory: testDir });
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'hello'), /Query aborted: timed out after 100ms/);
+
+    await waitFor(() => instance.status === 'ready');
+    assert.deepStrictEqual(
+      transitions.map(({ from, to, reason }) => ({ from, to, reason })),
+      [
+        { from: undefined, to: 'ready', reason: 'created' },
+        { from: 'ready', to: 'busy', reason: 'query started' },
+        { from: 'busy', to: 'error', reason: 'timed out after 100ms' },
+        { from: 'error', to: 'ready', reason: 'recovered: reset' },
+      ],
+    );
+  });
+
+  it('should give every query a fresh abort controller', async () => {
+    const manager = await createManager(HANGING_CLI);
+    watchdog = new InstanceWatchdog(manager, { timeout: 50, recoveryPolicy: 'reset' });
+    watchdog.start();
+
+    const instance = await manager.createInstance('slow', { workingDirectory: testDir });
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'first'));
+    const firstController = instance.abortController;
+    await waitFor(() => instance.status === 'ready');
+
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'second'), /timed out/);
+    assert.notStrictEqual(instance.abortController, firstController);
+  });
+
+  it('should retire instances when the policy says so', async () => {
+    const manager = await createManager(FAILING_CLI);
+    watchdog = new InstanceWatchdog(manager, { timeout: 0, recoveryPolicy: 'retire' });
+    watchdog.start();
+
+    const instance = await manager.createInstance('broken', { workingDirectory: testDir });
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'hello'), /exited with code 1/);
+
+    await waitFor(() => instance.status === 'stopped');
+    assert.strictEqual(instance.statusReason, 'retired after error');
+    assert.strictEqual(manager.getInstance(instance.id), undefined);
+  });
+
+  it('should leave errored instances alone once stopped', async () => {
+    const manager = await createManager(FAILING_CLI);
+    watchdog = new InstanceWatchdog(manager, { timeout: 0, recoveryPolicy: 'reset' });
+    watchdog.start();
+    watchdog.stop();
+
+    const instance = await manager.createInstance('broken', { workingDirectory: testDir });
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'hello'));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.strictEqual(instance.status, 'error');
+    await assert.rejects(async () => manager.sendMessage(instance.id, 'again'), /is not ready/);
+  });
+});
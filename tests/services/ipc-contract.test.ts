@@ -0,0 +1,57 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { ClaudeInstance } from '../../src/services/claude-manager.js';
+import { toInstanceSummary, validateIpcArgs } from '../../src/services/ipc-contract.js';
+
+describe('IPC contract', () => {
+  it('should pass valid arguments through and leave out absent optional ones', () => {
+    assert.deepStrictEqual(validateIpcArgs('claude:create-instance', ['Dev', { personaId: 'developer' }]), [
+      'Dev',
+      { personaId: 'developer' },
+    ]);
+    assert.deepStrictEqual(validateIpcArgs('claude:create-instance', ['Dev']), ['Dev', undefined]);
+    assert.deepStrictEqual(validateIpcArgs('claude:get-transcript', ['claude-1', { limit: 50, types: ['text'] }]), [
+      'claude-1',
+      { limit: 50, types: ['text'] },
+    ]);
+    assert.deepStrictEqual(validateIpcArgs('tasks:list', []), []);
+  });
+
+  it('should reject arguments that do not match the contract', () => {
+    assert.throws(() => validateIpcArgs('claude:send-message', ['claude-1']), /message must be a non-empty string/);
+    assert.throws(() => validateIpcArgs('claude:send-message', ['claude-1', 42]), /message must be a non-empty string/);
+    assert.throws(
+      () => validateIpcArgs('claude:stop-instance', ['claude-1', { worktree: 'delete' }]),
+      /options\.worktree must be one of keep, remove, archive/,
+    );
+    assert.throws(
+      () => validateIpcArgs('claude:send-structured', ['claude-1', 'List', {}, { whenReady: 'yes' }]),
+      /options\.whenReady must be true or false/,
+    );
+    assert.throws(
+      () => validateIpcArgs('tasks:enqueue', [{ prompt: 'Fix it', command: 'rm -rf /' }]),
+      /input has an unknown field "command"/,
+    );
+    assert.throws(
+      () => validateIpcArgs('issues:add-labels', ['1', ['bug', 3]]),
+      /labels\[1\] must be a non-empty string/,
+    );
+    assert.throws(() => validateIpcArgs('tasks:list', ['extra']), /tasks:list takes at most 0 arguments, got 1/);
+  });
+
+  it('should summarize an instance without its internal state', () => {
+    const instance: ClaudeInstance = {
+      id: 'claude-1',
+      name: 'Dev',
+      status: 'ready',
+      workingDirectory: '/tmp/dev',
+      createdAt: new Date(0),
+      abortController: new AbortController(),
+    };
+
+    const summary = toInstanceSummary(instance);
+    assert.strictEqual(summary.id, 'claude-1');
+    assert.strictEqual(summary.personaId, undefined);
+    assert.ok(!('abortController' in summary));
+  });
+});
@@ -0,0 +1,191 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import { GitHubIssueTracker } from '../../src/services/github-issue-tracker.js';
+import { LocalIssueTracker, parseIssueFile } from '../../src/services/local-issue-tracker.js';
+
+describe('LocalIssueTracker', () => {
+  let issuesDir: string;
+  let tracker: LocalIssueTracker;
+
+  beforeEach(() => {
+    issuesDir = path.join(os.tmpdir(), `issues-test-${Date.now()}`);
+    tracker = new LocalIssueTracker(issuesDir, 'tester');
+  });
+
+  afterEach(async () => {
+    await fs.rm(issuesDir, { recursive: true, force: true });
+  });
+
+  it('should create issues as Markdown files with increasing ids', async () => {
+    const first = await tracker.createIssue({ title: 'Fix login', body: 'Login fails on Safari.', labels: ['bug'] });
+    const second = await tracker.createIssue({ title: 'Add logout' });
+
+    assert.strictEqual(first.id, '1');
+    assert.strictEqual(second.id, '2');
+    const content = await fs.readFile(path.join(issuesDir, '1.md'), 'utf-8');
+    assert.match(
+      content,
+      /^---\ntitle: Fix login\nstate: open\nlabels: bug\nassignees: \n---\nLogin fails on Safari.\n$/,
+    );
+  });
+
+  it('should list issues matching a filter', async () => {
+    await tracker.createIssue({ title: 'Bug', labels: ['bug'] });
+    await tracker.createIssue({ title: 'Feature', labels: ['feature'] });
+    const closed = await tracker.createIssue({ title: 'Old bug', labels: ['bug'] });
+    await tracker.close(closed.id);
+
+    const openBugs = await tracker.listIssues({ labels: ['bug'] });
+    assert.deepStrictEqual(
+      openBugs.map((issue) => issue.title),
+      ['Bug'],
+    );
+    assert.strictEqual((await tracker.listIssues({ state: 'all' })).length, 3);
+  });
+
+  it('should comment, label and assign issues', async () => {
+    const issue = await tracker.createIssue({ title: 'Fix login', body: 'Details.' });
+
+    await tracker.comment(issue.id, 'Working on it.');
+    await tracker.comment(issue.id, 'Done.');
+    await tracker.addLabels(issue.id, ['bug', 'auth']);
+    await tracker.removeLabel(issue.id, 'auth');
+    await tracker.assign(issue.id, ['claude-1']);
+
+    const updated = await tracker.getIssue(issue.id);
+    assert.strictEqual(updated.body, 'Details.');
+    assert.deepStrictEqual(updated.labels, ['bug']);
+    assert.deepStrictEqual(updated.assignees, ['claude-1']);
+    assert.deepStrictEqual(
+      updated.comments?.map((comment) => [comment.author, comment.body]),
+      [
+        ['tester', 'Working on it.'],
+        ['tester', 'Done.'],
+      ],
+    );
+  });
+
+  it('should report missing issues and files without front matter', async () => {
+    await assert.rejects(async () => tracker.getIssue('42'), /Issue 42 not found/);
+    assert.throws(() => parseIssueFile('7', 'just text'), /Issue 7 has no front matter/);
+  });
+
+  it('should inject the assigned issue into the prompt of an instance', async () => {
+    const issue = await tracker.createIssue({ title: 'Fix login', body: 'Login fails on Safari.' });
+    const cliPath = path.join(issuesDir, 'cli.js');
+    await fs.writeFile(
+      cliPath,
+      `const args = process.argv.slice(2);
+const prompt = args[args.indexOf('--append-system-prompt') + 1];
+process.stdout.write(JSON.stringify({ type: 'result', subtype: 'success', is_error: false, result: prompt, session_id: 's' }) + '\\n');
+`,
+    );
+
+    const manager = new ClaudeManager({ claudeExecutablePath: cliPath, issueTracker: tracker });
+    const instance = await manager.createInstance('dev', {
+      workingDirectory: issuesDir,
+      personaId: 'developer',
+      issueId: issue.id,
+    });
+
+    const prompt = await manager.sendMessage(instance.id, 'Start working');
+    assert.match(prompt, /^You are a developer/);
+    assert.match(prompt, /You are working on issue #1: Fix login\n\nLogin fails on Safari\.$/);
+  });
+
+  it('should refuse issue assignment without a tracker', async () => {
+    const manager = new ClaudeManager({ claudeExecutablePath: '/usr/bin/false' });
+    await assert.rejects(async () => manager.createInstance('dev', { issueId: '1' }), /No issue tracker is configured/);
+  });
+});
+
+describe('GitHubIssueTracker', () => {
+  interface Call {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  }
+
+  function fakeFetch(responses: Array<{ status: number; body?: unknown }>, calls: Call[]): typeof fetch {
+    return (async (url: string | URL | Request, init?: RequestInit) => {
+      calls.push({
+        url: String(url),
+        method: init?.method ?? 'GET',
+        headers: init?.headers as Record<string, string>,
+        body: init?.body ? JSON.parse(String(init.body)) : undefined,
+      });
+      const next = responses.shift() ?? { status: 204 };
+      return new Response(next.body === undefined ? null : JSON.stringify(next.body), { status: next.status });
+    }) as typeof fetch;
+  }
+
+  it('should list issues and skip pull requests', async () => {
+    const calls: Call[] = [];
+    const tracker = new GitHubIssueTracker(
+      { owner: 'acme', repo: 'app', token: 'secret' },
+      fakeFetch(
+        [
+          {
+            status: 200,
+            body: [
+              {
+                number: 1,
+                title: 'Bug',
+                body: null,
+                state: 'open',
+                html_url: 'u1',
+                labels: [{ name: 'bug' }],
+                assignees: [{ login: 'alice' }],
+              },
+              { number: 2, title: 'PR', body: '', state: 'open', html_url: 'u2', labels: [], pull_request: {} },
+            ],
+          },
+        ],
+        calls,
+      ),
+    );
+
+    const issues = await tracker.listIssues({ labels: ['bug'] });
+
+    assert.deepStrictEqual(issues, [
+      { id: '1', title: 'Bug', body: '', state: 'open', labels: ['bug'], assignees: ['alice'], url: 'u1' },
+    ]);
+    assert.strictEqual(calls[0].url, 'https://api.github.com/repos/acme/app/issues?state=open&per_page=100&labels=bug');
+    assert.strictEqual(calls[0].headers.Authorization, 'Bearer secret');
+  });
+
+  it('should send updates to the matching endpoints', async () => {
+    const calls: Call[] = [];
+    const tracker = new GitHubIssueTracker({ owner: 'acme', repo: 'app' }, fakeFetch([], calls));
+
+    await tracker.comment('5', 'Hello');
+    await tracker.addLabels('5', ['bug']);
+    await tracker.assign('5', ['alice']);
+    await tracker.close('5');
+
+    assert.deepStrictEqual(
+      calls.map((call) => [call.method, call.url.replace('https://api.github.com/repos/acme/app', ''), call.body]),
+      [
+        ['POST', '/issues/5/comments', { body: 'Hello' }],
+        ['POST', '/issues/5/labels', { labels: ['bug'] }],
+        ['POST', '/issues/5/assignees', { assignees: ['alice'] }],
+        ['PATCH', '/issues/5', { state: 'closed' }],
+      ],
+    );
+    assert.strictEqual(calls[0].headers.Authorization, undefined);
+  });
+
+  it('should surface API errors with their message', async () => {
+    const tracker = new GitHubIssueTracker(
+      { owner: 'acme', repo: 'app' },
+      fakeFetch([{ status: 404, body: { message: 'Not Found' } }], []),
+    );
+
+    await assert.rejects(async () => tracker.close('99'), /GitHub API PATCH \/issues\/99 failed with 404: Not Found/);
+  });
+});
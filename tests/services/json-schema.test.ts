@@ -0,0 +1,97 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  type JsonSchema,
+  checkJsonSchema,
+  extractJson,
+  formatSchemaErrors,
+  validateAgainstSchema,
+} from '../../src/services/json-schema.js';
+
+describe('JSON Schema', () => {
+  const verdict: JsonSchema = {
+    type: 'object',
+    properties: {
+      decision: { enum: ['approve', 'request-changes', 'comment'] },
+      summary: { type: 'string', minLength: 1 },
+      comments: { type: 'array', items: { $ref: '#/$defs/comment' } },
+    },
+    required: ['decision', 'summary'],
+    additionalProperties: false,
+    $defs: {
+      comment: {
+        type: 'object',
+        properties: { file: { type: 'string' }, line: { type: 'integer', minimum: 1 }, body: { type: 'string' } },
+        required: ['file', 'body'],
+      },
+    },
+  };
+
+  function paths(value: unknown, schema: JsonSchema = verdict): string[] {
+    return validateAgainstSchema(value, schema).map((error) => `${error.path} ${error.message}`);
+  }
+
+  it('should accept values matching the schema', () => {
+    assert.deepStrictEqual(
+      paths({ decision: 'approve', summary: 'LGTM', comments: [{ file: 'a.ts', line: 3, body: 'nit' }] }),
+      [],
+    );
+  });
+
+  it('should report every mismatch with its path', () => {
+    assert.deepStrictEqual(paths({ decision: 'merge', comments: [{ file: 'a.ts', line: 0 }, 'x'], extra: true }), [
+      '$.summary is required',
+      '$.decision must be one of "approve", "request-changes", "comment"',
+      '$.comments[0].body is required',
+      '$.comments[0].line must be at least 1',
+      '$.comments[1] must be object, got string',
+      '$.extra is not an allowed property',
+    ]);
+    assert.deepStrictEqual(paths([1, 1.5], { type: 'array', items: { type: 'integer' }, uniqueItems: true }), [
+      '$[1] must be integer, got number',
+    ]);
+    assert.deepStrictEqual(paths({ 'task name': 'x' }, { additionalProperties: { type: 'number' } }), [
+      '$["task name"] must be number, got string',
+    ]);
+  });
+
+  it('should apply string, number and combinator keywords', () => {
+    assert.deepStrictEqual(paths('ab', { type: 'string', pattern: '^[a-z]+-\\d+$', maxLength: 1 }), [
+      '$ must be at most 1 characters long',
+      '$ must match the pattern ^[a-z]+-\\d+$',
+    ]);
+    assert.deepStrictEqual(paths(10, { exclusiveMaximum: 10, multipleOf: 4 }), [
+      '$ must be less than 10',
+      '$ must be a multiple of 4',
+    ]);
+    assert.deepStrictEqual(paths(null, { type: ['string', 'null'] }), []);
+    assert.deepStrictEqual(paths(3, { anyOf: [{ type: 'string' }, { type: 'integer', maximum: 2 }] }), [
+      '$ must match at least one of the anyOf schemas',
+      '$ must be at most 2',
+    ]);
+    assert.deepStrictEqual(paths(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] }), [
+      '$ must match exactly one of the oneOf schemas, matches 2',
+    ]);
+    assert.deepStrictEqual(paths({ a: 1 }, { const: { a: 1 }, not: { required: ['b'] } }), []);
+  });
+
+  it('should check that a schema can be applied', () => {
+    assert.strictEqual(checkJsonSchema(verdict), undefined);
+    assert.strictEqual(checkJsonSchema('object'), '# must be an object or a boolean');
+    assert.strictEqual(checkJsonSchema({ type: 'map' }), '#/type has an unknown type "map"');
+    assert.strictEqual(
+      checkJsonSchema({ properties: { a: { items: { $ref: '#/$defs/missing' } } } }),
+      '#/properties/a/items/$ref #/$defs/missing does not resolve within the schema',
+    );
+    assert.strictEqual(checkJsonSchema({ minItems: '1' }), '#/minItems must be a number');
+    assert.strictEqual(checkJsonSchema({ pattern: '(' }), '#/pattern is not a valid regular expression');
+  });
+
+  it('should extract the JSON of a reply', () => {
+    assert.deepStrictEqual(extractJson('Done.\n```json\n{"a": 1}\n```\nThen:\n```json\n{"a": 2}\n```'), { a: 2 });
+    assert.deepStrictEqual(extractJson('[1, 2]'), [1, 2]);
+    assert.deepStrictEqual(extractJson('Here it is: {"ok": true}. Anything else?'), { ok: true });
+    assert.throws(() => extractJson('No JSON here'), /does not contain valid JSON/);
+    assert.strictEqual(formatSchemaErrors([{ path: '$.a', message: 'is required' }]), '- $.a is required');
+  });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import {
+  McpServerRegistry,
+  failedMcpServers,
+  probeMcpServer,
+  validateMcpServers,
+} from '../../src/services/mcp-servers.js';
+
+// Stdio MCP server exposing one tool
+const FAKE_MCP_SERVER = `
+const readline = require('node:readline');
+const reply = (id, result) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method } = JSON.parse(line);
+  if (method === 'initialize') reply(id, { protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'docs' } });
+  if (method === 'tools/list') reply(id, { tools: [{ name: 'search_docs', description: 'Search the docs index' }] });
+});
+`;
+
+describe('MCP servers', () => {
+  let testDir: string;
+  let script: string;
+  let httpServer: http.Server;
+  let httpUrl: string;
+
+  before(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-servers-test-'));
+    script = path.join(testDir, 'server.js');
+    await fs.writeFile(script, FAKE_MCP_SERVER);
+
+    // Streamable HTTP server that answers tools/list as server-sent events
+    httpServer = http.createServer(async (request, response) => {
+      let body = '';
+      for await (const chunk of request) {
+        body += chunk;
+      }
+      const { id, method } = JSON.parse(body);
+      if (id === undefined) {
+        response.writeHead(202).end();
+      } else if (method === 'initialize') {
+        response.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 'session-1' });
+        response.end(JSON.stringify({ jsonrpc: '2.0', id, result: { protocolVersion: '2025-03-26' } }));
+      } else {
+        assert.strictEqual(request.headers['mcp-session-id'], 'session-1');
+        response.writeHead(200, { 'content-type': 'text/event-stream' });
+        response.end(
+          `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id, result: { tools: [{ name: 'list_issues' }] } })}\n\n`,
+        );
+      }
+    });
+    httpServer.listen(0, '127.0.0.1');
+    await once(httpServer, 'listening');
+    httpUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  after(async () => {
+    httpServer.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should validate server declarations', () => {
+    assert.strictEqual(
+      validateMcpServers({ docs: { command: 'node', args: ['docs.js'] }, issues: { type: 'http', url: httpUrl } }),
+      undefined,
+    );
+    assert.strictEqual(validateMcpServers({ docs: { args: [] } }), 'server "docs" needs a "command"');
+    assert.strictEqual(
+      validateMcpServers({ docs: { type: 'sse', url: 'not a url' } }),
+      'server "docs" needs a valid "url"',
+    );
+    assert.strictEqual(
+      validateMcpServers({ 'coding-team': { command: 'x' } }),
+      'has an invalid server name "coding-team"',
+    );
+    assert.strictEqual(
+      validateMcpServers({ docs: { command: 'x', env: { DEBUG: 1 } } }),
+      'server "docs" must have "env" as an object of strings',
+    );
+  });
+
+  it('should start stdio servers and list their tools', async () => {
+    const status = await probeMcpServer('docs', { command: process.execPath, args: [script] });
+    assert.strictEqual(status.health, 'healthy');
+    assert.deepStrictEqual(status.tools, [{ name: 'search_docs', description: 'Search the docs index' }]);
+
+    const failed = await probeMcpServer('broken', {
+      command: process.execPath,
+      args: ['-e', 'console.error("missing DOCS_TOKEN"); process.exit(3)'],
+    });
+    assert.strictEqual(failed.health, 'failed');
+    assert.strictEqual(failed.error, 'exited with code 3: missing DOCS_TOKEN');
+
+    const missing = await probeMcpServer('missing', { command: path.join(testDir, 'no-such-command') });
+    assert.match(missing.error ?? '', /ENOENT/);
+  });
+
+  it('should list the tools of HTTP servers', async () => {
+    const status = await probeMcpServer('issues', { type: 'http', url: httpUrl });
+    assert.strictEqual(status.health, 'healthy', status.error);
+    assert.deepStrictEqual(status.tools, [{ name: 'list_issues', description: undefined }]);
+  });
+
+  it('should resolve servers by name and remember their health until they change', async () => {
+    const registry = new McpServerRegistry({ docs: { command: process.execPath, args: [script] } });
+    assert.throws(() => registry.resolve(['docs', 'wiki']), /MCP server wiki is not configured/);
+
+    const [first] = await registry.list();
+    assert.strictEqual(first.health, 'healthy');
+    assert.strictEqual((await registry.list())[0], first);
+
+    registry.setServers({ docs: { command: process.execPath, args: ['-e', 'process.exit(1)'] } });
+    assert.strictEqual((await registry.list())[0].health, 'failed');
+    registry.setServers(undefined);
+    assert.deepStrictEqual(await registry.list(), []);
+  });
+
+  it('should find the servers an agent failed to start', () => {
+    assert.deepStrictEqual(
+      failedMcpServers({
+        type: 'system',
+        subtype: 'init',
+        session_id: 's',
+        mcp_servers: [
+          { name: 'docs', status: 'connected' },
+          { name: 'wiki', status: 'failed' },
+        ],
+      }),
+      ['wiki'],
+    );
+    assert.deepStrictEqual(failedMcpServers({ type: 'system', subtype: 'init', session_id: 's' }), []);
+  });
+});
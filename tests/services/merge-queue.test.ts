@@ -0,0 +1,195 @@
+import assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import { MergeQueue } from '../../src/services/merge-queue.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+// Stand-in for the Claude Code CLI. As a landing manager it resolves the conflict by keeping
+// both lines and continues the rebase; any other instance logs the messages it receives.
+const TEAM_CLI = `
+const { execSync } = require('node:child_process');
+const fs = require('node:fs');
+const path = require('node:path');
+const args = process.argv.slice(2).join(' ');
+if (args.includes('landing manager')) {
+  fs.writeFileSync('notes.txt', 'from main\\nfrom feature\\n');
+  execSync('git add notes.txt && git -c core.editor=true rebase --continue', { stdio: 'ignore' });
+} else {
+  fs.appendFileSync(path.join(__dirname, 'author.log'), args + '\\n');
+}
+process.stdout.write(JSON.stringify({
+  type: 'result', subtype: 'success', is_error: false, result: 'Done.', session_id: 's',
+  duration_ms: 1, duration_api_ms: 1, num_turns: 1, total_cost_usd: 0, usage: { input_tokens: 0, output_tokens: 0 },
+}) + '\\n');
+`;
+
+describe('MergeQueue', () => {
+  let testDir: string;
+  let repoPath: string;
+  let manager: ClaudeManager;
+  let queue: MergeQueue;
+
+  async function commitFile(file: string, content: string, message: string): Promise<void> {
+    await fs.writeFile(path.join(repoPath, file), content);
+    git(repoPath, 'add', file);
+    git(repoPath, 'commit', '-q', '-m', message);
+  }
+
+  // main and feature both touch notes.txt when `conflicting`, different files otherwise
+  async function diverge(conflicting: boolean): Promise<void> {
+    git(repoPath, 'checkout', '-q', '-b', 'feature');
+    await commitFile(conflicting ? 'notes.txt' : 'feature.txt', 'from feature\n', 'Feature change');
+    git(repoPath, 'checkout', '-q', 'main');
+    await commitFile('notes.txt', 'from main\n', 'Main change');
+  }
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `merge-queue-test-${Date.now()}`);
+    repoPath = path.join(testDir, 'repo');
+    await fs.mkdir(repoPath, { recursive: true });
+
+    git(repoPath, 'init', '-q', '-b', 'main');
+    git(repoPath, 'config', 'user.email', 'test@example.com');
+    git(repoPath, 'config', 'user.name', 'Test');
+    await commitFile('notes.txt', '', 'initial');
+
+    const cliPath = path.join(testDir, 'cli.js');
+    await fs.writeFile(cliPath, TEAM_CLI);
+    manager = new ClaudeManager({ claudeExecutablePath: cliPath });
+  });
+
+  afterEach(async () => {
+    await queue.flush();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function createQueue(verifyCommand: string, conflictPolicy: 'resolve' | 'bounce' = 'resolve'): MergeQueue {
+    return new MergeQueue(manager, { verifyCommand, conflictPolicy, rootDir: path.join(testDir, 'merge-queue') });
+  }
+
+  it('should rebase, verify and fast-forward the target', async () => {
+    await diverge(false);
+    queue = createQueue('test -f feature.txt && test -s notes.txt && echo verified');
+
+    const entry = queue.enqueue({ repository: repoPath, branch: 'feature' });
+    await queue.flush();
+
+    assert.strictEqual(entry.status, 'merged');
+    assert.strictEqual(git(repoPath, 'rev-parse', 'main'), entry.mergedCommit);
+    assert.strictEqual(git(repoPath, 'log', '--format=%s', '-2', 'main'), 'Feature change\nMain change');
+    // The checked-out target follows the fast-forward
+    assert.strictEqual(await fs.readFile(path.join(repoPath, 'feature.txt'), 'utf-8'), 'from feature\n');
+
+    const log = await queue.getLog(entry.id);
+    assert.match(log, /Rebasing feature onto main/);
+    assert.match(log, /^verified$/m);
+    assert.match(log, /Fast-forwarded main to [0-9a-f]{12}/);
+    assert.doesNotMatch(git(repoPath, 'worktree', 'list'), /checkouts/);
+  });
+
+  it('should leave the target alone when verification fails', async () => {
+    await diverge(false);
+    const mainBefore = git(repoPath, 'rev-parse', 'main');
+    queue = createQueue('echo broken >&2; exit 3');
+
+    const entry = queue.enqueue({ repository: repoPath, branch: 'feature' });
+    await queue.flush();
+
+    assert.strictEqual(entry.status, 'failed');
+    assert.match(entry.reason ?? '', /exited with 3/);
+    assert.strictEqual(git(repoPath, 'rev-parse', 'main'), mainBefore);
+    assert.match(await queue.getLog(entry.id), /^broken$/m);
+  });
+
+  it('should only land the approved commit of a branch', async () => {
+    await diverge(false);
+    const mainBefore = git(repoPath, 'rev-parse', 'main');
+    const approved = git(repoPath, 'rev-parse', 'feature');
+    queue = createQueue('true');
+
+    // Pushed after the approval
+    git(repoPath, 'checkout', '-q', 'feature');
+    await commitFile('unreviewed.txt', 'not reviewed\n', 'Unreviewed change');
+    git(repoPath, 'checkout', '-q', 'main');
+    const moved = queue.enqueue({ repository: repoPath, branch: 'feature', headCommit: approved });
+    await queue.flush();
+    assert.strictEqual(moved.status, 'bounced');
+    assert.match(moved.reason ?? '', /Branch feature moved to [0-9a-f]{12} after it was approved at [0-9a-f]{12}/);
+    assert.strictEqual(git(repoPath, 'rev-parse', 'main'), mainBefore);
+
+    // Reviewed again at its new tip, it lands
+    const landed = queue.enqueue({
+      repository: repoPath,
+      branch: 'feature',
+      headCommit: git(repoPath, 'rev-parse', 'feature'),
+    });
+    await queue.flush();
+    assert.strictEqual(landed.status, 'merged');
+    assert.strictEqual(git(repoPath, 'log', '--format=%s', '-1', 'main'), 'Unreviewed change');
+  });
+
+  it('should bounce conflicting branches back to their author', async () => {
+    await diverge(true);
+    const mainBefore = git(repoPath, 'rev-parse', 'main');
+    const author = await manager.createInstance('dev', { workingDirectory: repoPath, personaId: 'developer' });
+    queue = createQueue('true', 'bounce');
+
+    const entry = queue.enqueue({ repository: repoPath, branch: 'feature', authorInstanceId: author.id });
+    await queue.flush();
+    await manager.waitForReady(author.id);
+
+    assert.strictEqual(entry.status, 'bounced');
+    assert.match(entry.reason ?? '', /conflicts in notes\.txt/);
+    assert.strictEqual(git(repoPath, 'rev-parse', 'main'), mainBefore);
+    const messages = await fs.readFile(path.join(testDir, 'author.log'), 'utf-8');
+    assert.match(messages, /Branch feature could not be landed/);
+  });
+
+  it('should have a landing manager resolve conflicts', async () => {
+    await diverge(true);
+    queue = createQueue('grep -q "from feature" notes.txt');
+
+    const entry = queue.enqueue({ repository: repoPath, branch: 'feature' });
+    await queue.flush();
+
+    assert.strictEqual(entry.status, 'merged');
+    assert.strictEqual(await fs.readFile(path.join(repoPath, 'notes.txt'), 'utf-8'), 'from main\nfrom feature\n');
+    assert.match(await queue.getLog(entry.id), /Asked claude-1 to resolve the conflicts/);
+    // The landing manager is stopped once it is done
+    assert.strictEqual(manager.getAllInstances().length, 0);
+  });
+
+  it('should land entries in order and requeue interrupted ones on load', async () => {
+    await diverge(false);
+    queue = createQueue('true');
+    const first = queue.enqueue({ repository: repoPath, branch: 'feature' });
+    const second = queue.enqueue({ repository: repoPath, branch: 'missing' });
+    await queue.flush();
+
+    assert.strictEqual(first.status, 'merged');
+    assert.strictEqual(second.status, 'failed');
+    assert.throws(() => queue.remove('merge-9'), /Merge entry merge-9 not found/);
+
+    const queuePath = path.join(testDir, 'merge-queue', 'queue.json');
+    const stored = JSON.parse(await fs.readFile(queuePath, 'utf-8'));
+    stored[1].status = 'verifying';
+    await fs.writeFile(queuePath, JSON.stringify(stored));
+
+    const restored = createQueue('true');
+    await restored.load();
+    assert.strictEqual(restored.get(second.id)?.status, 'queued');
+    restored.remove(second.id);
+    assert.deepStrictEqual(
+      restored.list().map((entry) => entry.id),
+      [first.id],
+    );
+    await restored.flush();
+  });
+});
@@ -0,0 +1,191 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import type { JsonSchema } from '../../src/services/json-schema.js';
+import { type AgentMessage, MessageBus } from '../../src/services/message-bus.js';
+import { ScriptedBackend, textReply } from '../../src/services/scripted-backend.js';
+
+describe('MessageBus', () => {
+  let testDir: string;
+  let backend: ScriptedBackend;
+  let manager: ClaudeManager;
+  let bus: MessageBus;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'message-bus-test-'));
+    backend = new ScriptedBackend([], (query) => textReply(`answered: ${query.prompt.split('\n')[2]}`));
+    manager = new ClaudeManager({ backend, defaultModel: 'test-model' });
+    bus = new MessageBus(manager, path.join(testDir, 'messages.json'));
+    bus.start();
+  });
+
+  afterEach(async () => {
+    bus.stop();
+    await bus.flush();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function settled(messageId: () => string | undefined): Promise<AgentMessage> {
+    return new Promise((resolve) => {
+      const onUpdated = (message: AgentMessage) => {
+        if (message.id === messageId() && (message.status === 'delivered' || message.status === 'failed')) {
+          bus.off('messageUpdated', onUpdated);
+          resolve(message);
+        }
+      };
+      bus.on('messageUpdated', onUpdated);
+    });
+  }
+
+  it('should queue a message to a role until its instance is ready and send the answer back', async () => {
+    const developer = await manager.createInstance('dev', { workingDirectory: testDir, personaId: 'developer' });
+    const refiner = await manager.createInstance('spec', { workingDirectory: testDir, personaId: 'spec-refiner' });
+    backend.enqueue(textReply('refined', { delayMs: 30 }));
+    const refining = manager.sendMessage(refiner.id, 'Refine the spec');
+
+    const question = bus.send({ from: developer.id, to: 'spec-refiner', body: 'Are archived projects exported?' });
+    assert.strictEqual(question.to, refiner.id);
+    assert.strictEqual(question.status, 'queued');
+
+    const reply = settled(() => bus.list({ threadId: question.threadId })[1]?.id);
+    await refining;
+    const delivered = await reply;
+
+    assert.strictEqual(question.status, 'delivered');
+    assert.strictEqual(question.response, 'answered: Are archived projects exported?');
+    assert.strictEqual(
+      backend.queries[1].prompt,
+      'Message msg-1 from Developer "dev" (claude-1) (thread thread-1):\n\n' +
+        'Are archived projects exported?\n\nYour answer is sent back to the sender.',
+    );
+    assert.deepStrictEqual(
+      [delivered.from, delivered.to, delivered.kind, delivered.inReplyTo, delivered.body],
+      [refiner.id, developer.id, 'reply', question.id, question.response],
+    );
+    // The reply is delivered to the developer but not answered again
+    assert.match(backend.queries[2].prompt, /^Reply from Spec Refiner "spec" \(claude-2\) to your message msg-1/);
+    assert.strictEqual(bus.list().length, 2);
+
+    assert.deepStrictEqual(bus.getGraph(), {
+      nodes: [
+        { id: developer.id, name: 'dev', personaId: 'developer' },
+        { id: refiner.id, name: 'spec', personaId: 'spec-refiner' },
+      ],
+      edges: [
+        { from: developer.id, to: refiner.id, messages: 1 },
+        { from: refiner.id, to: developer.id, messages: 1 },
+      ],
+      threads: [
+        {
+          id: question.threadId,
+          participants: [developer.id, refiner.id],
+          messageIds: ['msg-1', 'msg-2'],
+          updatedAt: delivered.createdAt,
+        },
+      ],
+    });
+  });
+
+  it('should hand off work without an answer and answer the user right away', async () => {
+    const reviewer = await manager.createInstance('review', { workingDirectory: testDir, personaId: 'pr-reviewer' });
+    const developer = await manager.createInstance('dev', { workingDirectory: testDir, personaId: 'developer' });
+
+    const done = settled(() => 'msg-1');
+    const handoff = bus.send({ from: reviewer.id, to: developer.id, body: 'Fix the findings', kind: 'handoff' });
+    await done;
+    assert.strictEqual(handoff.status, 'delivered');
+    assert.match(backend.queries[0].prompt, /^Work handed off to you by PR Reviewer "review"/);
+    assert.strictEqual(bus.list().length, 1);
+
+    const answered = settled(() => 'msg-3');
+    const question = bus.send({ to: developer.id, body: 'Status?', threadId: handoff.threadId });
+    const answer = await answered;
+    assert.strictEqual(question.from, 'user');
+    assert.deepStrictEqual([answer.to, answer.status, answer.body], ['user', 'delivered', 'answered: Status?']);
+    assert.strictEqual(bus.list({ threadId: handoff.threadId }).length, 3);
+    assert.strictEqual(bus.list({ instanceId: reviewer.id }).length, 1);
+  });
+
+  it('should reject messages it cannot address and fail those whose recipient stops', async () => {
+    const developer = await manager.createInstance('dev', { workingDirectory: testDir, personaId: 'developer' });
+    assert.throws(() => bus.send({ to: 'spec-refiner', body: 'x' }), /No instance or running role named spec-refiner/);
+    assert.throws(() => bus.send({ from: developer.id, to: 'developer', body: 'x' }), /cannot message itself/);
+    assert.throws(() => bus.send({ to: developer.id, body: 'x', threadId: 'thread-9' }), /Thread thread-9 not found/);
+
+    backend.enqueue(textReply('busy', { delayMs: 1000 }));
+    manager.sendMessage(developer.id, 'Work').catch(() => {});
+    const failed = settled(() => 'msg-1');
+    bus.send({ to: developer.id, body: 'Later' });
+    await manager.stopInstance(developer.id);
+    assert.strictEqual((await failed).error, `Instance ${developer.id} stopped before delivery`);
+    assert.throws(() => bus.send({ to: developer.id, body: 'x' }), /No instance or running role named claude-1/);
+  });
+
+  it('should let agents message each other through its bridge tools', async () => {
+    const developer = await manager.createInstance('dev', { workingDirectory: testDir, personaId: 'developer' });
+    const refiner = await manager.createInstance('spec', { workingDirectory: testDir, personaId: 'spec-refiner' });
+    const [sendMessage, , listTeam] = bus.bridgeTools();
+    const signal = new AbortController().signal;
+
+    assert.strictEqual(
+      await listTeam.call(developer.id, {}, signal),
+      `${refiner.id} "spec" - Spec Refiner (spec-refiner), ready`,
+    );
+    const delivered = settled(() => 'msg-1');
+    assert.match(
+      await sendMessage.call(developer.id, { to: 'spec-refiner', message: 'Which fields are required?' }, signal),
+      /^Sent msg-1 to claude-2 in thread-1, delivered now/,
+    );
+    assert.strictEqual((await delivered).response, 'answered: Which fields are required?');
+    await assert.rejects(() => sendMessage.call(developer.id, { to: refiner.id }, signal), /"to" and "message"/);
+  });
+
+  it('should deliver between the attempts of a structured answer without failing it', async () => {
+    const refiner = await manager.createInstance('spec', { workingDirectory: testDir, personaId: 'spec-refiner' });
+    backend.enqueue(
+      textReply('The spec has two open questions', { delayMs: 30 }),
+      textReply('Not yet'),
+      textReply('```json\n{"questions": 2}\n```'),
+    );
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { questions: { type: 'integer' } },
+      required: ['questions'],
+    };
+    const answering = manager.sendStructured<{ questions: number }>(refiner.id, 'Count the open questions', schema);
+
+    // Delivered as soon as the first attempt completes, before the schema errors are sent back
+    const question = bus.send({ to: refiner.id, body: 'Is the spec done?' });
+    const delivered = settled(() => question.id);
+    assert.deepStrictEqual(await answering, { questions: 2 });
+    assert.strictEqual((await delivered).response, 'Not yet');
+    assert.deepStrictEqual(
+      backend.queries.map((query) => query.prompt.split('\n')[0]),
+      [
+        'Count the open questions',
+        'Message msg-1 from the user (thread thread-1):',
+        'Your answer does not match the JSON Schema:',
+      ],
+    );
+  });
+
+  it('should persist messages and requeue the ones that were being delivered', async () => {
+    const developer = await manager.createInstance('dev', { workingDirectory: testDir });
+    backend.enqueue(textReply('slow', { delayMs: 1000 }));
+    bus.send({ to: developer.id, body: 'Slow question' });
+    await bus.flush();
+
+    const restored = new MessageBus(manager, path.join(testDir, 'messages.json'));
+    await restored.load();
+    assert.deepStrictEqual(
+      restored.list().map((message) => [message.id, message.status]),
+      [['msg-1', 'queued']],
+    );
+    assert.strictEqual(restored.send({ to: developer.id, body: 'Another' }).threadId, 'thread-2');
+    await manager.stopInstance(developer.id);
+    await restored.flush();
+  });
+});
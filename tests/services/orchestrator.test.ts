@@ -0,0 +1,64 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { CONFIG_VERSION } from '../../src/services/config-schema.js';
+import { Orchestrator } from '../../src/services/orchestrator.js';
+
+describe('Orchestrator', () => {
+  let testDir: string;
+  let orchestrator: Orchestrator;
+  const originalHome = process.env.HOME;
+
+  before(async () => {
+    // The orchestrator keeps its state and reads its config under the home directory
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'orchestrator-test-'));
+    process.env.HOME = testDir;
+    await fs.mkdir(path.join(testDir, '.coding-team'));
+    await fs.writeFile(
+      path.join(testDir, '.coding-team', 'config.json'),
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        mcpServers: { broken: { command: process.execPath, args: ['-e', 'process.exit(1)'] } },
+      }),
+    );
+
+    orchestrator = new Orchestrator();
+    await orchestrator.initialize();
+  });
+
+  after(async () => {
+    await orchestrator.cleanup();
+    process.env.HOME = originalHome;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should leave an instance whose MCP server failed to start in error', async () => {
+    const created = await orchestrator.invoke('claude:create-instance', [
+      'dev',
+      { workingDirectory: testDir, mcpServers: ['broken'] },
+    ]);
+    assert.ok(created.success);
+    assert.strictEqual(created.data.status, 'error');
+
+    // Give the watchdog the time to recover the instance if it were to
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const listed = await orchestrator.invoke('claude:get-instances', []);
+    assert.ok(listed.success);
+    assert.deepStrictEqual(
+      listed.data.map((instance) => [instance.status, instance.statusReason]),
+      [['error', 'MCP server broken failed to start: exited with code 1']],
+    );
+  });
+
+  it('should keep the issue tracker token out of the config', async () => {
+    const issueTracker = { type: 'github', owner: 'acme', repo: 'app', token: 'ghp_plain' };
+    assert.deepStrictEqual(await orchestrator.invoke('config:set', ['issueTracker', issueTracker]), {
+      success: false,
+      error: 'The issue tracker token cannot be set in the config; store it with `coding-team secret-set GITHUB_TOKEN`',
+    });
+    const config = await fs.readFile(path.join(testDir, '.coding-team', 'config.json'), 'utf-8');
+    assert.doesNotMatch(config, /ghp_plain/);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from 'node:assert';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { type ApprovalRequest, PermissionBroker } from '../../src/services/permission-broker.js';
+
+describe('PermissionBroker', () => {
+  let testDir: string;
+  let broker: PermissionBroker;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'permission-broker-test-'));
+    broker = new PermissionBroker({
+      contextFor: (instanceId) =>
+        instanceId === 'claude-1'
+          ? { policy: { allowedCommands: ['npm test'], deniedTools: ['WebFetch'] }, workingDirectory: testDir }
+          : undefined,
+      auditPath: path.join(testDir, 'audit.jsonl'),
+    });
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function nextApproval(): Promise<ApprovalRequest> {
+    return once(broker, 'approvalRequested').then(([request]) => request as ApprovalRequest);
+  }
+
+  it('should decide by policy and audit every decision', async () => {
+    assert.strictEqual(
+      (await broker.decide('claude-1', { toolName: 'Bash', input: { command: 'npm test' } })).decision,
+      'allow',
+    );
+    assert.strictEqual((await broker.decide('claude-1', { toolName: 'WebFetch', input: {} })).decision, 'deny');
+    assert.deepStrictEqual(await broker.decide('claude-9', { toolName: 'Read', input: {} }), {
+      decision: 'deny',
+      reason: 'instance claude-9 does not exist',
+    });
+
+    const audit = await broker.readAudit();
+    assert.deepStrictEqual(
+      audit.map((entry) => [entry.instanceId, entry.toolName, entry.decision, entry.decidedBy]),
+      [
+        ['claude-1', 'Bash', 'allow', 'policy'],
+        ['claude-1', 'WebFetch', 'deny', 'policy'],
+        ['claude-9', 'Read', 'deny', 'policy'],
+      ],
+    );
+    assert.strictEqual((await broker.readAudit({ instanceId: 'claude-1', limit: 1 }))[0].toolName, 'WebFetch');
+  });
+
+  it('should ask the user for actions outside the policy', async () => {
+    const requested = nextApproval();
+    const decision = broker.decide('claude-1', { toolName: 'Bash', input: { command: 'npm install' } });
+    const request = await requested;
+    assert.strictEqual(request.instanceId, 'claude-1');
+    assert.match(request.reason, /not in the allowed commands/);
+    assert.deepStrictEqual(broker.getPending(), [request]);
+
+    const resolved = once(broker, 'approvalResolved');
+    broker.respond(request.id, 'deny');
+    assert.deepStrictEqual(await decision, { decision: 'deny', reason: 'denied by the user' });
+    assert.deepStrictEqual(await resolved, [
+      { id: request.id, instanceId: 'claude-1', decision: 'deny', decidedBy: 'user' },
+    ]);
+    assert.deepStrictEqual(broker.getPending(), []);
+    assert.throws(() => broker.respond(request.id, 'approve'), /not found or already answered/);
+  });
+
+  it('should remember always-allow answers until the instance is forgotten', async () => {
+    const input = { command: 'npm install' };
+    const requested = nextApproval();
+    const first = broker.decide('claude-1', { toolName: 'Bash', input });
+    broker.respond((await requested).id, 'always-allow');
+    assert.strictEqual((await first).decision, 'allow');
+
+    assert.strictEqual((await broker.decide('claude-1', { toolName: 'Bash', input })).decision, 'allow');
+    const audit = await broker.readAudit();
+    assert.deepStrictEqual(
+      audit.map((entry) => entry.decidedBy),
+      ['user', 'remembered'],
+    );
+
+    broker.forget('claude-1');
+    const again = nextApproval();
+    const third = broker.decide('claude-1', { toolName: 'Bash', input });
+    broker.respond((await again).id, 'approve');
+    assert.strictEqual((await third).decision, 'allow');
+  });
+
+  it('should deny when nobody answers in time or the query ends', async () => {
+    broker.setApprovalTimeout(20);
+    assert.deepStrictEqual(await broker.decide('claude-1', { toolName: 'Task', input: {} }), {
+      decision: 'deny',
+      reason: 'no answer within 0s',
+    });
+
+    broker.setApprovalTimeout(10_000);
+    const query = new AbortController();
+    const requested = nextApproval();
+    const decision = broker.decide('claude-1', { toolName: 'Task', input: {} }, query.signal);
+    await requested;
+    query.abort();
+    assert.deepStrictEqual(await decision, { decision: 'deny', reason: 'the query ended before an answer' });
+    assert.deepStrictEqual(
+      (await broker.readAudit()).map((entry) => entry.decidedBy),
+      ['timeout', 'cancelled'],
+    );
+  });
+
+  it('should answer the permission prompts of the Claude Code CLI through the approval tool', async () => {
+    const tool = broker.approvalTool();
+    const signal = new AbortController().signal;
+    assert.deepStrictEqual(
+      JSON.parse(await tool.call('claude-1', { tool_name: 'Bash', input: { command: 'npm test' } }, signal)),
+      { behavior: 'allow', updatedInput: { command: 'npm test' } },
+    );
+    assert.deepStrictEqual(
+      JSON.parse(await tool.call('claude-1', { tool_name: 'mcp__coding-team__send_message', input: {} }, signal)),
+      { behavior: 'allow', updatedInput: {} },
+    );
+
+    const requested = nextApproval();
+    const asked = tool.call('claude-1', { tool_name: 'Write', input: { file_path: 'a' } }, signal);
+    broker.respond((await requested).id, 'deny');
+    assert.deepStrictEqual(JSON.parse(await asked), {
+      behavior: 'deny',
+      message: 'Permission denied: denied by the user',
+    });
+    await assert.rejects(() => tool.call('claude-1', { input: {} }, signal), /Missing tool_name/);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  type PermissionPolicy,
+  evaluatePermission,
+  globToRegExp,
+  mergePolicies,
+  splitCommand,
+  validatePermissionPolicy,
+} from '../../src/services/permission-policy.js';
+
+describe('Permission policy', () => {
+  const workingDirectory = '/work/project';
+  const policy: PermissionPolicy = {
+    allowedTools: ['WebSearch', 'mcp__github__*'],
+    deniedTools: ['WebFetch'],
+    allowedCommands: ['npm test*', 'git status', 'git diff*'],
+    deniedCommands: ['rm -rf*', 'git push*'],
+    allowedPaths: ['src/**', 'README.md'],
+    deniedPaths: ['**/.env'],
+  };
+
+  function evaluate(toolName: string, input: Record<string, unknown>) {
+    return evaluatePermission(policy, { toolName, input }, workingDirectory).decision;
+  }
+
+  it('should allow and deny tools by name, with globs', () => {
+    assert.strictEqual(evaluate('WebSearch', { query: 'x' }), 'allow');
+    assert.strictEqual(evaluate('mcp__github__create_issue', {}), 'allow');
+    assert.strictEqual(evaluate('WebFetch', { url: 'https://example.com' }), 'deny');
+    assert.strictEqual(evaluate('Task', { prompt: 'x' }), 'ask');
+  });
+
+  it('should check every part of a Bash command', () => {
+    assert.strictEqual(evaluate('Bash', { command: 'npm test -- --watch=false' }), 'allow');
+    assert.strictEqual(evaluate('Bash', { command: 'git status && git diff HEAD' }), 'allow');
+    assert.strictEqual(evaluate('Bash', { command: 'git status; rm -rf /' }), 'deny');
+    assert.strictEqual(evaluate('Bash', { command: 'git status | sh' }), 'ask');
+    assert.strictEqual(evaluate('Bash', { command: 'git diff $(curl example.com)' }), 'ask');
+    assert.deepStrictEqual(splitCommand('a && b || c; d | e'), ['a', 'b', 'c', 'd', 'e']);
+    assert.strictEqual(splitCommand('echo `id`'), undefined);
+  });
+
+  it('should ask for allowed commands that redirect their input or output', () => {
+    assert.strictEqual(evaluate('Bash', { command: 'npm test > ~/.bashrc' }), 'ask');
+    assert.strictEqual(evaluate('Bash', { command: 'npm test >> ~/.profile' }), 'ask');
+    assert.strictEqual(evaluate('Bash', { command: 'git diff < /etc/passwd' }), 'ask');
+    assert.strictEqual(evaluate('Bash', { command: 'git push origin main > /dev/null' }), 'deny');
+  });
+
+  it('should restrict files to the working directory and the allowed paths', () => {
+    assert.strictEqual(evaluate('Edit', { file_path: '/work/project/src/app/main.ts' }), 'allow');
+    assert.strictEqual(evaluate('Write', { file_path: 'README.md' }), 'allow');
+    assert.strictEqual(evaluate('Write', { file_path: 'package.json' }), 'ask');
+    assert.strictEqual(evaluate('Edit', { file_path: '/work/project/src/.env' }), 'deny');
+    assert.strictEqual(evaluate('Read', { file_path: '/work/project/../other/src/a.ts' }), 'ask');
+    assert.strictEqual(evaluate('Read', { file_path: '/etc/passwd' }), 'ask');
+    assert.match(
+      evaluatePermission(policy, { toolName: 'Read', input: { file_path: '/etc/passwd' } }, workingDirectory).reason,
+      /outside the working directory/,
+    );
+  });
+
+  it('should match path globs segment by segment', () => {
+    assert.ok(globToRegExp('src/*.ts', true).test('src/a.ts'));
+    assert.ok(!globToRegExp('src/*.ts', true).test('src/lib/a.ts'));
+    assert.ok(globToRegExp('**/.env', true).test('.env'));
+    assert.ok(globToRegExp('npm run *', false).test('npm run build/all'));
+  });
+
+  it('should merge and validate policies', () => {
+    assert.deepStrictEqual(
+      mergePolicies({ allowedTools: ['Read'] }, undefined, { allowedTools: ['Read', 'Grep'], deniedTools: ['Bash'] }),
+      { allowedTools: ['Read', 'Grep'], deniedTools: ['Bash'] },
+    );
+    assert.strictEqual(validatePermissionPolicy(policy), undefined);
+    assert.strictEqual(validatePermissionPolicy([]), 'must be an object');
+    assert.strictEqual(
+      validatePermissionPolicy({ deniedPaths: ['', 'a'] }),
+      '"deniedPaths" must be an array of non-empty strings',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { BUILT_IN_PERSONAS, PersonaRegistry, parsePersona } from '../../src/services/personas.js';
+
+describe('PersonaRegistry', () => {
+  let personasDir: string;
+
+  beforeEach(async () => {
+    personasDir = path.join(os.tmpdir(), `personas-test-${Date.now()}`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(personasDir, { recursive: true, force: true });
+  });
+
+  describe('Built-in personas', () => {
+    it('should ship the six team roles', () => {
+      const registry = new PersonaRegistry(personasDir);
+      const ids = registry.getAll().map((persona) => persona.id);
+
+      assert.deepStrictEqual(ids, [
+        'developer',
+        'pr-reviewer',
+        'landing-manager',
+        'ci-monitor',
+        'code-quality-manager',
+        'spec-refiner',
+      ]);
+      assert.ok(registry.getAll().every((persona) => persona.builtIn));
+    });
+
+    it('should load without a personas directory', async () => {
+      const registry = new PersonaRegistry(personasDir);
+      await registry.load();
+
+      assert.strictEqual(registry.getAll().length, BUILT_IN_PERSONAS.length);
+    });
+  });
+
+  describe('User-defined personas', () => {
+    it('should load personas from JSON files and default the id to the file name', async () => {
+      await fs.mkdir(personasDir, { recursive: true });
+      await fs.writeFile(
+        path.join(personasDir, 'qa-engineer.json'),
+        JSON.stringify({ name: 'QA Engineer', systemPrompt: 'You test features.', maxTurns: 10 }),
+      );
+
+      const registry = new PersonaRegistry(personasDir);
+      await registry.load();
+
+      const persona = registry.get('qa-engineer');
+      assert.strictEqual(persona?.name, 'QA Engineer');
+      assert.strictEqual(persona?.maxTurns, 10);
+      assert.strictEqual(persona?.builtIn, undefined);
+    });
+
+    it('should let user personas override built-in ones', async () => {
+      await fs.mkdir(personasDir, { recursive: true });
+      await fs.writeFile(
+        path.join(personasDir, 'custom.json'),
+        JSON.stringify({ id: 'developer', name: 'Senior Developer', systemPrompt: 'You are senior.' }),
+      );
+
+      const registry = new PersonaRegistry(personasDir);
+      await registry.load();
+
+      assert.strictEqual(registry.get('developer')?.name, 'Senior Developer');
+      assert.strictEqual(registry.getAll().length, BUILT_IN_PERSONAS.length);
+    });
+
+    it('should skip and report the file of an invalid persona', async () => {
+      await fs.mkdir(personasDir, { recursive: true });
+      await fs.writeFile(path.join(personasDir, 'broken.json'), JSON.stringify({ name: 'Broken' }));
+      await fs.writeFile(path.join(personasDir, 'garbled.json'), '{ "name": ');
+      await fs.writeFile(path.join(personasDir, 'qa.json'), JSON.stringify({ name: 'QA', systemPrompt: 'Test it.' }));
+
+      const registry = new PersonaRegistry(personasDir);
+      await registry.load();
+      assert.strictEqual(registry.get('qa')?.name, 'QA');
+      assert.strictEqual(registry.get('broken'), undefined);
+      const errors = registry.getLoadErrors();
+      assert.strictEqual(errors.length, 2);
+      assert.match(errors[0], /broken\.json: "systemPrompt" must be a non-empty string/);
+      assert.match(errors[1], /garbled\.json: /);
+    });
+  });
+
+  describe('parsePersona', () => {
+    it('should reject unknown permission modes', () => {
+      assert.throws(
+        () => parsePersona({ name: 'X', systemPrompt: 'Y', permissionMode: 'yolo' }, 'x'),
+        /"permissionMode" must be one of/,
+      );
+    });
+
+    it('should reject non-string tool lists', () => {
+      assert.throws(
+        () => parsePersona({ name: 'X', systemPrompt: 'Y', allowedTools: ['Read', 3] }, 'x'),
+        /"allowedTools" must be an array of strings/,
+      );
+    });
+
+    it('should read and check permission policies', () => {
+      const persona = parsePersona(
+        { name: 'X', systemPrompt: 'Y', permissions: { allowedCommands: ['npm test'] } },
+        'x',
+      );
+      assert.deepStrictEqual(persona.permissions, { allowedCommands: ['npm test'] });
+      assert.throws(
+        () => parsePersona({ name: 'X', systemPrompt: 'Y', permissions: { allowCommands: ['ls'] } }, 'x'),
+        /"permissions" has an unknown field "allowCommands"/,
+      );
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import { ReviewService, parseReviewVerdict } from '../../src/services/review-service.js';
+import { WorktreeManager } from '../../src/services/worktree-manager.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+// Stand-in for the Claude Code CLI. As a reviewer it requests changes on the first round
+// and approves on the next; as a developer it logs the feedback it receives.
+const TEAM_CLI = `
+const fs = require('node:fs');
+const path = require('node:path');
+const args = process.argv.slice(2).join(' ');
+const print = (result) => process.stdout.write(JSON.stringify({
+  type: 'result', subtype: 'success', is_error: false, result, session_id: 's',
+  duration_ms: 1, duration_api_ms: 1, num_turns: 1, total_cost_usd: 0, usage: { input_tokens: 0, output_tokens: 0 },
+}) + '\\n');
+if (args.includes('code reviewer')) {
+  const counter = path.join(__dirname, 'rounds');
+  const round = fs.existsSync(counter) ? Number(fs.readFileSync(counter, 'utf-8')) + 1 : 1;
+  fs.writeFileSync(counter, String(round));
+  fs.appendFileSync(path.join(__dirname, 'review-prompts.log'), args + '\\n');
+  fs.appendFileSync(path.join(__dirname, 'review-dirs.log'), process.cwd() + '\\n');
+  const verdict = round === 1
+    ? { decision: 'request-changes', summary: 'Needs a guard.', comments: [{ file: 'src/app.js', line: 2, body: 'Check for null' }] }
+    : { decision: 'approve', summary: 'Looks good.', comments: [] };
+  print('Reviewed.\\n\\n\\u0060\\u0060\\u0060json\\n' + JSON.stringify(verdict) + '\\n\\u0060\\u0060\\u0060');
+} else {
+  fs.appendFileSync(path.join(__dirname, 'feedback.log'), args + '\\n');
+  print('Fixed.');
+}
+`;
+
+describe('parseReviewVerdict', () => {
+  it('should read the last JSON block of the reply', () => {
+    const verdict = parseReviewVerdict(
+      'Some notes.\n```json\n{"decision": "comment"}\n```\nFinal:\n```json\n' +
+        '{"decision": "request-changes", "summary": "Fix it", "comments": [{"file": "a.ts", "line": 3, "body": "Typo"}]}\n```',
+    );
+
+    assert.deepStrictEqual(verdict, {
+      decision: 'request-changes',
+      summary: 'Fix it',
+      comments: [{ file: 'a.ts', line: 3, body: 'Typo' }],
+    });
+  });
+
+  it('should accept a bare JSON reply', () => {
+    assert.deepStrictEqual(parseReviewVerdict('{"decision": "approve", "summary": "LGTM"}'), {
+      decision: 'approve',
+      summary: 'LGTM',
+      comments: [],
+    });
+  });
+
+  it('should reject malformed verdicts', () => {
+    assert.throws(() => parseReviewVerdict('Looks fine to me'), /does not contain a JSON verdict/);
+    assert.throws(() => parseReviewVerdict('{"decision": "merge"}'), /"decision" must be one of/);
+    assert.throws(
+      () => parseReviewVerdict('{"decision": "comment", "comments": [{"line": 1}]}'),
+      /comment 0 must have a "file" and a "body"/,
+    );
+  });
+});
+
+describe('ReviewService', () => {
+  let testDir: string;
+  let repoPath: string;
+  let manager: ClaudeManager;
+  let service: ReviewService;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `review-test-${Date.now()}`);
+    repoPath = path.join(testDir, 'repo');
+    await fs.mkdir(path.join(repoPath, 'src'), { recursive: true });
+
+    git(repoPath, 'init', '-q', '-b', 'main');
+    git(repoPath, 'config', 'user.email', 'test@example.com');
+    git(repoPath, 'config', 'user.name', 'Test');
+    await fs.writeFile(path.join(repoPath, 'src', 'app.js'), 'export function run() {\n}\n');
+    git(repoPath, 'add', '.');
+    git(repoPath, 'commit', '-q', '-m', 'initial');
+    git(repoPath, 'checkout', '-q', '-b', 'feature');
+    await fs.writeFile(path.join(repoPath, 'src', 'app.js'), 'export function run(user) {\n  return user.name;\n}\n');
+    git(repoPath, 'commit', '-q', '-am', 'Return the user name');
+
+    const cliPath = path.join(testDir, 'cli.js');
+    await fs.writeFile(cliPath, TEAM_CLI);
+    manager = new ClaudeManager({
+      claudeExecutablePath: cliPath,
+      worktrees: new WorktreeManager(path.join(testDir, 'worktrees')),
+    });
+    service = new ReviewService(manager, path.join(testDir, 'reviews.json'));
+  });
+
+  afterEach(async () => {
+    await service.flush();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should send the diff to a reviewer and iterate with the author until approved', async () => {
+    const author = await manager.createInstance('dev', { workingDirectory: repoPath, personaId: 'developer' });
+
+    const { review, done } = service.request({ repository: repoPath, branch: 'feature', authorInstanceId: author.id });
+    assert.strictEqual(review.status, 'pending');
+    await done;
+
+    const reviews = service.list();
+    assert.deepStrictEqual(
+      reviews.map((r) => [r.iteration, r.status, r.verdict?.decision]),
+      [
+        [1, 'completed', 'request-changes'],
+        [2, 'completed', 'approve'],
+      ],
+    );
+    assert.strictEqual(reviews[0].headCommit, git(repoPath, 'rev-parse', 'feature'));
+    assert.strictEqual(reviews[1].reviewerInstanceId, reviews[0].reviewerInstanceId);
+    // The reviewer worked in its own checkout of the branch, and was stopped with it once the branch was approved
+    const [reviewDir] = (await fs.readFile(path.join(testDir, 'review-dirs.log'), 'utf-8')).split('\n');
+    assert.ok(reviewDir.startsWith(path.join(testDir, 'worktrees')));
+    await assert.rejects(fs.stat(reviewDir));
+    assert.deepStrictEqual(
+      manager.getAllInstances().map((instance) => instance.id),
+      [author.id],
+    );
+
+    const prompts = await fs.readFile(path.join(testDir, 'review-prompts.log'), 'utf-8');
+    assert.match(prompts, /Review the changes of branch feature against main/);
+    assert.match(prompts, /\+ {2}return user\.name;/);
+
+    const feedback = await fs.readFile(path.join(testDir, 'feedback.log'), 'utf-8');
+    assert.match(feedback, /requested changes[\s\S]*- src\/app\.js:2: Check for null/);
+  });
+
+  it('should fail the review when the branch has no changes', async () => {
+    const { done } = service.request({ repository: repoPath, branch: 'main' });
+    await done;
+
+    const [review] = service.list();
+    assert.strictEqual(review.status, 'failed');
+    assert.match(review.error ?? '', /Branch main has no changes against main/);
+  });
+
+  it('should refuse branch names that git would take for options', async () => {
+    const { done } = service.request({ repository: repoPath, branch: '--output=/tmp/x', baseBranch: 'main' });
+    await done;
+
+    const [review] = service.list();
+    assert.strictEqual(review.status, 'failed');
+    assert.strictEqual(review.error, '--output=/tmp/x is not a valid branch name');
+  });
+
+  it('should persist verdicts and fail reviews interrupted by a restart', async () => {
+    const { done } = service.request({ repository: repoPath, branch: 'feature', maxIterations: 1 });
+    await done;
+    await service.flush();
+
+    const stored = JSON.parse(await fs.readFile(path.join(testDir, 'reviews.json'), 'utf-8'));
+    // Its reviewer, restored with the other instances, is not needed any more
+    const staleReviewer = await manager.createInstance('reviewer', {
+      workingDirectory: repoPath,
+      personaId: 'pr-reviewer',
+    });
+    stored.push({
+      ...stored[0],
+      id: 'review-7',
+      status: 'pending',
+      verdict: undefined,
+      reviewerInstanceId: staleReviewer.id,
+      ownsReviewer: true,
+    });
+    await fs.writeFile(path.join(testDir, 'reviews.json'), JSON.stringify(stored));
+
+    const restored = new ReviewService(manager, path.join(testDir, 'reviews.json'));
+    await restored.load();
+    assert.strictEqual(restored.get('review-1')?.verdict?.decision, 'request-changes');
+    assert.strictEqual(restored.get('review-7')?.status, 'failed');
+    assert.strictEqual(manager.getInstance(staleReviewer.id), undefined);
+
+    const next = restored.request({ repository: repoPath, branch: 'main' });
+    assert.strictEqual(next.review.id, 'review-8');
+    await next.done;
+    await restored.flush();
+  });
+});
@@ -0,0 +1,284 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import { ScriptedBackend, textReply } from '../../src/services/scripted-backend.js';
+import { TaskDispatcher } from '../../src/services/task-dispatcher.js';
+import { TaskQueue } from '../../src/services/task-queue.js';
+import { UsageTracker } from '../../src/services/usage-tracker.js';
+
+// Answers prompts with a handler instead of calling the Claude Code SDK
+class StubManager extends ClaudeManager {
+  running = 0;
+  maxRunning = 0;
+
+  constructor(
+    maxConcurrentInstances: number,
+    private handler: (prompt: string) => Promise<string>,
+  ) {
+    super({ claudeExecutablePath: '/usr/bin/false', maxConcurrentInstances });
+  }
+
+  async sendMessage(instanceId: string, message: string): Promise<string> {
+    const instance = this.getInstance(instanceId);
+    if (!instance || instance.status !== 'ready') {
+      throw new Error(`Instance ${instanceId} is not ready`);
+    }
+    instance.status = 'busy';
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    try {
+      return await this.handler(message);
+    } finally {
+      this.running--;
+      instance.status = 'ready';
+      this.emit('instanceReady', instance);
+    }
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('TaskQueue', () => {
+  let queuePath: string;
+  let queue: TaskQueue;
+
+  beforeEach(() => {
+    queuePath = path.join(os.tmpdir(), `task-queue-test-${Date.now()}`, 'tasks.json');
+    queue = new TaskQueue(queuePath);
+  });
+
+  afterEach(async () => {
+    await queue.flush();
+    await fs.rm(path.dirname(queuePath), { recursive: true, force: true });
+  });
+
+  it('should order runnable tasks by priority then age', () => {
+    const low = queue.enqueue({ prompt: 'low' });
+    const high = queue.enqueue({ prompt: 'high', priority: 5 });
+    const alsoLow = queue.enqueue({ prompt: 'also low' });
+
+    assert.deepStrictEqual(
+      queue.getRunnable().map((task) => task.id),
+      [high.id, low.id, alsoLow.id],
+    );
+  });
+
+  it('should hold tasks until their dependencies complete', () => {
+    const first = queue.enqueue({ prompt: 'first' });
+    const second = queue.enqueue({ prompt: 'second', dependsOn: [first.id] });
+
+    assert.deepStrictEqual(
+      queue.getRunnable().map((task) => task.id),
+      [first.id],
+    );
+
+    queue.update(first.id, { status: 'completed' });
+    assert.deepStrictEqual(
+      queue.getRunnable().map((task) => task.id),
+      [second.id],
+    );
+  });
+
+  it('should reject unknown dependencies', () => {
+    assert.throws(() => queue.enqueue({ prompt: 'x', dependsOn: ['task-99'] }), /Task dependency task-99 not found/);
+  });
+
+  it('should persist tasks and requeue running ones on their instance after a restart', async () => {
+    const task = queue.enqueue({ prompt: 'persist me', personaId: 'developer' });
+    queue.update(task.id, { status: 'running', instanceId: 'claude-1' });
+    await queue.save();
+
+    const restored = new TaskQueue(queuePath);
+    await restored.load();
+
+    const [loaded] = restored.list();
+    assert.strictEqual(loaded.prompt, 'persist me');
+    assert.strictEqual(loaded.status, 'pending');
+    assert.strictEqual(loaded.instanceId, 'claude-1');
+    assert.strictEqual(restored.enqueue({ prompt: 'next' }).id, 'task-2');
+  });
+});
+
+describe('TaskDispatcher', () => {
+  let queuePath: string;
+  let queue: TaskQueue;
+  let dispatcher: TaskDispatcher | undefined;
+
+  beforeEach(() => {
+    queuePath = path.join(os.tmpdir(), `task-dispatcher-test-${Date.now()}`, 'tasks.json');
+    queue = new TaskQueue(queuePath);
+  });
+
+  afterEach(async () => {
+    dispatcher?.stop();
+    await queue.flush();
+    await fs.rm(path.dirname(queuePath), { recursive: true, force: true });
+  });
+
+  it('should never run more instances than maxConcurrentInstances', async () => {
+    const manager = new StubManager(2, async (prompt) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return `done: ${prompt}`;
+    });
+    dispatcher = new TaskDispatcher(manager, queue);
+    dispatcher.start();
+
+    for (let i = 0; i < 5; i++) {
+      dispatcher.enqueue({ prompt: `task ${i}` });
+    }
+
+    await waitFor(() => queue.list('completed').length === 5);
+    assert.strictEqual(manager.maxRunning, 2);
+    assert.strictEqual(manager.getAllInstances().length, 2);
+    assert.strictEqual(queue.list()[0].result, 'done: task 0');
+  });
+
+  it('should retry failed tasks with backoff', async () => {
+    let calls = 0;
+    const manager = new StubManager(1, async () => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('transient failure');
+      }
+      return 'ok';
+    });
+    dispatcher = new TaskDispatcher(manager, queue, { retryBaseDelay: 20 });
+    dispatcher.start();
+
+    const task = dispatcher.enqueue({ prompt: 'flaky' });
+    await waitFor(() => task.status === 'completed');
+
+    assert.strictEqual(task.attempts, 2);
+    assert.strictEqual(task.result, 'ok');
+  });
+
+  it('should fail tasks after maxAttempts and fail their dependents', async () => {
+    const manager = new StubManager(1, async () => {
+      throw new Error('always fails');
+    });
+    dispatcher = new TaskDispatcher(manager, queue, { retryBaseDelay: 1 });
+    dispatcher.start();
+
+    const task = dispatcher.enqueue({ prompt: 'broken', maxAttempts: 2 });
+    const dependent = dispatcher.enqueue({ prompt: 'after broken', dependsOn: [task.id] });
+    await waitFor(() => dependent.status === 'failed');
+
+    assert.strictEqual(task.status, 'failed');
+    assert.strictEqual(task.attempts, 2);
+    assert.strictEqual(task.error, 'always fails');
+  });
+
+  it('should fail a task whose instance cannot start without holding up the others', async () => {
+    const manager = new StubManager(2, async () => 'ok');
+    // Enqueued before its persona was removed from the config
+    const orphaned = queue.enqueue({ prompt: 'orphaned', personaId: 'removed-persona', priority: 5 });
+    dispatcher = new TaskDispatcher(manager, queue);
+    dispatcher.start();
+
+    const next = dispatcher.enqueue({ prompt: 'next' });
+    await waitFor(() => next.status === 'completed');
+
+    assert.strictEqual(orphaned.status, 'failed');
+    assert.strictEqual(orphaned.error, 'Cannot start an instance: Persona removed-persona not found');
+    assert.throws(() => dispatcher?.enqueue({ prompt: 'x', personaId: 'nobody' }), /Persona nobody not found/);
+  });
+
+  it('should run a task interrupted by a restart on its previous instance', async () => {
+    const manager = new StubManager(2, async () => 'ok');
+    const other = await manager.createInstance('other');
+    const previous = await manager.createInstance('previous');
+    const task = queue.enqueue({ prompt: 'interrupted' });
+    queue.update(task.id, { instanceId: previous.id, attempts: 1 });
+    dispatcher = new TaskDispatcher(manager, queue);
+    dispatcher.start();
+
+    await waitFor(() => task.status === 'completed');
+    assert.strictEqual(task.instanceId, previous.id);
+    assert.notStrictEqual(task.instanceId, other.id);
+  });
+
+  it('should only reuse the instances it created', async () => {
+    const manager = new StubManager(4, async () => 'ok');
+    const mine = await manager.createInstance('mine');
+    const reviewer = await manager.createInstance('reviewer', { personaId: 'pr-reviewer' });
+    dispatcher = new TaskDispatcher(manager, queue);
+    dispatcher.start();
+
+    const task = dispatcher.enqueue({ prompt: 'plain' });
+    const review = dispatcher.enqueue({ prompt: 'review', personaId: 'pr-reviewer' });
+    await waitFor(() => task.status === 'completed' && review.status === 'completed');
+    assert.ok(![mine.id, reviewer.id].includes(task.instanceId ?? ''));
+    assert.ok(![mine.id, reviewer.id].includes(review.instanceId ?? ''));
+
+    // A worker it created is reused
+    const again = dispatcher.enqueue({ prompt: 'again' });
+    await waitFor(() => again.status === 'completed');
+    assert.strictEqual(again.instanceId, task.instanceId);
+    assert.strictEqual(manager.getAllInstances().length, 4);
+  });
+
+  it('should cancel pending tasks', async () => {
+    const manager = new StubManager(1, async () => 'ok');
+    dispatcher = new TaskDispatcher(manager, queue);
+
+    const task = dispatcher.enqueue({ prompt: 'never mind' });
+    await dispatcher.cancel(task.id);
+
+    assert.strictEqual(task.status, 'cancelled');
+    await assert.rejects(async () => dispatcher?.cancel(task.id), /cannot be cancelled/);
+  });
+
+  it('should pause dispatch while the daily budget is exceeded', async () => {
+    const manager = new StubManager(1, async () => 'ok');
+    const usage = new UsageTracker(path.join(path.dirname(queuePath), 'usage.jsonl'));
+    usage.setBudgets({ dailyBudgetUsd: 0 });
+    dispatcher = new TaskDispatcher(manager, queue, { usage });
+    dispatcher.start();
+
+    const task = dispatcher.enqueue({ prompt: 'too expensive' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.ok(dispatcher.isPaused());
+    assert.strictEqual(task.status, 'pending');
+    assert.strictEqual(manager.getAllInstances().length, 0);
+  });
+
+  it('should not retry a task that failed over its budget', async () => {
+    const backend = new ScriptedBackend();
+    // The cost comes with the result; a query that hit its turn limit then fails as the CLI exits
+    backend.enqueue([
+      ...textReply('Out of turns', { costUsd: 2 }),
+      { error: 'Claude Code process exited with code 1' },
+    ]);
+    backend.enqueue(textReply('Done', { costUsd: 3 }));
+    const manager = new ClaudeManager({ backend, defaultModel: 'test-model' });
+    const usage = new UsageTracker(path.join(path.dirname(queuePath), 'usage.jsonl'));
+    usage.setBudgets({ taskBudgetUsd: 1 });
+    dispatcher = new TaskDispatcher(manager, queue, { usage, retryBaseDelay: 1 });
+    dispatcher.start();
+
+    const failed = dispatcher.enqueue({ prompt: 'expensive', maxAttempts: 3 });
+    await waitFor(() => failed.status === 'failed');
+    assert.strictEqual(failed.attempts, 1);
+    assert.strictEqual(failed.costUsd, 2);
+    assert.match(failed.error ?? '', /exited with code 1 \(task budget exceeded, not retrying\)/);
+
+    // A query that completed over the budget keeps its answer
+    const completed = dispatcher.enqueue({ prompt: 'also expensive' });
+    await waitFor(() => completed.status === 'completed');
+    assert.strictEqual(completed.result, 'Done');
+    assert.strictEqual(completed.costUsd, 3);
+    await manager.shutdown();
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { TranscriptStore } from '../../src/services/transcript-store.js';
+
+describe('TranscriptStore', () => {
+  let transcriptsDir: string;
+  let store: TranscriptStore;
+
+  beforeEach(async () => {
+    transcriptsDir = path.join(os.tmpdir(), `transcripts-test-${Date.now()}`);
+    store = new TranscriptStore(transcriptsDir);
+
+    store.append({ type: 'prompt', instanceId: 'claude-1', text: 'Fix the bug' });
+    store.append({ type: 'text', instanceId: 'claude-1', text: 'Looking at it.' });
+    store.append({ type: 'tool-use', instanceId: 'claude-1', toolUseId: 't1', name: 'Bash', input: { command: 'ls' } });
+    store.append({ type: 'tool-result', instanceId: 'claude-1', toolUseId: 't1', content: 'a.ts', isError: false });
+    store.append({ type: 'result', instanceId: 'claude-1', subtype: 'success', result: 'Fixed', isError: false });
+    await store.flush();
+  });
+
+  afterEach(async () => {
+    await fs.rm(transcriptsDir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per entry with a timestamp', async () => {
+    const lines = (await fs.readFile(path.join(transcriptsDir, 'claude-1.jsonl'), 'utf-8')).trim().split('\n');
+
+    assert.strictEqual(lines.length, 5);
+    const first = JSON.parse(lines[0]);
+    assert.strictEqual(first.type, 'prompt');
+    assert.ok(!Number.isNaN(Date.parse(first.timestamp)));
+  });
+
+  it('should paginate entries', async () => {
+    const page = await store.read('claude-1', { offset: 1, limit: 2 });
+
+    assert.strictEqual(page.total, 5);
+    assert.deepStrictEqual(
+      page.entries.map((entry) => entry.type),
+      ['text', 'tool-use'],
+    );
+  });
+
+  it('should filter entries by type before paginating', async () => {
+    const page = await store.read('claude-1', { types: ['prompt', 'result'], limit: 1 });
+
+    assert.strictEqual(page.total, 2);
+    assert.deepStrictEqual(
+      page.entries.map((entry) => entry.type),
+      ['prompt'],
+    );
+  });
+
+  it('should return an empty page for instances without a transcript', async () => {
+    assert.deepStrictEqual(await store.read('claude-404'), { entries: [], total: 0 });
+  });
+
+  it('should reject instance ids that would escape the transcripts directory', async () => {
+    await assert.rejects(async () => store.read('../config'), /Invalid instance id/);
+  });
+
+  it('should export to Markdown', async () => {
+    const markdown = await store.export('claude-1', 'markdown');
+
+    assert.match(markdown, /^# Transcript of claude-1/);
+    assert.match(markdown, /## Prompt \(.+\)\n\nFix the bug/);
+    assert.match(markdown, /`Bash`\n\n```json\n\{\n {2}"command": "ls"\n\}\n```/);
+    assert.match(markdown, /## Result \(.+\)\n\nFixed/);
+  });
+
+  it('should export to JSON', async () => {
+    const entries = JSON.parse(await store.export('claude-1', 'json'));
+
+    assert.strictEqual(entries.length, 5);
+    assert.strictEqual(entries[4].result, 'Fixed');
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { type UsageRecord, UsageTracker } from '../../src/services/usage-tracker.js';
+
+function usage(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: '2026-03-01T10:00:00.000Z',
+    instanceId: 'claude-1',
+    personaId: 'developer',
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheCreationInputTokens: 10,
+    cacheReadInputTokens: 5,
+    costUsd: 0.5,
+    durationMs: 1000,
+    numTurns: 2,
+    ...overrides,
+  };
+}
+
+describe('UsageTracker', () => {
+  let usagePath: string;
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    usagePath = path.join(os.tmpdir(), `usage-test-${Date.now()}`, 'usage.jsonl');
+    tracker = new UsageTracker(usagePath);
+  });
+
+  afterEach(async () => {
+    await tracker.flush();
+    await fs.rm(path.dirname(usagePath), { recursive: true, force: true });
+  });
+
+  it('should aggregate usage per instance, persona and day', () => {
+    tracker.record(usage({}));
+    tracker.record(usage({ instanceId: 'claude-2', personaId: undefined, costUsd: 0.25 }));
+    tracker.record(usage({ timestamp: '2026-03-02T09:00:00.000Z', costUsd: 1 }));
+
+    const summary = tracker.getSummary(new Date('2026-03-02T12:00:00.000Z'));
+
+    assert.strictEqual(summary.total.calls, 3);
+    assert.strictEqual(summary.total.inputTokens, 300);
+    assert.strictEqual(summary.total.costUsd, 1.75);
+    assert.strictEqual(summary.byInstance['claude-1'].costUsd, 1.5);
+    assert.strictEqual(summary.byPersona.developer.calls, 2);
+    assert.strictEqual(summary.byPersona.none.costUsd, 0.25);
+    assert.strictEqual(summary.byDay['2026-03-01'].costUsd, 0.75);
+    assert.strictEqual(summary.spentToday, 1);
+  });
+
+  it('should persist records and reload them', async () => {
+    tracker.record(usage({}));
+    await tracker.flush();
+
+    const reloaded = new UsageTracker(usagePath);
+    await reloaded.load();
+
+    assert.strictEqual(reloaded.getSummary().total.outputTokens, 50);
+  });
+
+  it('should emit budgetExceeded once per day when the daily budget is reached', () => {
+    const exceeded: unknown[] = [];
+    tracker.on('budgetExceeded', (event) => exceeded.push(event));
+    tracker.setBudgets({ dailyBudgetUsd: 1 });
+
+    tracker.record(usage({ costUsd: 0.6 }));
+    assert.strictEqual(exceeded.length, 0);
+
+    tracker.record(usage({ costUsd: 0.6 }));
+    tracker.record(usage({ costUsd: 0.6 }));
+
+    assert.deepStrictEqual(exceeded, [{ scope: 'daily', limitUsd: 1, spentUsd: 1.2 }]);
+    assert.ok(tracker.isDailyBudgetExceeded(new Date('2026-03-01T23:00:00.000Z')));
+    assert.ok(!tracker.isDailyBudgetExceeded(new Date('2026-03-02T00:00:00.000Z')));
+  });
+
+  it('should compare task spend against the task budget', () => {
+    assert.ok(!tracker.isTaskBudgetExceeded(100));
+
+    tracker.setBudgets({ taskBudgetUsd: 2 });
+    assert.ok(!tracker.isTaskBudgetExceeded(1.99));
+    assert.ok(tracker.isTaskBudgetExceeded(2));
+  });
+
+  it('should reset the daily budget at the next UTC midnight', () => {
+    assert.strictEqual(
+      tracker.getDailyResetAt(new Date('2026-03-01T10:00:00.000Z')).toISOString(),
+      '2026-03-02T00:00:00.000Z',
+    );
+  });
+});
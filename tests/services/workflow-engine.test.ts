@@ -0,0 +1,241 @@
+import assert from 'node:assert';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeManager } from '../../src/services/claude-manager.js';
+import { MessageBus } from '../../src/services/message-bus.js';
+import { ScriptedBackend, textReply } from '../../src/services/scripted-backend.js';
+import { WorkflowEngine, type WorkflowRun } from '../../src/services/workflow-engine.js';
+import { WorkflowRegistry } from '../../src/services/workflows.js';
+
+function json(value: unknown) {
+  return textReply(`\`\`\`json\n${JSON.stringify(value)}\n\`\`\``);
+}
+
+describe('WorkflowEngine', () => {
+  let testDir: string;
+  let backend: ScriptedBackend;
+  let manager: ClaudeManager;
+  let registry: WorkflowRegistry;
+  let engine: WorkflowEngine;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-engine-test-'));
+    backend = new ScriptedBackend();
+    manager = new ClaudeManager({ backend, defaultModel: 'test-model' });
+    registry = new WorkflowRegistry(path.join(testDir, 'workflows'));
+    engine = new WorkflowEngine(manager, registry, path.join(testDir, 'workflow-runs.json'));
+    engine.start();
+  });
+
+  afterEach(async () => {
+    engine.stop();
+    await engine.flush();
+    await manager.shutdown();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function finished(target: WorkflowEngine, runId: string): Promise<WorkflowRun> {
+    return new Promise((resolve) => {
+      const onUpdated = (run: WorkflowRun) => {
+        if (run.id === runId && run.status !== 'running') {
+          target.off('runUpdated', onUpdated);
+          resolve(run);
+        }
+      };
+      target.on('runUpdated', onUpdated);
+    });
+  }
+
+  function stageStarted(target: WorkflowEngine, stageId: string): Promise<WorkflowRun> {
+    return new Promise((resolve) => {
+      const onUpdated = (run: WorkflowRun) => {
+        if (run.stages[stageId].instanceId && run.stages[stageId].status === 'running') {
+          target.off('runUpdated', onUpdated);
+          resolve(run);
+        }
+      };
+      target.on('runUpdated', onUpdated);
+    });
+  }
+
+  it('should loop a stage back until the review approves, then land', async () => {
+    backend.enqueue(json({ spec: 'Export projects as CSV', acceptanceCriteria: ['Has a header row'] }));
+    backend.enqueue(textReply('Implemented'));
+    backend.enqueue(
+      json({ decision: 'request-changes', summary: 'Missing header', comments: [{ file: 'a.ts', body: 'x' }] }),
+    );
+    backend.enqueue(textReply('Added the header'));
+    backend.enqueue(json({ decision: 'approve', summary: 'Looks good' }));
+    backend.enqueue(textReply('Landed'));
+
+    const run = engine.startRun({
+      workflowId: 'issue-to-land',
+      input: { request: 'Export projects' },
+      workingDirectory: testDir,
+    });
+    assert.strictEqual(run.currentStage, 'refine');
+    const done = await finished(engine, run.id);
+
+    assert.strictEqual(done.status, 'completed');
+    assert.deepStrictEqual(
+      done.history.map((step) => `${step.stage}:${step.outcome}>${step.to}`),
+      [
+        'refine:success>develop',
+        'develop:success>review',
+        'review:request-changes>develop',
+        'develop:success>review',
+        'review:approve>land',
+        'land:success>done',
+      ],
+    );
+    assert.deepStrictEqual(
+      [done.stages.develop.iterations, done.stages.review.outcome, done.stages.land.output],
+      [2, 'approve', 'Landed'],
+    );
+    assert.match(
+      backend.queries[0].prompt,
+      /specification with acceptance criteria:\n\nExport projects\n\nAnswer with/,
+    );
+    assert.match(backend.queries[3].prompt, /Export projects as CSV[\s\S]*\["Has a header row"\][\s\S]*"body":"x"/);
+    // One instance per persona, stopped once the run ended
+    assert.deepStrictEqual(Object.keys(done.instances), [
+      'spec-refiner',
+      'developer',
+      'pr-reviewer',
+      'landing-manager',
+    ]);
+    assert.strictEqual(backend.queries[1].instanceId, backend.queries[3].instanceId);
+    assert.deepStrictEqual(manager.getActiveInstances(), []);
+  });
+
+  it('should fail a run once a loop is exhausted or a stage fails', async () => {
+    await fs.mkdir(path.join(testDir, 'workflows'));
+    await fs.writeFile(
+      path.join(testDir, 'workflows', 'checks.json'),
+      JSON.stringify({
+        name: 'Checks',
+        stages: {
+          check: {
+            persona: 'ci-monitor',
+            prompt: 'Run the checks',
+            schema: { type: 'object', properties: { passed: { type: 'boolean' } }, required: ['passed'] },
+            success: { path: 'passed', equals: true },
+            transitions: { failure: { to: 'check', maxLoops: 1 } },
+          },
+        },
+      }),
+    );
+    await registry.load();
+
+    backend.enqueue(json({ passed: false }));
+    backend.enqueue(json({ passed: false }));
+    const exhausted = await finished(engine, engine.startRun({ workflowId: 'checks', workingDirectory: testDir }).id);
+    assert.strictEqual(exhausted.status, 'failed');
+    assert.strictEqual(exhausted.error, 'stage check ended with outcome failure more than 1 times');
+    assert.deepStrictEqual(
+      exhausted.history.map((step) => step.to),
+      ['check', 'failed'],
+    );
+
+    backend.enqueue([{ error: 'model overloaded' }]);
+    const errored = await finished(engine, engine.startRun({ workflowId: 'checks', workingDirectory: testDir }).id);
+    assert.strictEqual(errored.status, 'failed');
+    assert.strictEqual(errored.stages.check.status, 'failed');
+    assert.match(errored.error ?? '', /model overloaded/);
+  });
+
+  it('should run its next stage after the messages other agents queued for the instance', async () => {
+    await fs.mkdir(path.join(testDir, 'workflows'));
+    await fs.writeFile(
+      path.join(testDir, 'workflows', 'checks.json'),
+      JSON.stringify({
+        name: 'Checks',
+        stages: {
+          check: {
+            persona: 'ci-monitor',
+            prompt: 'Run the checks',
+            schema: { type: 'object', properties: { passed: { type: 'boolean' } }, required: ['passed'] },
+            success: { path: 'passed', equals: true },
+            transitions: { failure: { to: 'check', maxLoops: 1 } },
+          },
+        },
+      }),
+    );
+    await registry.load();
+    const bus = new MessageBus(manager, path.join(testDir, 'messages.json'));
+    bus.start();
+
+    backend.enqueue(textReply('```json\n{"passed": false}\n```', { delayMs: 30 }));
+    backend.enqueue(textReply('Not yet'), textReply('Still red'), json({ passed: true }));
+    const busy = once(manager, 'instanceBusy');
+    const run = engine.startRun({ workflowId: 'checks', workingDirectory: testDir });
+    const [{ id: instanceId }] = await busy;
+    bus.send({ to: instanceId, body: 'Are the checks green?' });
+    bus.send({ to: instanceId, body: 'And now?' });
+    const done = await finished(engine, run.id);
+    bus.stop();
+    await bus.flush();
+
+    assert.strictEqual(done.status, 'completed');
+    assert.deepStrictEqual(
+      backend.queries.map((query) => query.prompt.split('\n')[0]),
+      [
+        'Run the checks',
+        'Message msg-1 from the user (thread thread-1):',
+        'Message msg-2 from the user (thread thread-2):',
+        'Run the checks',
+      ],
+    );
+  });
+
+  it('should check the workflow and inputs of a run', () => {
+    assert.throws(
+      () => engine.startRun({ workflowId: 'issue-to-land', workingDirectory: testDir }),
+      /Workflow issue-to-land needs the input request/,
+    );
+    assert.throws(() => engine.startRun({ workflowId: 'nope', workingDirectory: testDir }), /Workflow nope not found/);
+  });
+
+  it('should resume a run from its stage after a restart', async () => {
+    backend.enqueue(json({ spec: 'Spec', acceptanceCriteria: ['Works'] }));
+    backend.enqueue(textReply('Interrupted', { delayMs: 50 }));
+    const run = engine.startRun({ workflowId: 'issue-to-land', input: { request: 'R' }, workingDirectory: testDir });
+    await stageStarted(engine, 'develop');
+    engine.stop();
+    await engine.flush();
+
+    backend.enqueue(textReply('Implemented'));
+    backend.enqueue(json({ decision: 'approve', summary: 'Fine' }));
+    backend.enqueue(textReply('Landed'));
+    const restarted = new WorkflowEngine(manager, registry, path.join(testDir, 'workflow-runs.json'));
+    await restarted.load();
+    assert.strictEqual(restarted.get(run.id)?.currentStage, 'develop');
+    const done = finished(restarted, run.id);
+    restarted.start();
+    const resumed = await done;
+    restarted.stop();
+    await restarted.flush();
+
+    assert.strictEqual(resumed.status, 'completed');
+    assert.deepStrictEqual(
+      resumed.history.map((step) => step.stage),
+      ['refine', 'develop', 'review', 'land'],
+    );
+    assert.strictEqual(resumed.stages.develop.output, 'Implemented');
+  });
+
+  it('should cancel a run and stop its instances', async () => {
+    backend.enqueue(textReply('{}', { delayMs: 1000 }));
+    const run = engine.startRun({ workflowId: 'issue-to-land', input: { request: 'R' }, workingDirectory: testDir });
+    await stageStarted(engine, 'refine');
+
+    const cancelled = await engine.cancel(run.id);
+    assert.strictEqual(cancelled.status, 'cancelled');
+    assert.strictEqual(cancelled.stages.refine.error, 'cancelled');
+    assert.deepStrictEqual(manager.getActiveInstances(), []);
+    await assert.rejects(engine.cancel(run.id), /cannot be cancelled. Current status: cancelled/);
+  });
+});
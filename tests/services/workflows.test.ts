@@ -0,0 +1,157 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  BUILT_IN_WORKFLOWS,
+  WorkflowRegistry,
+  meetsCondition,
+  parseWorkflow,
+  renderTemplate,
+} from '../../src/services/workflows.js';
+
+describe('Workflows', () => {
+  const review = {
+    name: 'Review loop',
+    inputs: ['change'],
+    stages: {
+      develop: { persona: 'developer', prompt: 'Implement {{input.change}}. {{stages.review.output.summary}}' },
+      review: {
+        persona: 'pr-reviewer',
+        prompt: 'Review the work of {{stages.develop.instanceId}}',
+        schema: { type: 'object', properties: { decision: { type: 'string' } }, required: ['decision'] },
+        outcome: 'decision',
+        transitions: { approve: 'done', 'request-changes': { to: 'develop', maxLoops: 2 } },
+      },
+    },
+  };
+
+  it('should parse a workflow and default its id and start', () => {
+    const workflow = parseWorkflow(review, 'review-loop');
+    assert.strictEqual(workflow.id, 'review-loop');
+    assert.strictEqual(workflow.start, 'develop');
+    assert.strictEqual(workflow.description, '');
+    assert.deepStrictEqual(workflow.stages.review.transitions, {
+      approve: { to: 'done', maxLoops: undefined, exhausted: undefined },
+      'request-changes': { to: 'develop', maxLoops: 2, exhausted: undefined },
+    });
+  });
+
+  it('should accept the built-in workflows', () => {
+    for (const workflow of BUILT_IN_WORKFLOWS) {
+      assert.doesNotThrow(() => parseWorkflow(workflow, workflow.id));
+    }
+  });
+
+  it('should reject invalid workflows with the reason', () => {
+    const withStage = (stage: Record<string, unknown>) => ({ ...review, stages: { ...review.stages, review: stage } });
+    assert.throws(() => parseWorkflow({ ...review, stages: {} }, 'x'), /"stages" must be an object with at least one/);
+    assert.throws(() => parseWorkflow({ ...review, start: 'land' }, 'x'), /"start" must be one of the stages/);
+    assert.throws(
+      () => parseWorkflow({ ...review, stages: { done: review.stages.develop } }, 'x'),
+      /"done" cannot be a stage id/,
+    );
+    assert.throws(
+      () => parseWorkflow(withStage({ persona: 'pr-reviewer', prompt: 'Review {{input.branch}}' }), 'x'),
+      /stage "review" uses an unknown variable \{\{input.branch\}\}/,
+    );
+    assert.throws(
+      () => parseWorkflow(withStage({ ...review.stages.review, transitions: { approve: 'land' } }), 'x'),
+      /stage "review" transition "approve" goes to unknown stage "land"/,
+    );
+    assert.throws(
+      () =>
+        parseWorkflow(
+          withStage({ ...review.stages.review, transitions: { approve: { to: 'done', maxLoops: 0 } } }),
+          'x',
+        ),
+      /transition "approve".maxLoops must be a positive integer/,
+    );
+    assert.throws(
+      () => parseWorkflow(withStage({ ...review.stages.review, schema: undefined }), 'x'),
+      /"outcome" must be a path in the output, and needs a "schema"/,
+    );
+    assert.throws(
+      () => parseWorkflow(withStage({ ...review.stages.review, schema: { type: 'map' } }), 'x'),
+      /stage "review" has an invalid "schema": #\/type has an unknown type "map"/,
+    );
+  });
+
+  it('should render templates and check conditions', () => {
+    const context = { input: { change: 'Add export' }, stages: { review: { output: { comments: [{ line: 3 }] } } } };
+    assert.strictEqual(
+      renderTemplate('{{ input.change }}: {{stages.review.output.comments}} {{stages.develop.output}}.', context),
+      'Add export: [{"line":3}] .',
+    );
+    assert.strictEqual(renderTemplate('Line {{stages.review.output.comments.0.line}}', context), 'Line 3');
+
+    assert.strictEqual(meetsCondition({ tests: { passed: true } }, { path: 'tests.passed', equals: true }), true);
+    assert.strictEqual(meetsCondition({ grade: 'B' }, { path: 'grade', in: ['A', 'B'] }), true);
+    assert.strictEqual(meetsCondition('Tests failed: 2', { matches: '^All tests passed' }), false);
+  });
+
+  describe('WorkflowRegistry', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflows-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should load workflow files next to the built-in ones', async () => {
+      await fs.writeFile(path.join(testDir, 'review-loop.json'), JSON.stringify(review));
+      const registry = new WorkflowRegistry(testDir);
+      await registry.load();
+      assert.deepStrictEqual(
+        registry.getAll().map((workflow) => [workflow.id, workflow.builtIn]),
+        [
+          ['issue-to-land', true],
+          ['review-loop', undefined],
+        ],
+      );
+    });
+
+    it('should load workflows written in YAML', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'review-loop.yaml'),
+        [
+          'name: Review loop',
+          'inputs: [change]',
+          'stages:',
+          '  develop:',
+          '    persona: developer',
+          '    prompt: Implement {{input.change}}',
+        ].join('\n'),
+      );
+      const registry = new WorkflowRegistry(testDir);
+      await registry.load();
+      const workflow = registry.get('review-loop');
+      assert.deepStrictEqual(workflow?.inputs, ['change']);
+      assert.deepStrictEqual(
+        [workflow?.stages.develop.persona, workflow?.stages.develop.prompt],
+        ['developer', 'Implement {{input.change}}'],
+      );
+    });
+
+    it('should skip and report the file of an invalid workflow', async () => {
+      await fs.writeFile(path.join(testDir, 'broken.json'), JSON.stringify({ name: 'Broken', stages: {} }));
+      await fs.writeFile(path.join(testDir, 'garbled.yml'), 'name: [Garbled');
+      await fs.writeFile(path.join(testDir, 'review-loop.json'), JSON.stringify(review));
+      await fs.writeFile(path.join(testDir, 'review-loop.yaml'), 'name: Review loop again');
+
+      const registry = new WorkflowRegistry(testDir);
+      await registry.load();
+      assert.strictEqual(registry.get('review-loop')?.name, review.name);
+      assert.strictEqual(registry.get('broken'), undefined);
+      const errors = registry.getLoadErrors();
+      assert.strictEqual(errors.length, 3);
+      assert.match(errors[0], /broken\.json: "stages" must be an object/);
+      assert.match(errors[1], /garbled\.yml: /);
+      assert.match(errors[2], /review-loop\.yaml: another file already defines workflow review-loop/);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { WorktreeManager, slugify } from '../../src/services/worktree-manager.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('WorktreeManager', () => {
+  let testDir: string;
+  let repoPath: string;
+  let manager: WorktreeManager;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `worktree-test-${Date.now()}`);
+    repoPath = path.join(testDir, 'repo');
+    await fs.mkdir(repoPath, { recursive: true });
+
+    git(repoPath, 'init', '-q', '-b', 'main');
+    git(repoPath, 'config', 'user.email', 'test@example.com');
+    git(repoPath, 'config', 'user.name', 'Test');
+    await fs.writeFile(path.join(repoPath, 'README.md'), '# Test\n');
+    git(repoPath, 'add', '.');
+    git(repoPath, 'commit', '-q', '-m', 'initial');
+
+    manager = new WorktreeManager(path.join(testDir, 'worktrees'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should create a worktree on a branch named after the ticket', async () => {
+    const info = await manager.create(repoPath, 'claude-1', 'Fix login #42');
+
+    assert.match(info.branch, /^coding-team\/fix-login-42-claude-1-[a-z0-9]+$/);
+    assert.strictEqual(git(info.worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD'), info.branch);
+    assert.strictEqual((await manager.getAll()).length, 1);
+
+    // Created at the same time with the same label
+    const [a, b] = await Promise.all([
+      manager.create(repoPath, 'claude-2', 'Fix login #42'),
+      manager.create(repoPath, 'claude-3', 'Fix login #42'),
+    ]);
+    assert.notStrictEqual(a.branch, b.branch);
+  });
+
+  it('should reject a directory that is not a git repository', async () => {
+    const notRepo = path.join(testDir, 'not-a-repo');
+    await fs.mkdir(notRepo);
+
+    await assert.rejects(async () => manager.create(notRepo, 'claude-1', 'x'), /is not a git repository/);
+  });
+
+  it('should remove the worktree and its branch', async () => {
+    const info = await manager.create(repoPath, 'claude-1', 'remove me');
+    await manager.release(info.worktreePath, 'remove');
+
+    await assert.rejects(fs.stat(info.worktreePath));
+    assert.strictEqual(git(repoPath, 'branch', '--list', info.branch), '');
+    assert.strictEqual((await manager.getAll()).length, 0);
+  });
+
+  it('should stash uncommitted changes when archiving and keep the branch', async () => {
+    const info = await manager.create(repoPath, 'claude-1', 'archive me');
+    await fs.writeFile(path.join(info.worktreePath, 'work.txt'), 'in progress');
+
+    await manager.release(info.worktreePath, 'archive');
+
+    await assert.rejects(fs.stat(info.worktreePath));
+    assert.notStrictEqual(git(repoPath, 'branch', '--list', info.branch), '');
+    assert.match(git(repoPath, 'stash', 'list'), /coding-team archive of coding-team\/archive-me/);
+  });
+
+  it('should keep the worktree and exclude it from reconciliation', async () => {
+    const info = await manager.create(repoPath, 'claude-1', 'keep me');
+    await manager.release(info.worktreePath, 'keep');
+
+    const [kept] = await manager.getAll();
+    assert.strictEqual(kept.status, 'kept');
+    await fs.stat(info.worktreePath);
+  });
+
+  it('should clean up worktrees whose owning process is gone', async () => {
+    const clean = await manager.create(repoPath, 'claude-1', 'clean');
+    const dirty = await manager.create(repoPath, 'claude-2', 'dirty');
+    await fs.writeFile(path.join(dirty.worktreePath, 'work.txt'), 'in progress');
+    const committed = await manager.create(repoPath, 'claude-3', 'committed');
+    await fs.writeFile(path.join(committed.worktreePath, 'done.txt'), 'finished');
+    git(committed.worktreePath, 'add', '.');
+    git(committed.worktreePath, 'commit', '-q', '-m', 'unmerged work');
+
+    // Simulate a crashed previous run by rewriting the owner pid to one that cannot exist
+    const registryPath = path.join(manager.getRootDir(), 'worktrees.json');
+    const entries = JSON.parse(await fs.readFile(registryPath, 'utf-8'));
+    for (const entry of entries) {
+      entry.pid = 2 ** 22 + 1;
+    }
+    await fs.writeFile(registryPath, JSON.stringify(entries));
+
+    const restarted = new WorktreeManager(manager.getRootDir());
+    const result = await restarted.reconcile();
+
+    assert.deepStrictEqual(
+      result.removed.map((worktree) => worktree.branch),
+      [clean.branch],
+    );
+    assert.deepStrictEqual(
+      result.archived.map((worktree) => worktree.branch),
+      [dirty.branch, committed.branch],
+    );
+    assert.strictEqual((await restarted.getAll()).length, 0);
+    // A branch with commits of its own survives even though its worktree was clean
+    assert.strictEqual(git(repoPath, 'branch', '--list', clean.branch), '');
+    assert.match(git(repoPath, 'log', '--format=%s', committed.branch), /unmerged work/);
+  });
+
+  it('should not touch worktrees owned by a live process', async () => {
+    await manager.create(repoPath, 'claude-1', 'alive');
+
+    const result = await manager.reconcile();
+    assert.strictEqual(result.removed.length + result.archived.length, 0);
+  });
+
+  it('should slugify labels into branch-safe names', () => {
+    assert.strictEqual(slugify('  Add OAuth: Google & GitHub  '), 'add-oauth-google-github');
+    assert.strictEqual(slugify('!!!'), 'instance');
+  });
+});
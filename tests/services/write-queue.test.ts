@@ -0,0 +1,52 @@
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { InstanceStore } from '../../src/services/instance-store.js';
+import { WriteQueue } from '../../src/services/write-queue.js';
+
+describe('WriteQueue', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'write-queue-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should run writes in order and keep going after one fails', async () => {
+    const writes = new WriteQueue();
+    const order: string[] = [];
+    const first = writes.run(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push('first');
+    });
+    const failed = writes.run(async () => {
+      throw new Error('ENOSPC');
+    });
+    const last = writes.run(async () => {
+      order.push('last');
+    });
+
+    await first;
+    await assert.rejects(failed, /ENOSPC/);
+    await last;
+    await writes.flush();
+    assert.deepStrictEqual(order, ['first', 'last']);
+  });
+
+  it('should let a store save again once a failed write is fixed', async () => {
+    const storePath = path.join(testDir, 'instances.json');
+    const store = new InstanceStore(storePath);
+    // A directory in the way of the file makes the write fail
+    await fs.mkdir(storePath);
+    await assert.rejects(store.save([]), /EISDIR/);
+
+    await fs.rm(storePath, { recursive: true });
+    await store.save([]);
+    assert.deepStrictEqual(await store.load(), []);
+  });
+});